@@ -1,47 +1,93 @@
 
-import React, { useState, useEffect, createContext, useContext, useCallback } from 'react';
-import { HashRouter, Routes, Route, Navigate, Outlet } from 'react-router-dom';
-import { Session, User } from '@supabase/supabase-js';
-import { supabase } from './lib/supabase';
-import { ToastMessage } from './types';
-
-import { PublicHomePage, AlbumDetailPage } from './pages/Public';
-import { AdminLoginPage, AdminDashboardPage, AdminAlbumEditorPage } from './pages/Admin';
+import React, { useState, useEffect, createContext, useContext, useCallback, useMemo } from 'react';
+import { BrowserRouter, Routes, Route, Navigate, Outlet } from 'react-router-dom';
+import { AuthSession, AuthUser, Locale, StaffMember, ToastMessage } from './types';
+import { GalleryRepository } from './lib/repository';
+import { createSupabaseRepository } from './lib/supabaseRepository';
+import { createMemoryRepository } from './lib/memoryRepository';
+import { getConfig } from './lib/config';
+import { can, Permission } from './lib/permissions';
+import { getLocale, setLocale, t } from './lib/i18n';
+
+import { PublicHomePage, AlbumDetailPage, SearchPage } from './pages/Public';
+import { AdminLoginPage, AdminDashboardPage, AdminAlbumEditorPage, AdminUsersPage, AdminActivityPage, AdminTrashPage } from './pages/Admin';
 import { ToastContainer } from './components/ui';
 
+// --- REPOSITORY CONTEXT ---
+const createDefaultRepository = (): GalleryRepository =>
+  getConfig().dataSource === 'memory' ? createMemoryRepository() : createSupabaseRepository();
+
+const RepositoryContext = createContext<GalleryRepository | null>(null);
+
+export const RepositoryProvider: React.FC<{ repository?: GalleryRepository; children: React.ReactNode }> = ({ repository, children }) => {
+  const [value] = useState(() => repository ?? createDefaultRepository());
+  return <RepositoryContext.Provider value={value}>{children}</RepositoryContext.Provider>;
+};
+
+export const useRepository = () => {
+  const repository = useContext(RepositoryContext);
+  if (!repository) throw new Error('useRepository must be used within a RepositoryProvider');
+  return repository;
+};
+
 // --- AUTH CONTEXT ---
 interface AuthContextType {
-  session: Session | null;
-  user: User | null;
+  session: AuthSession | null;
+  user: AuthUser | null;
+  // The signed-in user's role profile; null for visitors and accounts without admin access.
+  staff: StaffMember | null;
   loading: boolean;
+  can: (permission: Permission, albumId?: string) => boolean;
 }
-const AuthContext = createContext<AuthContextType>({ session: null, user: null, loading: true });
+const AuthContext = createContext<AuthContextType>({ session: null, user: null, staff: null, loading: true, can: () => false });
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [session, setSession] = useState<Session | null>(null);
-  const [user, setUser] = useState<User | null>(null);
+  const repository = useRepository();
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [loading, setLoading] = useState(true);
+  // Which email `staff` was loaded for, so a fresh sign-in counts as loading until its profile arrives.
+  const [staff, setStaff] = useState<{ email: string; member: StaffMember | null } | null>(null);
 
   useEffect(() => {
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+    const unsubscribe = repository.auth.onAuthStateChange((session) => {
       setSession(session);
       setUser(session?.user ?? null);
       setLoading(false);
     });
 
     // Check initial session
-    supabase.auth.getSession().then(({ data: { session } }) => {
+    repository.auth.getSession().then((session) => {
         setSession(session);
         setUser(session?.user ?? null);
         setLoading(false);
     });
 
-    return () => {
-      subscription?.unsubscribe();
-    };
-  }, []);
+    return unsubscribe;
+  }, [repository]);
 
-  const value = { session, user, loading };
+  useEffect(() => {
+    const email = user?.email;
+    if (!email) return;
+    let cancelled = false;
+    repository.staff.getByEmail(email)
+      .then((member) => { if (!cancelled) setStaff({ email, member }); })
+      .catch((error) => {
+        console.error('Error fetching staff profile:', error);
+        if (!cancelled) setStaff({ email, member: null });
+      });
+    return () => { cancelled = true; };
+  }, [repository, user?.email]);
+
+  const member = user?.email && staff?.email === user.email ? staff.member : null;
+  const profileLoading = !!user?.email && staff?.email !== user.email;
+  const value = {
+    session,
+    user,
+    staff: member,
+    loading: loading || profileLoading,
+    can: (permission: Permission, albumId?: string) => can(member, permission, albumId),
+  };
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
 };
 
@@ -72,9 +118,55 @@ export const ToastProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 export const useToast = () => useContext(ToastContext);
 
 
+// --- I18N CONTEXT ---
+// `t` and the formatters read the module's current locale; the context only makes
+// components re-render when it changes.
+interface I18nContextType {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: typeof t;
+}
+const I18nContext = createContext<I18nContextType>({ locale: getLocale(), setLocale, t });
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState(getLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const changeLocale = useCallback((next: Locale) => {
+    setLocale(next);
+    setLocaleState(next);
+  }, []);
+
+  const value = useMemo(() => ({ locale, setLocale: changeLocale, t }), [locale, changeLocale]);
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => useContext(I18nContext);
+
+
 // --- PROTECTED ROUTE ---
-const ProtectedRoute = () => {
-  const { session, loading } = useAuth();
+// Signed-in accounts without a staff row see a notice instead of the admin panel.
+const NoAccessScreen = () => {
+  const { user } = useAuth();
+  const repository = useRepository();
+  const { t } = useI18n();
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-100 p-4">
+      <div className="w-full max-w-md p-8 space-y-4 bg-white rounded-lg shadow-md text-center">
+        <h1 className="text-xl font-bold text-gray-900">{t('noAccess.title')}</h1>
+        <p className="text-sm text-gray-600">{t('noAccess.body', user?.email ?? '')}</p>
+        <button onClick={() => repository.auth.signOut()} className="text-sm font-semibold text-brand-blue-600 hover:text-brand-blue-800">{t('common.logout')}</button>
+      </div>
+    </div>
+  );
+};
+
+// `permission` additionally restricts the nested routes; without it any staff member may enter.
+const ProtectedRoute: React.FC<{ permission?: Permission }> = ({ permission }) => {
+  const { session, staff, loading, can } = useAuth();
   if (loading) {
     return (
       <div className="flex items-center justify-center h-screen bg-gray-100">
@@ -82,35 +174,56 @@ const ProtectedRoute = () => {
       </div>
     );
   }
-  return session ? <Outlet /> : <Navigate to="/admin/login" />;
+  if (!session) return <Navigate to="/admin/login" />;
+  if (!staff) return <NoAccessScreen />;
+  if (permission && !can(permission)) return <Navigate to="/admin" />;
+  return <Outlet />;
 };
 
 
 // --- APP COMPONENT ---
-function App() {
+function App({ repository }: { repository?: GalleryRepository }) {
   return (
-    <AuthProvider>
-      <ToastProvider>
-        <HashRouter>
-          <Routes>
-            {/* Public Routes */}
-            <Route path="/" element={<PublicHomePage />} />
-            <Route path="/gallery/:albumId" element={<AlbumDetailPage />} />
-            
-            {/* Admin Routes */}
-            <Route path="/admin/login" element={<AdminLoginPage />} />
-            <Route element={<ProtectedRoute />}>
-              <Route path="/admin" element={<AdminDashboardPage />} />
-              <Route path="/admin/album/new" element={<AdminAlbumEditorPage />} />
-              <Route path="/admin/album/:albumId" element={<AdminAlbumEditorPage />} />
-            </Route>
-
-            {/* Redirect any other path to home */}
-            <Route path="*" element={<Navigate to="/" />} />
-          </Routes>
-        </HashRouter>
-      </ToastProvider>
-    </AuthProvider>
+    <RepositoryProvider repository={repository}>
+      <I18nProvider>
+        <AuthProvider>
+          <ToastProvider>
+            <BrowserRouter>
+              <Routes>
+                {/* Public Routes */}
+                <Route path="/" element={<PublicHomePage />} />
+                <Route path="/gallery/:albumId" element={<AlbumDetailPage />} />
+                <Route path="/gallery/:albumId/photo/:photoId" element={<AlbumDetailPage />} />
+                <Route path="/search" element={<SearchPage />} />
+                <Route path="/tag/:slug" element={<PublicHomePage />} />
+
+                {/* Admin Routes */}
+                <Route path="/admin/login" element={<AdminLoginPage />} />
+                <Route element={<ProtectedRoute />}>
+                  <Route path="/admin" element={<AdminDashboardPage />} />
+                  <Route path="/admin/album/:albumId" element={<AdminAlbumEditorPage />} />
+                </Route>
+                <Route element={<ProtectedRoute permission="album.create" />}>
+                  <Route path="/admin/album/new" element={<AdminAlbumEditorPage />} />
+                </Route>
+                <Route element={<ProtectedRoute permission="users.manage" />}>
+                  <Route path="/admin/users" element={<AdminUsersPage />} />
+                </Route>
+                <Route element={<ProtectedRoute permission="album.delete" />}>
+                  <Route path="/admin/trash" element={<AdminTrashPage />} />
+                </Route>
+                <Route element={<ProtectedRoute permission="activity.view" />}>
+                  <Route path="/admin/activity" element={<AdminActivityPage />} />
+                </Route>
+
+                {/* Redirect any other path to home */}
+                <Route path="*" element={<Navigate to="/" />} />
+              </Routes>
+            </BrowserRouter>
+          </ToastProvider>
+        </AuthProvider>
+      </I18nProvider>
+    </RepositoryProvider>
   );
 }
 
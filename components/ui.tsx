@@ -1,6 +1,11 @@
 
-import React, { FC, ReactNode } from 'react';
-import { ToastMessage } from '../types';
+import React, { FC, ReactNode, useEffect, useRef, useState } from 'react';
+import { Locale, ToastMessage, Photo, PhotoVariants } from '../types';
+import { variantSrcSet } from '../lib/renditions';
+import { buildAlbumZip, saveBlob, zipFileName } from '../lib/albumDownload';
+import { ZipTooLargeError } from '../lib/zip';
+import { splitByTerms } from '../lib/search';
+import { LOCALES, LOCALE_NAMES, t } from '../lib/i18n';
 
 // --- ICONS ---
 export const PlusIcon: FC<{ className?: string }> = ({ className = 'w-6 h-6' }) => (
@@ -52,12 +57,63 @@ export const CameraIcon: FC<{ className?: string }> = ({ className = 'w-6 h-6' }
     </svg>
 );
 
+export const RetryIcon: FC<{ className?: string }> = ({ className = 'w-6 h-6' }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0 3.181 3.183a8.25 8.25 0 0 0 13.803-3.7M4.031 9.865a8.25 8.25 0 0 1 13.803-3.7l3.181 3.182m0-4.991v4.99" />
+  </svg>
+);
+
+export const SearchIcon: FC<{ className?: string }> = ({ className = 'w-6 h-6' }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="m21 21-5.197-5.197m0 0A7.5 7.5 0 1 0 5.196 5.196a7.5 7.5 0 0 0 10.607 10.607Z" />
+  </svg>
+);
+
 export const StarIcon: FC<{ className?: string, solid?: boolean }> = ({ className = 'w-6 h-6', solid=false }) => (
   <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill={solid ? "currentColor" : "none"} stroke="currentColor" strokeWidth={1.5} className={className}>
     <path strokeLinecap="round" strokeLinejoin="round" d="M11.48 3.499a.562.562 0 0 1 1.04 0l2.125 5.111a.563.563 0 0 0 .475.345l5.518.442c.499.04.701.663.32 1.011l-4.2 4.24a.563.563 0 0 0-.162.632l1.285 5.385a.562.562 0 0 1-.84.61l-4.725-2.885a.562.562 0 0 0-.586 0L6.982 20.54a.562.562 0 0 1-.84-.61l1.285-5.386a.562.562 0 0 0-.162-.631l-4.2-4.24a.562.562 0 0 1 .32-1.011l5.518-.442a.563.563 0 0 0 .475-.345L11.48 3.5Z" />
   </svg>
 );
 
+export const DownloadIcon: FC<{ className?: string }> = ({ className = 'w-6 h-6' }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5M16.5 12 12 16.5m0 0L7.5 12m4.5 4.5V3" />
+  </svg>
+);
+
+export const InfoIcon: FC<{ className?: string }> = ({ className = 'w-6 h-6' }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="m11.25 11.25.041-.02a.75.75 0 0 1 1.063.852l-.708 2.836a.75.75 0 0 0 1.063.853l.041-.021M21 12a9 9 0 1 1-18 0 9 9 0 0 1 18 0Zm-9-3.75h.008v.008H12V8.25Z" />
+  </svg>
+);
+
+export const ShareIcon: FC<{ className?: string }> = ({ className = 'w-6 h-6' }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M7.217 10.907a2.25 2.25 0 1 0 0 2.186m0-2.186c.18.324.283.696.283 1.093s-.103.77-.283 1.093m0-2.186 9.566-5.314m-9.566 7.5 9.566 5.314m0 0a2.25 2.25 0 1 0 3.935 2.186 2.25 2.25 0 0 0-3.935-2.186Zm0-12.814a2.25 2.25 0 1 0 3.933-2.185 2.25 2.25 0 0 0-3.933 2.185Z" />
+  </svg>
+);
+
+export const PlayIcon: FC<{ className?: string }> = ({ className = 'w-6 h-6' }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M5.25 5.653c0-.856.917-1.398 1.667-.986l11.54 6.347a1.125 1.125 0 0 1 0 1.972l-11.54 6.347a1.125 1.125 0 0 1-1.667-.986V5.653Z" />
+  </svg>
+);
+
+export const PauseIcon: FC<{ className?: string }> = ({ className = 'w-6 h-6' }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 5.25v13.5m-7.5-13.5v13.5" />
+  </svg>
+);
+
+// Arrows pointing out; pointing in with `exit`.
+export const FullscreenIcon: FC<{ className?: string, exit?: boolean }> = ({ className = 'w-6 h-6', exit = false }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+    {exit
+      ? <path strokeLinecap="round" strokeLinejoin="round" d="M9 9V4.5M9 9H4.5M9 9 3.75 3.75M9 15v4.5M9 15H4.5M9 15l-5.25 5.25M15 9h4.5M15 9V4.5M15 9l5.25-5.25M15 15h4.5M15 15v4.5m0-4.5 5.25 5.25" />
+      : <path strokeLinecap="round" strokeLinejoin="round" d="M3.75 3.75v4.5m0-4.5h4.5m-4.5 0L9 9M3.75 20.25v-4.5m0 4.5h4.5m-4.5 0L9 15M20.25 3.75h-4.5m4.5 0v4.5m0-4.5L15 9m5.25 11.25h-4.5m4.5 0v-4.5m0 4.5L15 15" />}
+  </svg>
+);
+
 
 // --- UI COMPONENTS ---
 
@@ -103,6 +159,145 @@ export const Button: FC<React.ButtonHTMLAttributes<HTMLButtonElement> & {variant
     );
 }
 
+interface ResponsiveImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'srcSet'> {
+    src: string;
+    variants?: PhotoVariants | null;
+    // How wide the image is rendered, e.g. "(min-width: 1024px) 25vw, 50vw".
+    sizes: string;
+}
+// Lets the browser pick the smallest rendition that fills the slot. Photos without
+// renditions fall back to the original URL.
+export const ResponsiveImage: FC<ResponsiveImageProps> = ({ src, variants, sizes, loading = 'lazy', ...props }) => {
+    const srcSet = variantSrcSet(variants);
+    return (
+        <img
+            src={variants?.medium?.url ?? src}
+            srcSet={srcSet}
+            sizes={srcSet ? sizes : undefined}
+            loading={loading}
+            decoding="async"
+            {...props}
+        />
+    );
+};
+
+interface LoadMoreTriggerProps {
+    onLoadMore: () => void;
+    loading: boolean;
+}
+// Calls `onLoadMore` when scrolled into view. The button is the fallback for browsers
+// without IntersectionObserver and for retrying after a failed page.
+export const LoadMoreTrigger: FC<LoadMoreTriggerProps> = ({ onLoadMore, loading }) => {
+    const ref = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const element = ref.current;
+        if (!element || typeof IntersectionObserver === 'undefined') return;
+        const observer = new IntersectionObserver((entries) => {
+            if (entries.some(entry => entry.isIntersecting)) onLoadMore();
+        }, { rootMargin: '400px 0px' });
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, [onLoadMore]);
+
+    return (
+        <div ref={ref} className="flex justify-center py-8">
+            {loading ? <Spinner /> : <Button variant="secondary" onClick={onLoadMore}>{t('common.loadMore')}</Button>}
+        </div>
+    );
+};
+
+interface DownloadAlbumButtonProps {
+    albumTitle: string;
+    // Every photo of the album in order; called when the download starts.
+    loadPhotos: () => Promise<Photo[]>;
+    onError: (message: string) => void;
+}
+// "Unduh Semua": zips the album's full-size photos in the browser, with progress and cancel.
+export const DownloadAlbumButton: FC<DownloadAlbumButtonProps> = ({ albumTitle, loadPhotos, onError }) => {
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+    const controllerRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => controllerRef.current?.abort(), []);
+
+    const handleDownload = async () => {
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setProgress({ done: 0, total: 0 });
+        try {
+            const photos = await loadPhotos();
+            if (photos.length === 0) {
+                onError(t('download.empty'));
+            } else {
+                setProgress({ done: 0, total: photos.length });
+                const zip = await buildAlbumZip(photos, {
+                    signal: controller.signal,
+                    onProgress: (done, total) => setProgress({ done, total }),
+                });
+                saveBlob(zip, zipFileName(albumTitle));
+            }
+        } catch (error: any) {
+            if (!controller.signal.aborted) onError(t('download.failed', error instanceof ZipTooLargeError ? t('download.tooLarge') : error.message));
+        }
+        controllerRef.current = null;
+        setProgress(null);
+    };
+
+    if (progress) {
+        return (
+            <div className="inline-flex items-center gap-3 text-sm text-gray-600">
+                <span>{progress.total > 0 ? t('download.progress', progress.done, progress.total) : t('download.preparing')}</span>
+                <button onClick={() => controllerRef.current?.abort()} className="font-semibold text-red-600 hover:text-red-800">{t('download.cancel')}</button>
+            </div>
+        );
+    }
+    return (
+        <Button variant="secondary" onClick={handleDownload} className="inline-flex items-center space-x-2">
+            <DownloadIcon className="w-4 h-4" />
+            <span>{t('download.button')}</span>
+        </Button>
+    );
+};
+
+interface LanguageSwitcherProps {
+    locale: Locale;
+    onChange: (locale: Locale) => void;
+    // For dark headers.
+    inverted?: boolean;
+}
+// "ID | EN" toggle; each option carries its language name as a tooltip.
+export const LanguageSwitcher: FC<LanguageSwitcherProps> = ({ locale, onChange, inverted = false }) => {
+    const activeClass = inverted ? 'bg-white text-brand-blue-800' : 'bg-brand-blue-700 text-white';
+    const idleClass = inverted ? 'text-brand-blue-100 hover:bg-brand-blue-700' : 'text-gray-600 hover:bg-gray-100';
+    return (
+        <div role="group" aria-label={t('common.language')} className={`inline-flex rounded-md border text-xs font-semibold ${inverted ? 'border-brand-blue-600' : 'border-gray-300'}`}>
+            {LOCALES.map(option => (
+                <button
+                    key={option}
+                    onClick={() => onChange(option)}
+                    aria-pressed={option === locale}
+                    lang={option}
+                    title={LOCALE_NAMES[option]}
+                    className={`px-2 py-1 uppercase first:rounded-l-md last:rounded-r-md ${option === locale ? activeClass : idleClass}`}
+                >
+                    {option}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+// Wraps every occurrence of the search terms in <mark>.
+export const Highlight: FC<{ text: string; terms: string[] }> = ({ text, terms }) => (
+    <>
+        {splitByTerms(text, terms).map((segment, i) =>
+            segment.match
+                ? <mark key={i} className="bg-yellow-200 text-inherit rounded-sm px-0.5">{segment.text}</mark>
+                : <React.Fragment key={i}>{segment.text}</React.Fragment>
+        )}
+    </>
+);
+
 export const Input: FC<React.InputHTMLAttributes<HTMLInputElement>> = ({ className, ...props }) => (
     <input className={`w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-brand-blue-500 focus:border-brand-blue-500 sm:text-sm ${className}`} {...props} />
 );
@@ -138,3 +333,18 @@ const Toast: FC<Omit<ToastMessage, 'id'>> = ({ message, type }) => {
   );
 };
 
+
+
+// --- STARTUP ERROR SCREEN ---
+export const ConfigErrorScreen: FC<{ problems: string[] }> = ({ problems }) => (
+  <div className="flex items-center justify-center min-h-screen bg-gray-100 p-4">
+    <div className="w-full max-w-xl p-8 space-y-4 bg-white rounded-lg shadow-md border-t-4 border-red-500">
+      <h1 className="text-2xl font-bold text-gray-900">{t('configError.title')}</h1>
+      <p className="text-sm text-gray-600">{t('configError.intro')}</p>
+      <ul className="list-disc pl-5 space-y-1 text-sm text-red-600">
+        {problems.map((problem) => <li key={problem}>{problem}</li>)}
+      </ul>
+      <p className="text-xs text-gray-500">{t('configError.seeExampleBefore')} <code>.env.example</code> {t('configError.seeExampleAfter')}</p>
+    </div>
+  </div>
+);
@@ -2,15 +2,35 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { ConfigErrorScreen } from './components/ui';
+import { getConfig, ConfigError } from './lib/config';
+import { pageTitle } from './lib/seo';
+import { registerServiceWorker } from './lib/offline';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Links shared before the switch to path-based URLs look like /#/gallery/...
+if (window.location.hash.startsWith('#/')) {
+  window.history.replaceState(null, '', window.location.hash.slice(1));
+}
+
+registerServiceWorker();
+
+// Replaces any prerendered content in #root.
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+
+try {
+  document.title = pageTitle(getConfig().siteName);
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+} catch (error) {
+  if (!(error instanceof ConfigError)) throw error;
+  console.error(error);
+  root.render(<ConfigErrorScreen problems={error.problems} />);
+}
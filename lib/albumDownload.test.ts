@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Photo } from '../types';
+import { buildAlbumZip, photoFileName, zipFileName } from './albumDownload';
+
+const photo = (id: string, overrides: Partial<Photo> = {}): Photo => ({
+  id, album_id: 'a', image_url: `https://example.test/${id}.jpg`, caption: null, alt_text: null, variants: null,
+  taken_at: null, metadata: null, sort_order: 0, created_at: '2024-09-01T08:00:00.000Z', ...overrides,
+});
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe('photoFileName', () => {
+  it('numbers files in album order and adds the caption', () => {
+    expect(photoFileName({ caption: 'Pengibaran bendera' }, 6, 120, 'image/jpeg')).toBe('007 - Pengibaran bendera.jpg');
+    expect(photoFileName({ caption: null }, 0, 5, 'image/webp')).toBe('01.webp');
+  });
+
+  it('drops characters file systems refuse', () => {
+    expect(photoFileName({ caption: 'Kelas X/TKJ: "juara"?' }, 0, 1, 'image/png')).toBe('01 - Kelas X TKJ juara.png');
+  });
+});
+
+describe('zipFileName', () => {
+  it('falls back to a generic name when nothing of the title is left', () => {
+    expect(zipFileName('Upacara 17 Agustus')).toBe('Upacara 17 Agustus.zip');
+    expect(zipFileName('///')).toBe('album.zip');
+  });
+});
+
+describe('buildAlbumZip', () => {
+  it('fetches each photo in order and reports progress', async () => {
+    const fetched: string[] = [];
+    vi.stubGlobal('fetch', async (url: string) => {
+      fetched.push(url);
+      return new Response(new Blob(['x'], { type: 'image/jpeg' }));
+    });
+    const onProgress = vi.fn();
+    const zip = await buildAlbumZip([photo('p1'), photo('p2', { taken_at: '2024-08-17T00:30:00.000Z' })], { onProgress });
+
+    expect(fetched).toEqual(['https://example.test/p1.jpg', 'https://example.test/p2.jpg']);
+    expect(onProgress.mock.calls).toEqual([[1, 2], [2, 2]]);
+    expect(zip.type).toBe('application/zip');
+  });
+
+  it('dates each file by when it was shot, or else uploaded', async () => {
+    vi.stubGlobal('fetch', async () => new Response(new Blob(['x'], { type: 'image/jpeg' })));
+    const zip = await buildAlbumZip([photo('p1'), photo('p2', { taken_at: '2024-08-17T00:30:00.000Z' })]);
+    const view = new DataView(await zip.arrayBuffer());
+    // Local headers: 30 bytes, then "01.jpg" and one byte of data.
+    const dosDate = (date: Date) => ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+    expect(view.getUint16(12, true)).toBe(dosDate(new Date('2024-09-01T08:00:00.000Z')));
+    expect(view.getUint16(37 + 12, true)).toBe(dosDate(new Date('2024-08-17T00:30:00.000Z')));
+  });
+
+  it('fails with the position of a photo that cannot be fetched', async () => {
+    vi.stubGlobal('fetch', async () => new Response(null, { status: 404 }));
+    await expect(buildAlbumZip([photo('p1')])).rejects.toThrow(/404/);
+  });
+});
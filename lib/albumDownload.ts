@@ -0,0 +1,62 @@
+import { Photo } from '../types';
+import { createZipWriter } from './zip';
+import { t } from './i18n';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+};
+
+// Characters Windows, macOS or the ZIP format itself refuse in file names.
+const sanitize = (text: string) =>
+  text.replace(/[\\/:*?"<>|\u0000-\u001f]/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 80).trim();
+
+/**
+ * "007 - Pengibaran bendera.jpg": the number keeps the album order in any file
+ * browser and keeps names unique when captions repeat or are missing.
+ */
+export const photoFileName = (photo: Pick<Photo, 'caption'>, index: number, total: number, mimeType: string) => {
+  const number = String(index + 1).padStart(Math.max(2, String(total).length), '0');
+  const caption = sanitize(photo.caption ?? '');
+  const extension = EXTENSIONS[mimeType] ?? 'jpg';
+  return caption ? `${number} - ${caption}.${extension}` : `${number}.${extension}`;
+};
+
+export const zipFileName = (albumTitle: string) => `${sanitize(albumTitle) || 'album'}.zip`;
+
+/**
+ * Fetches every photo's full-size file one at a time, in album order, into a ZIP. Files
+ * are dated when they were shot, or uploaded if that is unknown. `onProgress` is called
+ * after each photo; aborting `signal` stops between files.
+ */
+export const buildAlbumZip = async (
+  photos: Photo[],
+  { signal, onProgress }: { signal?: AbortSignal; onProgress?: (done: number, total: number) => void } = {}
+): Promise<Blob> => {
+  const zip = createZipWriter();
+  for (const [index, photo] of photos.entries()) {
+    signal?.throwIfAborted();
+    const response = await fetch(photo.image_url, { signal });
+    if (!response.ok) throw new Error(t('download.photoFailed', index + 1, response.status));
+    const data = await response.blob();
+    await zip.add(photoFileName(photo, index, photos.length, data.type.split(';')[0]), data, new Date(photo.taken_at ?? photo.created_at));
+    onProgress?.(index + 1, photos.length);
+  }
+  return zip.finish();
+};
+
+/** Hands a Blob to the browser as a file download. */
+export const saveBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right away can cancel the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+};
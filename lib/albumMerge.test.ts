@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { Album, Photo } from '../types';
+import { createMemoryRepository } from './memoryRepository';
+import { mergeAlbums, splitAlbum } from './albumMerge';
+
+const album = (id: string, event_date: string): Album => ({
+  id, title: `Album ${id}`, description: null, cover_image_url: null, created_at: '2024-09-01T08:00:00.000Z',
+  event_date, location: 'Aula', status: 'published', publish_at: null, allow_download: true,
+});
+
+const photo = (id: string, album_id: string, sort_order: number): Photo => ({
+  id, album_id, image_url: `https://example.test/${id}.webp`, caption: null, alt_text: null, variants: null,
+  taken_at: null, metadata: null, sort_order, created_at: '2024-09-01T08:00:00.000Z',
+});
+
+const seed = () => ({
+  albums: [album('later', '2024-09-02'), album('earlier', '2024-09-01')],
+  photos: [photo('l1', 'later', 0), photo('l2', 'later', 1), photo('e1', 'earlier', 0)],
+  tags: [{ id: 't1', name: 'Upacara', slug: 'upacara' }, { id: 't2', name: 'OSIS', slug: 'osis' }],
+  albumTags: [{ album_id: 'later', tag_id: 't1' }, { album_id: 'earlier', tag_id: 't2' }],
+});
+
+describe('mergeAlbums', () => {
+  it('moves every photo into the target, earliest album first, and trashes the rest', async () => {
+    const repository = createMemoryRepository(seed());
+    const albums = await repository.albums.listWithPhotoCount({ status: 'all' });
+    await mergeAlbums(repository, albums, {
+      targetId: 'later',
+      title: 'Gabungan',
+      description: 'Dua hari',
+      coverImageUrl: 'https://example.test/e1.webp',
+    });
+
+    expect((await repository.photos.listByAlbum('later')).map(p => p.id)).toEqual(['e1', 'l1', 'l2']);
+    const merged = await repository.albums.get('later');
+    expect(merged).toMatchObject({ title: 'Gabungan', description: 'Dua hari', cover_image_url: 'https://example.test/e1.webp' });
+    expect(merged.tags?.map(t => t.id).sort()).toEqual(['t1', 't2']);
+    expect((await repository.albums.listTrashed()).map(a => a.id)).toEqual(['earlier']);
+  });
+});
+
+describe('splitAlbum', () => {
+  it('moves the photos into a new draft that copies the date, location and tags', async () => {
+    const repository = createMemoryRepository(seed());
+    const source = await repository.albums.get('later');
+    const photos = await repository.photos.listByAlbum('later');
+    const created = await splitAlbum(repository, source, [photos[1]], 'Hari kedua');
+
+    const split = await repository.albums.get(created.id);
+    expect(split).toMatchObject({
+      title: 'Hari kedua',
+      status: 'draft',
+      event_date: '2024-09-02',
+      location: 'Aula',
+      cover_image_url: 'https://example.test/l2.webp',
+    });
+    expect(split.tags?.map(t => t.id)).toEqual(['t1']);
+    expect((await repository.photos.listByAlbum(created.id)).map(p => p.id)).toEqual(['l2']);
+    expect((await repository.photos.listByAlbum('later')).map(p => p.id)).toEqual(['l1']);
+  });
+});
@@ -0,0 +1,59 @@
+import { Album, Photo } from '../types';
+import { GalleryRepository } from './repository';
+import { albumDate } from './schoolYear';
+
+export interface MergeChoices {
+  // The album that survives; it keeps its status, date, location and link.
+  targetId: string;
+  title: string;
+  description: string | null;
+  coverImageUrl: string | null;
+}
+
+const byAlbumDate = (a: Album, b: Album) =>
+  albumDate(a).getTime() - albumDate(b).getTime() || a.created_at.localeCompare(b.created_at);
+
+/**
+ * Combines `albums` into the chosen target: every photo moves over, ordered album by
+ * album from the earliest activity, the tags are combined, and the emptied albums go
+ * to the trash so the merge can still be undone by hand.
+ */
+export const mergeAlbums = async (repository: GalleryRepository, albums: Album[], choices: MergeChoices) => {
+  const ordered = [...albums].sort(byAlbumDate);
+  const sources = ordered.filter(a => a.id !== choices.targetId);
+  const photoLists = await Promise.all(ordered.map(a => repository.photos.listByAlbum(a.id)));
+
+  for (const [index, album] of ordered.entries()) {
+    if (album.id === choices.targetId) continue;
+    for (const photo of photoLists[index]) await repository.photos.move(photo.id, choices.targetId);
+  }
+  await repository.photos.reorder(choices.targetId, photoLists.flat().map(p => p.id));
+
+  const tagIds = [...new Set(ordered.flatMap(a => (a.tags ?? []).map(t => t.id)))];
+  await repository.tags.setForAlbum(choices.targetId, tagIds);
+  await repository.albums.update(choices.targetId, {
+    title: choices.title,
+    description: choices.description,
+    cover_image_url: choices.coverImageUrl,
+  });
+  for (const album of sources) await repository.albums.trash(album.id);
+};
+
+/**
+ * Moves `photos` out of an album into a new draft album that copies its date,
+ * location and tags, with the first moved photo as cover. Resolves with the new album.
+ */
+export const splitAlbum = async (repository: GalleryRepository, source: Album, photos: Photo[], title: string) => {
+  const created = await repository.albums.create({
+    title,
+    description: null,
+    event_date: source.event_date,
+    location: source.location,
+    status: 'draft',
+    publish_at: null,
+  });
+  if (source.tags?.length) await repository.tags.setForAlbum(created.id, source.tags.map(t => t.id));
+  for (const photo of photos) await repository.photos.move(photo.id, created.id);
+  await repository.albums.update(created.id, { cover_image_url: photos[0]?.image_url ?? null });
+  return created;
+};
@@ -0,0 +1,23 @@
+import { Album, AlbumStatus } from '../types';
+import { t } from './i18n';
+
+// "scheduled" is not stored: it is a published album whose publish_at is still ahead.
+export type AlbumDisplayStatus = AlbumStatus | 'scheduled';
+
+export const albumStatusLabel = (status: AlbumDisplayStatus) => t(`status.${status}`);
+
+/** Mirrors public.is_album_public in the database, plus the trash check its callers make. */
+export const isAlbumPublic = (album: Pick<Album, 'status' | 'publish_at' | 'deleted_at'>, now = new Date()) =>
+  !album.deleted_at && album.status === 'published' && (!album.publish_at || new Date(album.publish_at) <= now);
+
+export const displayStatus = (album: Pick<Album, 'status' | 'publish_at'>, now = new Date()): AlbumDisplayStatus =>
+  album.status === 'published' && !isAlbumPublic(album, now) ? 'scheduled' : album.status;
+
+// <input type="datetime-local"> works in local time without a zone; the database stores UTC.
+export const toDateTimeLocal = (iso: string | null): string => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+};
+
+export const fromDateTimeLocal = (value: string): string | null => (value ? new Date(value).toISOString() : null);
@@ -0,0 +1,46 @@
+import { AuditAction, AuditEntry } from '../types';
+import { t } from './i18n';
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'album.create', 'album.update', 'album.delete', 'album.cover', 'album.trash', 'album.restore',
+  'photo.upload', 'photo.delete', 'photo.caption', 'photo.trash', 'photo.restore', 'photo.move',
+];
+
+export const auditActionLabel = (action: AuditAction) => t(`audit.${action}`);
+
+// Album fields whose changes are logged as album.update.
+export const AUDITED_ALBUM_FIELDS = ['title', 'description', 'event_date', 'location', 'status', 'publish_at', 'allow_download', 'translations'] as const;
+
+// Every field an entry may mention: the audited ones plus those the triggers add.
+const FIELDS = [...AUDITED_ALBUM_FIELDS, 'cover_image_url', 'caption', 'alt_text', 'image_url', 'photo_count', 'album'] as const;
+
+const fieldLabel = (field: string) =>
+  (FIELDS as readonly string[]).includes(field) ? t(`field.${field as typeof FIELDS[number]}`) : field;
+
+/** Mirrors public.audit_diff: the fields whose value differs, before and after. */
+export const diffFields = <T extends object>(before: T, after: T, fields: readonly (keyof T & string)[]) => {
+  // Compared as JSON, like the jsonb rows the trigger compares, so equal objects count as unchanged.
+  const changed = fields.filter(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null));
+  return {
+    before: Object.fromEntries(changed.map(field => [field, before[field] ?? null])),
+    after: Object.fromEntries(changed.map(field => [field, after[field] ?? null])),
+  };
+};
+
+export interface AuditChange {
+  field: string;
+  label: string;
+  before: unknown;
+  after: unknown;
+}
+
+/** One row per field mentioned in the entry, for "label: before → after" display. */
+export const describeChanges = (entry: Pick<AuditEntry, 'before' | 'after'>): AuditChange[] => {
+  const fields = [...new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})])];
+  return fields.map(field => ({
+    field,
+    label: fieldLabel(field),
+    before: entry.before?.[field],
+    after: entry.after?.[field],
+  }));
+};
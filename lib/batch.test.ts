@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from 'vitest';
+import { applyCaptionTemplate, runBatch } from './batch';
+
+describe('applyCaptionTemplate', () => {
+  it('replaces every {n} with the position', () => {
+    expect(applyCaptionTemplate('Upacara – {n}', 3)).toBe('Upacara – 3');
+    expect(applyCaptionTemplate('{n}/{n}', 12)).toBe('12/12');
+  });
+
+  it('leaves templates without a placeholder as they are', () => {
+    expect(applyCaptionTemplate('Upacara', 3)).toBe('Upacara');
+  });
+});
+
+describe('runBatch', () => {
+  it('runs every item in order and counts the failures without stopping', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const seen: [string, number][] = [];
+    const onProgress = vi.fn();
+    const result = await runBatch(['a', 'b', 'c'], async (item, index) => {
+      seen.push([item, index]);
+      if (item === 'b') throw new Error('gagal');
+    }, onProgress);
+
+    expect(seen).toEqual([['a', 0], ['b', 1], ['c', 2]]);
+    expect(result).toEqual({ succeeded: 2, failed: 1 });
+    expect(onProgress.mock.calls).toEqual([[1], [2], [3]]);
+  });
+
+  it('waits for each item before starting the next', async () => {
+    let running = 0;
+    let mostAtOnce = 0;
+    await runBatch([1, 2, 3], async () => {
+      mostAtOnce = Math.max(mostAtOnce, ++running);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      running--;
+    });
+    expect(mostAtOnce).toBe(1);
+  });
+});
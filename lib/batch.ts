@@ -0,0 +1,31 @@
+export interface BatchResult {
+  succeeded: number;
+  failed: number;
+}
+
+/** "Upacara – {n}" → "Upacara – 3" for the third photo; every {n} is replaced. */
+export const applyCaptionTemplate = (template: string, position: number) =>
+  template.replace(/\{n\}/g, String(position));
+
+/**
+ * Runs `action` for each item one after another, so a long batch neither floods the
+ * server nor stops at the first failure. Failures are logged and counted.
+ */
+export const runBatch = async <T>(
+  items: T[],
+  action: (item: T, index: number) => Promise<void>,
+  onProgress?: (done: number) => void
+): Promise<BatchResult> => {
+  const result: BatchResult = { succeeded: 0, failed: 0 };
+  for (const [index, item] of items.entries()) {
+    try {
+      await action(item, index);
+      result.succeeded++;
+    } catch (error) {
+      console.error('Batch action failed:', error);
+      result.failed++;
+    }
+    onProgress?.(index + 1);
+  }
+  return result;
+};
@@ -0,0 +1,119 @@
+import { OutputFormat } from './imageCompression';
+
+export type DataSource = 'supabase' | 'memory';
+
+export interface AppConfig {
+  dataSource: DataSource;
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  storageBucket: string;
+  siteName: string;
+  // Public address of the site without a trailing slash; '' when not set.
+  siteUrl: string;
+  maxUploadBytes: number;
+  imageMaxDimension: number;
+  imageQuality: number;
+  imageFormat: OutputFormat;
+  uploadConcurrency: number;
+  trashRetentionDays: number;
+}
+
+// Thrown when one or more VITE_* variables are missing or malformed.
+export class ConfigError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Konfigurasi tidak valid:\n${problems.join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+type Env = Record<string, string | boolean | undefined>;
+
+const read = (env: Env, key: string): string | undefined => {
+  const value = env[key];
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+};
+
+/** Validates the raw environment and collects every problem before failing, so one restart fixes them all. */
+export const parseConfig = (env: Env): AppConfig => {
+  const problems: string[] = [];
+
+  const dataSource = (read(env, 'VITE_DATA_SOURCE') ?? 'supabase') as DataSource;
+  if (dataSource !== 'supabase' && dataSource !== 'memory') {
+    problems.push(`VITE_DATA_SOURCE harus "supabase" atau "memory", bukan "${dataSource}".`);
+  }
+
+  const supabaseUrl = read(env, 'VITE_SUPABASE_URL') ?? '';
+  const supabaseAnonKey = read(env, 'VITE_SUPABASE_ANON_KEY') ?? '';
+  if (dataSource === 'supabase') {
+    if (!supabaseUrl) {
+      problems.push('VITE_SUPABASE_URL belum diisi.');
+    } else if (!/^https?:\/\/\S+$/.test(supabaseUrl)) {
+      problems.push(`VITE_SUPABASE_URL bukan URL yang valid: "${supabaseUrl}".`);
+    }
+    if (!supabaseAnonKey) problems.push('VITE_SUPABASE_ANON_KEY belum diisi.');
+  }
+
+  const storageBucket = read(env, 'VITE_STORAGE_BUCKET') ?? 'gallery';
+  const siteName = read(env, 'VITE_SITE_NAME') ?? 'SMK LPPMRI 2 KEDUNGREJA';
+
+  const siteUrl = (read(env, 'VITE_SITE_URL') ?? '').replace(/\/+$/, '');
+  if (siteUrl && !/^https?:\/\/\S+$/.test(siteUrl)) {
+    problems.push(`VITE_SITE_URL bukan URL yang valid: "${siteUrl}".`);
+  }
+
+  const maxUploadMb = Number(read(env, 'VITE_MAX_UPLOAD_MB') ?? 5);
+  if (!Number.isFinite(maxUploadMb) || maxUploadMb <= 0) {
+    problems.push(`VITE_MAX_UPLOAD_MB harus berupa angka positif, bukan "${read(env, 'VITE_MAX_UPLOAD_MB')}".`);
+  }
+
+  const imageMaxDimension = Number(read(env, 'VITE_IMAGE_MAX_DIMENSION') ?? 2560);
+  if (!Number.isInteger(imageMaxDimension) || imageMaxDimension < 320) {
+    problems.push(`VITE_IMAGE_MAX_DIMENSION harus bilangan bulat ≥ 320, bukan "${read(env, 'VITE_IMAGE_MAX_DIMENSION')}".`);
+  }
+
+  const imageQuality = Number(read(env, 'VITE_IMAGE_QUALITY') ?? 0.82);
+  if (!Number.isFinite(imageQuality) || imageQuality <= 0 || imageQuality > 1) {
+    problems.push(`VITE_IMAGE_QUALITY harus antara 0 dan 1, bukan "${read(env, 'VITE_IMAGE_QUALITY')}".`);
+  }
+
+  const imageFormat = (read(env, 'VITE_IMAGE_FORMAT') ?? 'webp') as OutputFormat;
+  if (imageFormat !== 'webp' && imageFormat !== 'jpeg') {
+    problems.push(`VITE_IMAGE_FORMAT harus "webp" atau "jpeg", bukan "${imageFormat}".`);
+  }
+
+  const uploadConcurrency = Number(read(env, 'VITE_UPLOAD_CONCURRENCY') ?? 3);
+  if (!Number.isInteger(uploadConcurrency) || uploadConcurrency < 1) {
+    problems.push(`VITE_UPLOAD_CONCURRENCY harus bilangan bulat ≥ 1, bukan "${read(env, 'VITE_UPLOAD_CONCURRENCY')}".`);
+  }
+
+  const trashRetentionDays = Number(read(env, 'VITE_TRASH_RETENTION_DAYS') ?? 30);
+  if (!Number.isInteger(trashRetentionDays) || trashRetentionDays < 1) {
+    problems.push(`VITE_TRASH_RETENTION_DAYS harus bilangan bulat ≥ 1, bukan "${read(env, 'VITE_TRASH_RETENTION_DAYS')}".`);
+  }
+
+  if (problems.length > 0) throw new ConfigError(problems);
+
+  return {
+    dataSource,
+    supabaseUrl,
+    supabaseAnonKey,
+    storageBucket,
+    siteName,
+    siteUrl,
+    maxUploadBytes: Math.round(maxUploadMb * 1024 * 1024),
+    imageMaxDimension,
+    imageQuality,
+    imageFormat,
+    uploadConcurrency,
+    trashRetentionDays,
+  };
+};
+
+let cachedConfig: AppConfig | null = null;
+
+export const getConfig = (): AppConfig => {
+  if (!cachedConfig) cachedConfig = parseConfig(import.meta.env);
+  return cachedConfig;
+};
+
+export const formatMegabytes = (bytes: number) => `${+(bytes / 1024 / 1024).toFixed(2)}MB`;
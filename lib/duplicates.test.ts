@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { compareFingerprints, contentHash } from './duplicates';
+
+const HASH = 'f0f0f0f0f0f0f0f0';
+// `HASH` with the lowest `bits` bits flipped.
+const flipped = (bits: number) => {
+  const value = BigInt(`0x${HASH}`) ^ ((1n << BigInt(bits)) - 1n);
+  return value.toString(16).padStart(16, '0');
+};
+
+describe('contentHash', () => {
+  it('is the SHA-256 of the file as hex', async () => {
+    expect(await contentHash(new Blob(['abc']))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
+
+describe('compareFingerprints', () => {
+  it('calls files with the same bytes identical', () => {
+    expect(compareFingerprints({ contentHash: 'abc', perceptualHash: HASH }, { contentHash: 'abc', perceptualHash: flipped(40) })).toBe('identical');
+  });
+
+  it('calls images up to 6 bits apart similar', () => {
+    expect(compareFingerprints({ contentHash: 'a', perceptualHash: HASH }, { contentHash: 'b', perceptualHash: HASH })).toBe('similar');
+    expect(compareFingerprints({ contentHash: 'a', perceptualHash: HASH }, { contentHash: 'b', perceptualHash: flipped(6) })).toBe('similar');
+  });
+
+  it('calls images 7 or more bits apart different', () => {
+    expect(compareFingerprints({ contentHash: 'a', perceptualHash: HASH }, { contentHash: 'b', perceptualHash: flipped(7) })).toBeNull();
+  });
+
+  it('never matches on missing or mismatched hashes', () => {
+    expect(compareFingerprints({ contentHash: null, perceptualHash: null }, { contentHash: null, perceptualHash: null })).toBeNull();
+    expect(compareFingerprints({ contentHash: null, perceptualHash: HASH }, { contentHash: null, perceptualHash: HASH.slice(0, 8) })).toBeNull();
+  });
+});
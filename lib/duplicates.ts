@@ -0,0 +1,71 @@
+import { CanvasUnsupportedError, createCanvas, decodeImage } from './imageCompression';
+
+// Fingerprints of one image: the exact bytes, and roughly what it looks like.
+export interface PhotoFingerprint {
+  contentHash: string | null;
+  perceptualHash: string | null;
+}
+
+// Out of 64 bits. Re-saved, resized or lightly edited copies of a photo stay well below
+// this; different shots of the same scene mostly land above it.
+const SIMILARITY_THRESHOLD = 6;
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+/** SHA-256 of the file; null where the browser has no Web Crypto (plain-HTTP hosting). */
+export const contentHash = async (file: Blob): Promise<string | null> => {
+  if (!crypto.subtle) return null;
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', await file.arrayBuffer())));
+};
+
+/**
+ * A 64-bit difference hash: the image shrunk to 9×8 grey pixels, one bit per
+ * neighbour pair saying whether brightness falls to the right. As hex.
+ */
+export const perceptualHash = async (file: Blob): Promise<string> => {
+  const image = await decodeImage(file);
+  const canvas = createCanvas(9, 8);
+  const context = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!context) throw new CanvasUnsupportedError();
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, 0, 0, 9, 8);
+  if ('close' in image) image.close();
+
+  const { data } = context.getImageData(0, 0, 9, 8);
+  const brightness = (pixel: number) => data[pixel * 4] * 0.299 + data[pixel * 4 + 1] * 0.587 + data[pixel * 4 + 2] * 0.114;
+  let hex = '';
+  for (let nibble = 0; nibble < 16; nibble++) {
+    let value = 0;
+    for (let bit = 0; bit < 4; bit++) {
+      const index = nibble * 4 + bit;
+      const pixel = Math.floor(index / 8) * 9 + (index % 8);
+      value = (value << 1) | (brightness(pixel) > brightness(pixel + 1) ? 1 : 0);
+    }
+    hex += value.toString(16);
+  }
+  return hex;
+};
+
+const hammingDistance = (a: string, b: string) => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+export type Similarity = 'identical' | 'similar';
+
+/** How alike two fingerprinted images are, or null when they look different. */
+export const compareFingerprints = (a: PhotoFingerprint, b: PhotoFingerprint): Similarity | null => {
+  if (a.contentHash && a.contentHash === b.contentHash) return 'identical';
+  if (a.perceptualHash && b.perceptualHash && a.perceptualHash.length === b.perceptualHash.length &&
+      hammingDistance(a.perceptualHash, b.perceptualHash) <= SIMILARITY_THRESHOLD) {
+    return 'similar';
+  }
+  return null;
+};
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { compareByTakenAt, readExif } from './exif';
+
+// [tag, TIFF type, value]: type 2 is ASCII, 3 short, 4 long, 5 rational given as numerator/denominator pairs.
+type Field = [number, 2 | 3 | 4 | 5, string | number[]];
+
+const encodeValue = ([, type, value]: Field) => {
+  if (type === 2) return { count: (value as string).length + 1, bytes: [...new TextEncoder().encode(value as string), 0] };
+  const numbers = value as number[];
+  const size = type === 3 ? 2 : 4;
+  const bytes = new Uint8Array(numbers.length * size);
+  const view = new DataView(bytes.buffer);
+  numbers.forEach((n, i) => (size === 2 ? view.setUint16(i * 2, n, true) : view.setUint32(i * 4, n, true)));
+  return { count: type === 5 ? numbers.length / 2 : numbers.length, bytes: [...bytes] };
+};
+
+// A little-endian TIFF block with IFD0 and, when given, the EXIF and GPS sub-IFDs.
+const encodeTiff = (ifd0: Field[], exif: Field[] = [], gps: Field[] = []) => {
+  const withPointers = [...ifd0, ...(exif.length ? [[0x8769, 4, [0]] as Field] : []), ...(gps.length ? [[0x8825, 4, [0]] as Field] : [])];
+  const ifds = [withPointers, exif, gps].filter(fields => fields.length > 0);
+  const offsets: number[] = [];
+  let end = 8;
+  for (const fields of ifds) {
+    offsets.push(end);
+    end += 2 + fields.length * 12 + 4;
+  }
+  if (exif.length) withPointers.find(f => f[0] === 0x8769)![2] = [offsets[1]];
+  if (gps.length) withPointers.find(f => f[0] === 0x8825)![2] = [offsets[ifds.length - 1]];
+
+  const data: number[] = [];
+  const entries = ifds.map(fields => fields.map(field => {
+    const { count, bytes } = encodeValue(field);
+    if (bytes.length <= 4) return { field, count, inline: bytes };
+    const offset = end + data.length;
+    data.push(...bytes);
+    return { field, count, offset };
+  }));
+
+  const tiff = new Uint8Array(end + data.length);
+  const view = new DataView(tiff.buffer);
+  tiff.set([0x49, 0x49, 0x2a, 0x00]);
+  view.setUint32(4, 8, true);
+  entries.forEach((list, i) => {
+    view.setUint16(offsets[i], list.length, true);
+    list.forEach(({ field, count, inline, offset }, n) => {
+      const at = offsets[i] + 2 + n * 12;
+      view.setUint16(at, field[0], true);
+      view.setUint16(at + 2, field[1], true);
+      view.setUint32(at + 4, count, true);
+      if (inline) tiff.set(inline, at + 8);
+      else view.setUint32(at + 8, offset!, true);
+    });
+  });
+  tiff.set(data, end);
+  return tiff;
+};
+
+const jpeg = (tiff?: Uint8Array) => {
+  const parts: number[] = [0xff, 0xd8];
+  if (tiff) {
+    const length = 2 + 6 + tiff.length;
+    parts.push(0xff, 0xe1, length >> 8, length & 0xff, ...new TextEncoder().encode('Exif'), 0, 0, ...tiff);
+  }
+  parts.push(0xff, 0xda, 0x00, 0x02, 0xff, 0xd9);
+  return new Blob([new Uint8Array(parts)], { type: 'image/jpeg' });
+};
+
+const degrees = (d: number, m: number, s: number) => [d, 1, m, 1, s * 100, 100];
+
+describe('readExif', () => {
+  it('reads the camera, upright size and capture time', async () => {
+    const exif = await readExif(jpeg(encodeTiff(
+      [[0x010f, 2, 'Canon'], [0x0110, 2, 'EOS 80D'], [0x0112, 3, [6]]],
+      [[0x9003, 2, '2024:08:17 07:30:12'], [0x9011, 2, '+07:00'], [0xa002, 4, [6000]], [0xa003, 4, [4000]]],
+    )));
+    expect(exif).toEqual({
+      takenAt: '2024-08-17T00:30:12.000Z',
+      metadata: { camera: 'Canon EOS 80D', width: 4000, height: 6000 },
+      hasLocation: false,
+    });
+  });
+
+  it('does not repeat the make when the model already names it', async () => {
+    const exif = await readExif(jpeg(encodeTiff([[0x010f, 2, 'Canon'], [0x0110, 2, 'Canon EOS 80D']])));
+    expect(exif?.metadata.camera).toBe('Canon EOS 80D');
+  });
+
+  it('notes GPS coordinates without reading them into the metadata', async () => {
+    const exif = await readExif(jpeg(encodeTiff([[0x0110, 2, 'Pixel 8']], [], [
+      [0x0001, 2, 'S'], [0x0002, 5, degrees(7, 36, 12.5)],
+      [0x0003, 2, 'E'], [0x0004, 5, degrees(108, 57, 3)],
+    ])));
+    expect(exif?.hasLocation).toBe(true);
+    expect(exif?.metadata).toEqual({ camera: 'Pixel 8' });
+  });
+
+  it('ignores the 0,0 position phones write without a fix', async () => {
+    const exif = await readExif(jpeg(encodeTiff([], [], [
+      [0x0001, 2, 'N'], [0x0002, 5, degrees(0, 0, 0)],
+      [0x0003, 2, 'E'], [0x0004, 5, degrees(0, 0, 0)],
+    ])));
+    expect(exif?.hasLocation).toBe(false);
+  });
+
+  it('leaves out a zeroed capture time', async () => {
+    const exif = await readExif(jpeg(encodeTiff([], [[0x9003, 2, '0000:00:00 00:00:00']])));
+    expect(exif?.takenAt).toBeNull();
+  });
+
+  it('resolves to null for other formats and JPEGs without EXIF', async () => {
+    expect(await readExif(new Blob([new Uint8Array(16)], { type: 'image/png' }))).toBeNull();
+    expect(await readExif(jpeg())).toBeNull();
+  });
+});
+
+describe('compareByTakenAt', () => {
+  it('puts the oldest shot first and photos without a time last', () => {
+    const photos = [{ taken_at: null }, { taken_at: '2024-08-17T03:00:00Z' }, { taken_at: '2024-08-17T01:00:00Z' }];
+    expect([...photos].sort(compareByTakenAt).map(p => p.taken_at)).toEqual(['2024-08-17T01:00:00Z', '2024-08-17T03:00:00Z', null]);
+  });
+});
@@ -0,0 +1,159 @@
+import { Photo, PhotoMetadata } from '../types';
+
+export interface ExifData {
+  // ISO timestamp of when the shutter fired, if the camera recorded it.
+  takenAt: string | null;
+  metadata: PhotoMetadata;
+  // Whether the file carries GPS coordinates. They are never read out or stored, but
+  // such a file has to be re-encoded so the uploaded copy does not keep them.
+  hasLocation: boolean;
+}
+
+// Bytes per component for the TIFF field types we read.
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+const TAGS = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  dateTimeOriginal: 0x9003,
+  offsetTimeOriginal: 0x9011,
+  pixelWidth: 0xa002,
+  pixelHeight: 0xa003,
+  gpsLatitudeRef: 0x0001,
+  gpsLatitude: 0x0002,
+  gpsLongitudeRef: 0x0003,
+  gpsLongitude: 0x0004,
+};
+
+type TagValue = string | number | number[];
+
+const readAscii = (view: DataView, offset: number, length: number) => {
+  let text = '';
+  for (let i = 0; i < length; i++) {
+    const code = view.getUint8(offset + i);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text.trim();
+};
+
+// One IFD as tag → value. `tiffStart` is where all offsets inside the TIFF block count from.
+const readIfd = (view: DataView, tiffStart: number, ifdOffset: number, little: boolean) => {
+  const values = new Map<number, TagValue>();
+  const count = view.getUint16(ifdOffset, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const components = view.getUint32(entry + 4, little);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+    const at = components * size <= 4 ? entry + 8 : tiffStart + view.getUint32(entry + 8, little);
+
+    if (type === 2) {
+      values.set(tag, readAscii(view, at, components));
+      continue;
+    }
+    const numbers: number[] = [];
+    for (let n = 0; n < components; n++) {
+      const p = at + n * size;
+      if (type === 3) numbers.push(view.getUint16(p, little));
+      else if (type === 4) numbers.push(view.getUint32(p, little));
+      else if (type === 9) numbers.push(view.getInt32(p, little));
+      else if (type === 5) numbers.push(view.getUint32(p, little) / (view.getUint32(p + 4, little) || 1));
+      else if (type === 10) numbers.push(view.getInt32(p, little) / (view.getInt32(p + 4, little) || 1));
+      else numbers.push(view.getUint8(p));
+    }
+    values.set(tag, numbers.length === 1 ? numbers[0] : numbers);
+  }
+  return values;
+};
+
+// "2024:08:17 07:30:12" plus an optional "+07:00"; without an offset it is taken as local time.
+const parseExifDate = (value: TagValue | undefined, offset: TagValue | undefined): string | null => {
+  const match = typeof value === 'string' && value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match || match[1] === '0000') return null;
+  const [, year, month, day, hours, minutes, seconds] = match;
+  const date = typeof offset === 'string' && /^[+-]\d{2}:\d{2}$/.test(offset)
+    ? new Date(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}${offset}`)
+    : new Date(+year, +month - 1, +day, +hours, +minutes, +seconds);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+// Degrees, minutes, seconds → signed decimal degrees.
+const toDegrees = (value: TagValue | undefined, ref: TagValue | undefined): number | undefined => {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  if (!Number.isFinite(degrees)) return undefined;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+};
+
+const parseTiff = (view: DataView, tiffStart: number): ExifData | null => {
+  const byteOrder = view.getUint16(tiffStart);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return null;
+  const little = byteOrder === 0x4949;
+  const ifd0 = readIfd(view, tiffStart, tiffStart + view.getUint32(tiffStart + 4, little), little);
+
+  const exifOffset = ifd0.get(TAGS.exifIfd);
+  const exif = typeof exifOffset === 'number' ? readIfd(view, tiffStart, tiffStart + exifOffset, little) : new Map<number, TagValue>();
+  const gpsOffset = ifd0.get(TAGS.gpsIfd);
+  const gps = typeof gpsOffset === 'number' ? readIfd(view, tiffStart, tiffStart + gpsOffset, little) : new Map<number, TagValue>();
+
+  const metadata: PhotoMetadata = {};
+  const make = ifd0.get(TAGS.make);
+  const model = ifd0.get(TAGS.model);
+  if (typeof model === 'string' && model) {
+    // Most models already start with the make, e.g. "Canon" + "Canon EOS 80D".
+    metadata.camera = typeof make === 'string' && make && !model.toLowerCase().startsWith(make.toLowerCase()) ? `${make} ${model}` : model;
+  }
+
+  const width = exif.get(TAGS.pixelWidth);
+  const height = exif.get(TAGS.pixelHeight);
+  if (typeof width === 'number' && typeof height === 'number' && width > 0 && height > 0) {
+    // Orientations 5–8 are rotated a quarter turn, so the upright photo is the other way round.
+    const rotated = (ifd0.get(TAGS.orientation) as number) >= 5;
+    metadata.width = rotated ? height : width;
+    metadata.height = rotated ? width : height;
+  }
+
+  const latitude = toDegrees(gps.get(TAGS.gpsLatitude), gps.get(TAGS.gpsLatitudeRef));
+  const longitude = toDegrees(gps.get(TAGS.gpsLongitude), gps.get(TAGS.gpsLongitudeRef));
+  return {
+    takenAt: parseExifDate(exif.get(TAGS.dateTimeOriginal), exif.get(TAGS.offsetTimeOriginal)),
+    metadata,
+    // 0,0 is what some phones write when they had no fix.
+    hasLocation: latitude !== undefined && longitude !== undefined && (latitude !== 0 || longitude !== 0),
+  };
+};
+
+/**
+ * Reads the EXIF block of a JPEG. Resolves to null for other formats and for files
+ * without (or with unreadable) EXIF; a bad header never fails the upload.
+ */
+export const readExif = async (file: Blob): Promise<ExifData | null> => {
+  if (file.type !== 'image/jpeg') return null;
+  // The APP1 segment holding EXIF is at most 64KB and comes right after the start marker.
+  const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+  try {
+    if (view.getUint16(0) !== 0xffd8) return null;
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return null;
+      if (marker === 0xffe1 && readAscii(view, offset + 4, 4) === 'Exif') return parseTiff(view, offset + 10);
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  } catch (error) {
+    console.warn('Unreadable EXIF data:', error);
+  }
+  return null;
+};
+
+/** Oldest shot first; photos without a time keep their current order at the end. */
+export const compareByTakenAt = (a: Pick<Photo, 'taken_at'>, b: Pick<Photo, 'taken_at'>) => {
+  if (!a.taken_at || !b.taken_at) return (a.taken_at ? 0 : 1) - (b.taken_at ? 0 : 1);
+  return Date.parse(a.taken_at) - Date.parse(b.taken_at);
+};
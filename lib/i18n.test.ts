@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { id } from './locales/id';
+import { en } from './locales/en';
+import { DEFAULT_LOCALE, localizeAlbum, setLocale, t } from './i18n';
+
+afterEach(() => setLocale(DEFAULT_LOCALE));
+
+describe('catalogs', () => {
+  it('have the same keys in the same order', () => {
+    expect(Object.keys(en)).toEqual(Object.keys(id));
+  });
+
+  it('agree on which messages take arguments', () => {
+    for (const key of Object.keys(id) as (keyof typeof id)[]) {
+      expect(typeof en[key], key).toBe(typeof id[key]);
+    }
+  });
+});
+
+describe('t', () => {
+  it('uses the current locale', () => {
+    expect(t('common.cancel')).toBe('Batal');
+    setLocale('en');
+    expect(t('common.cancel')).toBe('Cancel');
+  });
+
+  it('fills in placeholders', () => {
+    setLocale('en');
+    expect(t('common.photoCount', 1)).toBe('1 photo');
+    expect(t('common.photoCount', 1200)).toBe('1,200 photos');
+  });
+});
+
+describe('localizeAlbum', () => {
+  const album = { title: 'Wisuda', description: 'Wisuda kelas XII.', translations: { en: { title: 'Graduation' } } };
+
+  it('uses the translation where there is one and falls back otherwise', () => {
+    expect(localizeAlbum(album)).toBe(album);
+    setLocale('en');
+    expect(localizeAlbum(album)).toEqual({ ...album, title: 'Graduation', description: 'Wisuda kelas XII.' });
+  });
+});
@@ -0,0 +1,80 @@
+import { Album, Locale } from '../types';
+import { id, Messages } from './locales/id';
+import { en } from './locales/en';
+
+export const LOCALES: Locale[] = ['id', 'en'];
+export const DEFAULT_LOCALE: Locale = 'id';
+
+// Each in its own language, as the switcher shows them.
+export const LOCALE_NAMES: Record<Locale, string> = {
+  id: 'Bahasa Indonesia',
+  en: 'English',
+};
+
+const CATALOGS: Record<Locale, Messages> = { id, en };
+
+// What Intl formats dates and numbers with; British English for day-month-year dates.
+const INTL_LOCALES: Record<Locale, string> = {
+  id: 'id-ID',
+  en: 'en-GB',
+};
+
+const STORAGE_KEY = 'galeri-locale';
+
+const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+// Only a choice made in the switcher changes the language; the browser's language is
+// not consulted, so the gallery opens in Indonesian for everyone else.
+const savedLocale = (): Locale => {
+  try {
+    const saved = typeof localStorage === 'undefined' ? null : localStorage.getItem(STORAGE_KEY);
+    return isLocale(saved) ? saved : DEFAULT_LOCALE;
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+};
+
+let currentLocale = savedLocale();
+
+export const getLocale = () => currentLocale;
+
+/** Switches the language of every later `t` and format call and remembers the choice. */
+export const setLocale = (locale: Locale) => {
+  currentLocale = locale;
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // Storage blocked; the choice lasts until the page is reloaded.
+  }
+};
+
+export type MessageKey = keyof Messages;
+
+// Messages with placeholders are functions; `t` takes their arguments after the key.
+type MessageArgs<K extends MessageKey> = Messages[K] extends (...args: infer A) => string ? A : [];
+
+/** The message for `key` in the current language. */
+export const t = <K extends MessageKey>(key: K, ...args: MessageArgs<K>): string => {
+  const message = CATALOGS[currentLocale][key] as string | ((...args: MessageArgs<K>) => string);
+  return typeof message === 'function' ? message(...args) : message;
+};
+
+export const formatDate = (date: Date | string, options: Intl.DateTimeFormatOptions = { dateStyle: 'long' }) =>
+  new Date(date).toLocaleDateString(INTL_LOCALES[currentLocale], options);
+
+export const formatDateTime = (date: Date | string, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' }) =>
+  new Date(date).toLocaleString(INTL_LOCALES[currentLocale], options);
+
+export const formatNumber = (value: number, options?: Intl.NumberFormatOptions) =>
+  value.toLocaleString(INTL_LOCALES[currentLocale], options);
+
+/** The album with its title and description in the current language, where it has them. */
+export const localizeAlbum = <T extends Pick<Album, 'title' | 'description' | 'translations'>>(album: T): T => {
+  const translation = album.translations?.[currentLocale];
+  if (!translation) return album;
+  return {
+    ...album,
+    title: translation.title || album.title,
+    description: translation.description || album.description,
+  };
+};
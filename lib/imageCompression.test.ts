@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { fitWithin } from './imageCompression';
+
+describe('fitWithin', () => {
+  it('scales the longest edge down to the limit', () => {
+    expect(fitWithin(4000, 3000, 2000)).toEqual({ width: 2000, height: 1500 });
+    expect(fitWithin(3000, 4000, 2000)).toEqual({ width: 1500, height: 2000 });
+  });
+
+  it('never upscales', () => {
+    expect(fitWithin(800, 600, 2000)).toEqual({ width: 800, height: 600 });
+  });
+
+  it('keeps at least one pixel on each edge', () => {
+    expect(fitWithin(10000, 1, 100)).toEqual({ width: 100, height: 1 });
+  });
+});
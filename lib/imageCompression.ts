@@ -0,0 +1,131 @@
+import { t } from './i18n';
+
+export type OutputFormat = 'webp' | 'jpeg';
+
+export interface CompressionOptions {
+  // Longest edge of the output, in pixels. Smaller images are never upscaled.
+  maxDimension: number;
+  // Encoder quality between 0 and 1.
+  quality: number;
+  format: OutputFormat;
+  // Re-encode even when that would not make the file smaller, so none of the
+  // original's metadata (such as GPS) survives.
+  reencode?: boolean;
+}
+
+export interface CompressedImage {
+  file: File;
+  width: number;
+  height: number;
+}
+
+const MIME_TYPES: Record<OutputFormat, string> = { webp: 'image/webp', jpeg: 'image/jpeg' };
+const EXTENSIONS: Record<string, string> = { 'image/webp': 'webp', 'image/jpeg': 'jpg' };
+
+// Formats we pass through untouched: re-encoding would drop animation or vector data.
+const PASSTHROUGH_TYPES = ['image/gif', 'image/svg+xml'];
+
+// Thrown where the browser has no 2D canvas, so images can be neither resized nor fingerprinted.
+export class CanvasUnsupportedError extends Error {
+  constructor() {
+    super('This browser does not support 2D canvas.');
+    this.name = 'CanvasUnsupportedError';
+  }
+}
+
+export type DrawableImage = ImageBitmap | HTMLImageElement;
+type AnyCanvas = OffscreenCanvas | HTMLCanvasElement;
+
+// Decodes with EXIF orientation applied, so the pixels we draw are already upright.
+export const decodeImage = async (file: Blob): Promise<DrawableImage> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      return await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch {
+      // Some browsers reject the options bag or certain formats; fall back to an <img>.
+    }
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.style.imageOrientation = 'from-image';
+    img.src = url;
+    await img.decode();
+    return img;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const sizeOf = (image: DrawableImage) =>
+  image instanceof HTMLImageElement
+    ? { width: image.naturalWidth, height: image.naturalHeight }
+    : { width: image.width, height: image.height };
+
+export const createCanvas = (width: number, height: number): AnyCanvas => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const encode = (canvas: AnyCanvas, type: string, quality: number): Promise<Blob> => {
+  if (canvas instanceof HTMLCanvasElement) {
+    return new Promise((resolve, reject) =>
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error(t('upload.compressFailed')))), type, quality)
+    );
+  }
+  return canvas.convertToBlob({ type, quality });
+};
+
+/** Scales `width`×`height` down so the longest edge is at most `maxDimension`. */
+export const fitWithin = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+export const renameWithExtension = (name: string, mimeType: string) => {
+  const extension = EXTENSIONS[mimeType];
+  if (!extension) return name;
+  const base = name.includes('.') ? name.slice(0, name.lastIndexOf('.')) : name;
+  return `${base}.${extension}`;
+};
+
+/**
+ * Downscales and re-encodes a photo in the browser. Falls back to JPEG when the
+ * browser cannot encode WebP, and returns the original file when re-encoding
+ * would not make it any smaller, unless `reencode` is set.
+ */
+export const compressImage = async (file: File, options: CompressionOptions): Promise<CompressedImage> => {
+  const image = await decodeImage(file);
+  const original = sizeOf(image);
+  if (PASSTHROUGH_TYPES.includes(file.type)) {
+    return { file, ...original };
+  }
+
+  const { width, height } = fitWithin(original.width, original.height, options.maxDimension);
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!context) throw new CanvasUnsupportedError();
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, 0, 0, width, height);
+  if ('close' in image) image.close();
+
+  let blob = await encode(canvas, MIME_TYPES[options.format], options.quality);
+  // Safari silently encodes PNG when asked for WebP.
+  if (blob.type !== MIME_TYPES[options.format]) {
+    blob = await encode(canvas, MIME_TYPES.jpeg, options.quality);
+  }
+
+  const wasResized = width !== original.width || height !== original.height;
+  if (!wasResized && !options.reencode && blob.size >= file.size) {
+    return { file, ...original };
+  }
+
+  const compressed = new File([blob], renameWithExtension(file.name, blob.type), {
+    type: blob.type,
+    lastModified: file.lastModified,
+  });
+  return { file: compressed, width, height };
+};
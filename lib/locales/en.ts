@@ -0,0 +1,389 @@
+import { Messages } from './id';
+
+const number = (value: number) => value.toLocaleString('en-GB');
+
+const plural = (count: number, one: string, other: string) => `${number(count)} ${count === 1 ? one : other}`;
+
+export const en: Messages = {
+  // --- Shared ---
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.save': 'Save',
+  'common.delete': 'Delete',
+  'common.all': 'All',
+  'common.logout': 'Log out',
+  'common.loadMore': 'Load more',
+  'common.preparing': 'Preparing...',
+  'common.previousPage': 'Previous page',
+  'common.nextPage': 'Next page',
+  'common.language': 'Language',
+  'common.photoCount': (count: number) => plural(count, 'photo', 'photos'),
+
+  // --- Labels used across pages ---
+  'status.draft': 'Draft',
+  'status.scheduled': 'Scheduled',
+  'status.published': 'Published',
+  'status.archived': 'Archived',
+  'role.admin': 'Admin',
+  'role.editor': 'Editor',
+  'role.contributor': 'Contributor',
+  'audit.album.create': 'Created album',
+  'audit.album.update': 'Edited album',
+  'audit.album.delete': 'Deleted album permanently',
+  'audit.album.cover': 'Changed cover',
+  'audit.album.trash': 'Moved album to trash',
+  'audit.album.restore': 'Restored album',
+  'audit.photo.upload': 'Uploaded photo',
+  'audit.photo.delete': 'Deleted photo permanently',
+  'audit.photo.caption': 'Edited caption or alt text',
+  'audit.photo.trash': 'Moved photo to trash',
+  'audit.photo.restore': 'Restored photo',
+  'audit.photo.move': 'Moved photo',
+  'field.title': 'Title',
+  'field.description': 'Description',
+  'field.event_date': 'Event date',
+  'field.location': 'Location',
+  'field.status': 'Status',
+  'field.publish_at': 'Publish date',
+  'field.allow_download': 'Public download',
+  'field.translations': 'Translations',
+  'field.cover_image_url': 'Cover',
+  'field.caption': 'Caption',
+  'field.alt_text': 'Alt text',
+  'field.image_url': 'File',
+  'field.photo_count': 'Photo count',
+  'field.album': 'Album',
+
+  // --- Shared components ---
+  'download.button': 'Download all',
+  'download.progress': (done: number, total: number) => `Downloading ${number(done)}/${number(total)} photos...`,
+  'download.preparing': 'Preparing download...',
+  'download.cancel': 'Cancel',
+  'download.empty': 'This album has no photos yet.',
+  'download.failed': (message: string) => `Could not download the album: ${message}`,
+  'download.photoFailed': (position: number, status: number) => `Photo ${number(position)} could not be downloaded (${status}).`,
+  'download.tooLarge': 'The ZIP archive would be larger than 4 GB.',
+  'configError.title': 'The app is not configured yet',
+  'configError.intro': 'Check the following environment variables, then restart or rebuild the app:',
+  'configError.seeExampleBefore': 'See',
+  'configError.seeExampleAfter': 'for the full list of variables.',
+  'noAccess.title': 'Access denied',
+  'noAccess.body': (email: string) => `The account ${email} is not registered as staff. Ask the school admin for access.`,
+
+  // --- Public gallery ---
+  'public.offline': 'Offline',
+  'public.offlineHint': 'Showing albums saved on this device.',
+  'public.searchPlaceholder': 'Search albums or photos...',
+  'public.searchLabel': 'Search albums or photos',
+  'public.galleryLink': 'Gallery',
+  'public.rightsReserved': 'All rights reserved.',
+  'public.homeTitle': 'Our Activity Gallery',
+  'public.homeIntro': (siteName: string) => `Memorable moments at ${siteName}.`,
+  'public.tagIntro': (tagName: string, siteName: string) => `${tagName} albums at ${siteName}.`,
+  'public.categories': 'Categories',
+  'public.viewLabel': 'View',
+  'public.viewGrid': 'All Albums',
+  'public.viewArchive': 'Archive by School Year',
+  'public.noAlbums': 'No albums yet.',
+  'public.noAlbumsInTag': 'No albums in this category yet.',
+  'public.archivePrevious': 'Previous',
+  'public.archiveNext': 'Next',
+  'public.schoolYear': (label: string) => `School Year ${label}`,
+  'public.albumNotFound': 'Album not found.',
+  'public.photoNotFound': 'This photo is not in the album.',
+  'public.previewNoticeBefore': 'Preview: this album is',
+  'public.previewNoticeAfter': 'and not visible to visitors yet.',
+  'public.cardPhotoCount': (count: number) => plural(count, 'Photo', 'Photos'),
+  'public.photoAlt': (position: number) => `Photo ${number(position)}`,
+  'public.searchTitle': 'Search Results',
+  'public.searchShowing': 'Showing results for',
+  'public.searchHint': 'Type a keyword in the search box to find albums and photos.',
+  'public.searchAlbums': (count: number) => `Albums (${number(count)})`,
+  'public.searchPhotos': (count: number) => `Photos (${number(count)})`,
+  'public.searchNoAlbums': 'No matching albums.',
+  'public.searchNoPhotos': 'No photos with a matching caption.',
+
+  // --- Offline albums ---
+  'offline.save': 'Save for offline',
+  'offline.saved': 'Saved for offline',
+  'offline.progress': (done: number, total: number) => `Saving ${number(done)}/${number(total)} images...`,
+  'offline.savedToast': 'Album saved; it opens without an internet connection.',
+  'offline.removedToast': 'Album removed from offline storage.',
+  'offline.failed': (message: string) => `Could not save the album for offline: ${message}`,
+  'offline.notReady': 'Offline mode is not ready yet. Reload the page and try again.',
+
+  // --- Lightbox ---
+  'lightbox.photoFallback': 'Activity photo',
+  'lightbox.previous': 'Previous photo',
+  'lightbox.next': 'Next photo',
+  'lightbox.play': 'Play slideshow',
+  'lightbox.pause': 'Pause slideshow',
+  'lightbox.slideshowHint': 'Slideshow (Space)',
+  'lightbox.interval': 'Time per photo',
+  'lightbox.seconds': (seconds: number) => plural(seconds, 'second', 'seconds'),
+  'lightbox.fullscreen': 'Fullscreen',
+  'lightbox.fullscreenHint': 'Fullscreen (F)',
+  'lightbox.share': 'Share photo',
+  'lightbox.linkCopied': 'Photo link copied.',
+  'lightbox.copyLinkPrompt': 'Copy this photo link:',
+  'lightbox.info': 'Photo info',
+  'lightbox.infoHint': 'Photo info (I)',
+  'lightbox.taken': 'Taken',
+  'lightbox.camera': 'Camera',
+  'lightbox.dimensions': 'Dimensions',
+  'lightbox.noCameraInfo': 'No camera details for this photo.',
+
+  // --- Admin ---
+  'admin.title': 'Admin Panel',
+  'admin.nav.users': 'Users',
+  'admin.nav.trash': 'Trash',
+  'admin.nav.activity': 'Activity',
+  'admin.expiredPurged': (count: number) => `${plural(count, 'old item', 'old items')} in the trash deleted permanently.`,
+  'admin.loggedOut': 'You have logged out.',
+  'admin.logoutFailed': (message: string) => `Could not log out: ${message}`,
+  'admin.publishesAt': (date: string) => `Publishes ${date}`,
+  'admin.titleRequired': 'The album title cannot be empty.',
+  'admin.albumsLoadFailed': (message: string) => `Could not load the albums: ${message}`,
+  'admin.clearSelection': 'Clear selection',
+  'admin.actions': 'Actions',
+  'login.title': 'Admin Login',
+  'login.email': 'Email',
+  'login.password': 'Password',
+  'login.submit': 'Log in',
+  'login.success': 'Logged in!',
+
+  // --- Dashboard ---
+  'dashboard.title': 'Dashboard',
+  'dashboard.totalAlbums': 'Total Albums',
+  'dashboard.totalPhotos': 'Total Photos',
+  'dashboard.photoCountFailed': (message: string) => `Could not count the photos: ${message}`,
+  'dashboard.albums': 'Album Management',
+  'dashboard.statusFilter': 'Filter by status',
+  'dashboard.merge': (count: number) => `Merge (${number(count)})`,
+  'dashboard.newAlbum': 'Add Album',
+  'dashboard.select': 'Select',
+  'dashboard.selectAlbum': (title: string) => `Select album ${title}`,
+  'dashboard.photoCount': 'Photos',
+  'dashboard.eventDate': 'Event Date',
+  'dashboard.page': (page: number, count: number) => `Page ${number(page)} of ${number(count)}`,
+  'dashboard.trashConfirm': (title: string, days: number) => `Move the album "${title}" to the trash? It can be restored for ${plural(days, 'day', 'days')}.`,
+  'dashboard.trashed': (title: string) => `Album "${title}" moved to the trash.`,
+  'dashboard.trashFailed': (message: string) => `Could not delete the album: ${message}`,
+
+  // --- Merge albums ---
+  'merge.heading': (count: number) => `Merge ${number(count)} Albums`,
+  'merge.target': 'Album to keep',
+  'merge.targetHint': "This album's status, date, location and link are kept. All photos are moved here.",
+  'merge.noDescription': 'No description',
+  'merge.descriptionFrom': (title: string, excerpt: string) => `From "${title}": ${excerpt}`,
+  'merge.cover': 'Cover',
+  'merge.noCovers': 'None of these albums has a cover yet.',
+  'merge.submit': 'Merge',
+  'merge.confirm': (count: number, title: string) => `Merge ${number(count)} albums into "${title}"? The other albums go to the trash once their photos have been moved.`,
+  'merge.done': (count: number) => `${number(count)} albums merged.`,
+  'merge.failed': (message: string) => `Could not merge the albums: ${message}`,
+
+  // --- Categories ---
+  'tags.label': 'Categories',
+  'tags.empty': 'No categories yet.',
+  'tags.newPlaceholder': 'New category...',
+  'tags.add': 'Add',
+  'tags.loadFailed': (message: string) => `Could not load the categories: ${message}`,
+  'tags.createFailed': (message: string) => `Could not create the category: ${message}`,
+
+  // --- Album picker ---
+  'picker.search': 'Search albums...',
+  'picker.empty': 'No albums to choose from.',
+  'picker.loadFailed': (message: string) => `Could not load the album list: ${message}`,
+
+  // --- Album editor ---
+  'editor.loadFailed': (message: string) => `Could not load the album: ${message}`,
+  'editor.photosLoadFailed': (message: string) => `Could not load the photos: ${message}`,
+  'editor.created': 'Album created.',
+  'editor.createFailed': (message: string) => `Could not create the album: ${message}`,
+  'editor.saved': 'Changes saved.',
+  'editor.saveFailed': 'Could not save the changes.',
+  'editor.published': 'Album published.',
+  'editor.publishEmptyConfirm': 'This album has no photos yet. Publish it anyway?',
+  'editor.trashPhotoConfirm': 'Move this photo to the trash?',
+  'editor.trashPhotoFailed': (message: string) => `Could not delete the photo: ${message}`,
+  'editor.photoTrashed': 'Photo moved to the trash.',
+  'editor.coverSet': 'Cover photo updated.',
+  'editor.coverFailed': (message: string) => `Could not set the cover photo: ${message}`,
+  'editor.newTitle': 'New Album',
+  'editor.editTitle': 'Edit Album',
+  'editor.fallbackTitle': 'album',
+  'editor.history': 'History',
+  'editor.publishNow': 'Publish Now',
+  'editor.create': 'Create Album',
+  'editor.save': 'Save Changes',
+  'editor.details': 'Album Details',
+  'editor.optional': '(optional)',
+  'editor.translatedTitle': (language: string) => `Title (${language})`,
+  'editor.translatedDescription': (language: string) => `Description (${language})`,
+  'editor.translationHint': (language: string) => `Shown to visitors who choose ${language}; when empty, the title and description above are used.`,
+  'editor.eventDateHint': 'The day of the event, not the day the photos were uploaded.',
+  'editor.locationPlaceholder': 'e.g. School hall',
+  'editor.statusHint': 'Only Published albums appear in the public gallery.',
+  'editor.publishAt': 'Publish Date',
+  'editor.publishAtHint': 'Leave empty to publish as soon as it is saved.',
+  'editor.allowDownload': 'Let visitors download all photos',
+  'editor.allowDownloadHint': 'Shows the "Download all" button in the public gallery.',
+  'editor.contributorNote': 'You can only add photos and change captions and order in this album.',
+  'editor.photos': 'Photo Management',
+  'editor.savedPhotos': 'Saved Photos',
+  'editor.selectAll': 'Select all',
+  'editor.sortByTakenAt': 'Sort by time taken',
+  'editor.orderChanged': 'Order changed — click "Save Changes" to keep it.',
+  'editor.reorderHint': 'Drag a photo, or focus it and press the arrow keys, to change the order.',
+  'editor.selected': (count: number) => `${plural(count, 'photo', 'photos')} selected`,
+  'editor.rangeHint': 'Shift+click to select a range',
+  'editor.photoLabel': (position: number, count: number, caption: string | null) => `Photo ${number(position)} of ${number(count)}${caption ? `: ${caption}` : ''}`,
+  'editor.selectPhoto': (position: number) => `Select photo ${number(position)}`,
+  'editor.moveEarlier': 'Move earlier',
+  'editor.moveLater': 'Move later',
+  'editor.captionPlaceholder': 'Add a caption...',
+  'editor.saveFirst': 'Save the album first to upload photos.',
+
+  // --- Upload queue ---
+  'upload.notImage': (fileName: string) => `${fileName} is not an image.`,
+  'upload.tooLarge': (limit: string) => `Still too large after compression (> ${limit}).`,
+  'upload.processFailed': (message: string) => `Could not process the image: ${message}`,
+  'upload.compressFailed': 'Could not compress the image.',
+  'upload.noCanvas': 'This browser does not support 2D canvas.',
+  'upload.duplicatesFound': (count: number) => `${plural(count, 'photo seems', 'photos seem')} to be here already. Check the queue before uploading.`,
+  'upload.duplicateInAlbum': (position: number) => `photo #${number(position)} in the album`,
+  'upload.duplicateInQueue': (fileName: string) => `${fileName} in the queue`,
+  'upload.succeeded': (count: number) => `${plural(count, 'photo', 'photos')} uploaded.`,
+  'upload.failed': (count: number) => `${plural(count, 'photo', 'photos')} failed to upload. Use "Retry" to try again.`,
+  'upload.nothingQueued': 'There are no photos in the queue.',
+  'upload.cancelled': 'Upload cancelled.',
+  'upload.connectionLost': 'The connection dropped during the upload.',
+  'upload.dropHere': 'Drop the files here',
+  'upload.choose': 'Choose files or drop them here',
+  'upload.compressionNote': (limit: string) => `Large photos are compressed automatically (max ${limit} per file after compression)`,
+  'upload.queue': (count: number) => `Upload Queue (${number(count)})`,
+  'upload.skipDuplicates': (count: number) => `Skip all duplicates (${number(count)})`,
+  'upload.retryFailed': (count: number) => `Retry all failed (${number(count)})`,
+  'upload.cancelAll': 'Cancel all',
+  'upload.status.compressing': 'Compressing...',
+  'upload.status.queued': 'Waiting',
+  'upload.status.duplicate': 'Duplicate?',
+  'upload.status.pending': 'Queued',
+  'upload.status.success': 'Done',
+  'upload.status.error': 'Failed',
+  'upload.status.cancelled': 'Cancelled',
+  'upload.retry': 'Retry',
+  'upload.remove': 'Remove from queue',
+  'upload.new': 'New',
+  'upload.identical': (label: string) => `This file is identical to ${label}.`,
+  'upload.similar': (label: string) => `This photo looks very similar to ${label}.`,
+  'upload.skip': 'Skip',
+  'upload.keep': 'Upload anyway',
+  'upload.submit': (count: number) => `Upload ${plural(count, 'Photo', 'Photos')}`,
+
+  // --- Bulk photo actions ---
+  'batch.field.caption': 'caption',
+  'batch.field.alt_text': 'alt text',
+  'batch.replaceConfirm': (label: string, count: number, text: string) => `Replace the ${label} of ${plural(count, 'selected photo', 'selected photos')} with "${text}"?`,
+  'batch.clearConfirm': (label: string, count: number) => `Clear the ${label} of ${plural(count, 'selected photo', 'selected photos')}?`,
+  'batch.textUpdated': (label: string, count: number) => `Updated the ${label} of ${plural(count, 'photo', 'photos')}`,
+  'batch.partlyFailed': (summary: string, failed: number) => `${summary}; ${plural(failed, 'photo', 'photos')} failed.`,
+  'batch.trashConfirm': (count: number) => `Move ${plural(count, 'selected photo', 'selected photos')} to the trash?`,
+  'batch.trashed': (count: number) => `${plural(count, 'photo', 'photos')} moved to the trash`,
+  'batch.moveConfirm': (count: number, title: string) => `Move ${plural(count, 'selected photo', 'selected photos')} to the album "${title}"?`,
+  'batch.copyConfirm': (count: number, title: string) => `Copy ${plural(count, 'selected photo', 'selected photos')} to the album "${title}"?`,
+  'batch.moved': (count: number, title: string) => `${plural(count, 'photo', 'photos')} moved to "${title}"`,
+  'batch.copied': (count: number, title: string) => `${plural(count, 'photo', 'photos')} copied to "${title}"`,
+  'batch.targetNotAllowed': (title: string) => `You cannot add photos to the album "${title}".`,
+  'batch.targetLoadFailed': (message: string) => `Could not load the target album: ${message}`,
+  'batch.splitPrompt': (count: number) => `Title of the new album for ${plural(count, 'selected photo', 'selected photos')}:`,
+  'batch.splitDefaultTitle': (title: string) => `${title} (part 2)`,
+  'batch.split': (count: number, title: string) => `${plural(count, 'photo', 'photos')} moved to the new album "${title}".`,
+  'batch.splitFailed': (message: string) => `Could not split the album: ${message}`,
+  'batch.progress': (done: number, total: number) => `Processing ${number(done)}/${number(total)}...`,
+  'batch.move': 'Move to album...',
+  'batch.splitAction': 'Split into a new album...',
+  'batch.copy': 'Copy to album...',
+  'batch.trash': 'Move to trash',
+  'batch.moveTitle': (count: number) => `Move ${plural(count, 'photo', 'photos')} to...`,
+  'batch.copyTitle': (count: number) => `Copy ${plural(count, 'photo', 'photos')} to...`,
+  'batch.altText': 'Alt Text',
+  'batch.captionPlaceholder': 'e.g. Independence Day ceremony – {n}',
+  'batch.altTextPlaceholder': 'e.g. Students lining up on the field',
+  'batch.apply': 'Apply',
+  'batch.templateHint': '{n} is replaced by the number of the photo within the selection. Apply an empty field to clear it. Screen readers read the alt text; when it is empty, the caption is used.',
+
+  // --- Users ---
+  'users.title': 'Users',
+  'users.invite': 'Invite User',
+  'users.email': 'Email',
+  'users.initialPassword': 'Initial Password',
+  'users.role': 'Role',
+  'users.inviteSubmit': 'Invite',
+  'users.inviting': 'Inviting...',
+  'users.roleDescription.admin': 'Full access, including managing users and emptying the trash.',
+  'users.roleDescription.editor': 'Creates, edits, publishes and deletes albums.',
+  'users.roleDescription.contributor': 'Uploads photos to assigned albums.',
+  'users.passwordHint': 'Give the initial password to the user in person.',
+  'users.albums': 'Assigned Albums',
+  'users.albumCount': (count: number) => plural(count, 'album', 'albums'),
+  'users.allAlbums': 'All albums',
+  'users.you': '(you)',
+  'users.roleOf': (email: string) => `Role of ${email}`,
+  'users.revoke': (email: string) => `Revoke access for ${email}`,
+  'users.revokeConfirm': (email: string) => `Revoke ${email}'s access to the admin panel?`,
+  'users.revoked': (email: string) => `Access for ${email} revoked.`,
+  'users.revokeFailed': (message: string) => `Could not revoke access: ${message}`,
+  'users.passwordTooShort': 'The initial password needs at least 6 characters.',
+  'users.invited': (email: string, role: string) => `${email} invited as ${role}.`,
+  'users.inviteFailed': (message: string) => `Could not invite the user: ${message}`,
+  'users.updateFailed': (email: string, message: string) => `Could not update ${email}: ${message}`,
+  'users.loadFailed': (message: string) => `Could not load the users: ${message}`,
+
+  // --- Activity ---
+  'activity.title': 'Activity',
+  'activity.user': 'User',
+  'activity.allUsers': 'All users',
+  'activity.deletedAlbum': 'Deleted album',
+  'activity.action': 'Action',
+  'activity.allActions': 'All actions',
+  'activity.empty': 'No matching activity yet.',
+  'activity.time': 'Time',
+  'activity.changes': 'Changes',
+  'activity.system': 'System',
+  'activity.yes': 'Yes',
+  'activity.no': 'No',
+  'activity.loading': 'Loading...',
+  'activity.loadFailed': (message: string) => `Could not load the activity: ${message}`,
+
+  // --- Trash ---
+  'trash.title': 'Trash',
+  'trash.empty': 'Empty Trash',
+  'trash.retention': (days: number) => `Deleted albums and photos stay here for ${plural(days, 'day', 'days')} before they are deleted permanently.`,
+  'trash.albums': (count: number) => `Albums (${number(count)})`,
+  'trash.photos': (count: number) => `Photos (${number(count)})`,
+  'trash.noAlbums': 'There are no albums in the trash.',
+  'trash.noPhotos': 'There are no photos in the trash.',
+  'trash.restore': 'Restore',
+  'trash.purge': 'Delete Permanently',
+  'trash.deletedOn': (date: string) => `Deleted ${date}`,
+  'trash.purgedIn': (days: number) => `deleted permanently in ${plural(days, 'day', 'days')}`,
+  'trash.purgedSoon': 'deleted permanently soon',
+  'trash.albumsLoadFailed': (message: string) => `Could not load the albums in the trash: ${message}`,
+  'trash.photosLoadFailed': (message: string) => `Could not load the photos in the trash: ${message}`,
+  'trash.purgeAlbumConfirm': (title: string) => `Permanently delete the album "${title}" and all its photos? This cannot be undone.`,
+  'trash.albumPurged': (title: string) => `Album "${title}" deleted permanently.`,
+  'trash.purgeAlbumFailed': 'Could not delete the album',
+  'trash.purgePhotoConfirm': 'Permanently delete this photo? This cannot be undone.',
+  'trash.photoPurged': 'Photo deleted permanently.',
+  'trash.purgePhotoFailed': 'Could not delete the photo',
+  'trash.emptyConfirm': (albums: number, photos: number) => `Permanently delete ${plural(albums, 'album', 'albums')} and ${plural(photos, 'photo', 'photos')} in the trash? This cannot be undone.`,
+  'trash.itemsNotPurged': (count: number) => `${plural(count, 'item', 'items')} could not be deleted`,
+  'trash.emptied': 'Trash emptied.',
+  'trash.emptyFailed': 'Could not empty the trash',
+  'trash.albumRestored': (title: string) => `Album "${title}" restored.`,
+  'trash.restoreAlbumFailed': 'Could not restore the album',
+  'trash.photoRestored': 'Photo restored.',
+  'trash.restorePhotoFailed': 'Could not restore the photo',
+};
@@ -0,0 +1,390 @@
+// Indonesian, the gallery's own language and the fallback for everything else. Every
+// other catalog has exactly these keys; messages with placeholders are functions.
+
+const number = (value: number) => value.toLocaleString('id-ID');
+
+export const id = {
+  // --- Shared ---
+  'common.cancel': 'Batal',
+  'common.close': 'Tutup',
+  'common.save': 'Simpan',
+  'common.delete': 'Hapus',
+  'common.all': 'Semua',
+  'common.logout': 'Logout',
+  'common.loadMore': 'Muat lebih banyak',
+  'common.preparing': 'Menyiapkan...',
+  'common.previousPage': 'Halaman sebelumnya',
+  'common.nextPage': 'Halaman berikutnya',
+  'common.language': 'Bahasa',
+  'common.photoCount': (count: number) => `${number(count)} foto`,
+
+  // --- Labels used across pages ---
+  'status.draft': 'Draf',
+  'status.scheduled': 'Terjadwal',
+  'status.published': 'Terbit',
+  'status.archived': 'Arsip',
+  'role.admin': 'Admin',
+  'role.editor': 'Editor',
+  'role.contributor': 'Kontributor',
+  'audit.album.create': 'Membuat album',
+  'audit.album.update': 'Mengubah album',
+  'audit.album.delete': 'Menghapus album permanen',
+  'audit.album.cover': 'Mengganti sampul',
+  'audit.album.trash': 'Memindahkan album ke sampah',
+  'audit.album.restore': 'Memulihkan album',
+  'audit.photo.upload': 'Mengunggah foto',
+  'audit.photo.delete': 'Menghapus foto permanen',
+  'audit.photo.caption': 'Mengubah caption atau teks alternatif',
+  'audit.photo.trash': 'Memindahkan foto ke sampah',
+  'audit.photo.restore': 'Memulihkan foto',
+  'audit.photo.move': 'Memindahkan foto',
+  'field.title': 'Judul',
+  'field.description': 'Deskripsi',
+  'field.event_date': 'Tanggal kegiatan',
+  'field.location': 'Lokasi',
+  'field.status': 'Status',
+  'field.publish_at': 'Jadwal terbit',
+  'field.allow_download': 'Unduhan publik',
+  'field.translations': 'Terjemahan',
+  'field.cover_image_url': 'Sampul',
+  'field.caption': 'Caption',
+  'field.alt_text': 'Teks alternatif',
+  'field.image_url': 'File',
+  'field.photo_count': 'Jumlah foto',
+  'field.album': 'Album',
+
+  // --- Shared components ---
+  'download.button': 'Unduh Semua',
+  'download.progress': (done: number, total: number) => `Mengunduh ${number(done)}/${number(total)} foto...`,
+  'download.preparing': 'Menyiapkan unduhan...',
+  'download.cancel': 'Batalkan',
+  'download.empty': 'Album ini belum memiliki foto.',
+  'download.failed': (message: string) => `Gagal mengunduh album: ${message}`,
+  'download.photoFailed': (position: number, status: number) => `Foto ${number(position)} tidak dapat diunduh (${status}).`,
+  'download.tooLarge': 'Arsip ZIP melebihi 4 GB.',
+  'configError.title': 'Aplikasi belum dikonfigurasi',
+  'configError.intro': 'Periksa variabel lingkungan berikut lalu jalankan ulang atau build ulang aplikasi:',
+  'configError.seeExampleBefore': 'Lihat',
+  'configError.seeExampleAfter': 'untuk daftar lengkap variabel.',
+  'noAccess.title': 'Akses ditolak',
+  'noAccess.body': (email: string) => `Akun ${email} belum terdaftar sebagai staf. Hubungi admin sekolah untuk mendapatkan akses.`,
+
+  // --- Public gallery ---
+  'public.offline': 'Offline',
+  'public.offlineHint': 'Menampilkan album yang sudah tersimpan di perangkat ini.',
+  'public.searchPlaceholder': 'Cari album atau foto...',
+  'public.searchLabel': 'Cari album atau foto',
+  'public.galleryLink': 'Galeri',
+  'public.rightsReserved': 'Seluruh hak cipta dilindungi.',
+  'public.homeTitle': 'Galeri Kegiatan Kami',
+  'public.homeIntro': (siteName: string) => `Dokumentasi momen-momen berharga di ${siteName}.`,
+  'public.tagIntro': (tagName: string, siteName: string) => `Album kategori ${tagName} di ${siteName}.`,
+  'public.categories': 'Kategori',
+  'public.viewLabel': 'Tampilan',
+  'public.viewGrid': 'Semua Album',
+  'public.viewArchive': 'Arsip per Tahun Ajaran',
+  'public.noAlbums': 'Belum ada album.',
+  'public.noAlbumsInTag': 'Belum ada album dalam kategori ini.',
+  'public.archivePrevious': 'Sebelumnya',
+  'public.archiveNext': 'Berikutnya',
+  'public.schoolYear': (label: string) => `Tahun Ajaran ${label}`,
+  'public.albumNotFound': 'Album tidak ditemukan.',
+  'public.photoNotFound': 'Foto tidak ditemukan di album ini.',
+  'public.previewNoticeBefore': 'Pratinjau: album ini berstatus',
+  'public.previewNoticeAfter': 'dan belum tampil untuk pengunjung.',
+  'public.cardPhotoCount': (count: number) => `${number(count)} Foto`,
+  'public.photoAlt': (position: number) => `Foto ${number(position)}`,
+  'public.searchTitle': 'Hasil Pencarian',
+  'public.searchShowing': 'Menampilkan hasil untuk',
+  'public.searchHint': 'Ketik kata kunci di kotak pencarian untuk mencari album dan foto.',
+  'public.searchAlbums': (count: number) => `Album (${number(count)})`,
+  'public.searchPhotos': (count: number) => `Foto (${number(count)})`,
+  'public.searchNoAlbums': 'Tidak ada album yang cocok.',
+  'public.searchNoPhotos': 'Tidak ada foto dengan caption yang cocok.',
+
+  // --- Offline albums ---
+  'offline.save': 'Simpan untuk offline',
+  'offline.saved': 'Tersimpan untuk offline',
+  'offline.progress': (done: number, total: number) => `Menyimpan ${number(done)}/${number(total)} gambar...`,
+  'offline.savedToast': 'Album tersimpan dan dapat dibuka tanpa internet.',
+  'offline.removedToast': 'Album dihapus dari penyimpanan offline.',
+  'offline.failed': (message: string) => `Gagal menyimpan album untuk offline: ${message}`,
+  'offline.notReady': 'Mode offline belum siap. Muat ulang halaman lalu coba lagi.',
+
+  // --- Lightbox ---
+  'lightbox.photoFallback': 'Foto kegiatan',
+  'lightbox.previous': 'Foto sebelumnya',
+  'lightbox.next': 'Foto berikutnya',
+  'lightbox.play': 'Putar tayangan slide',
+  'lightbox.pause': 'Jeda tayangan slide',
+  'lightbox.slideshowHint': 'Tayangan slide (Spasi)',
+  'lightbox.interval': 'Jeda antarfoto',
+  'lightbox.seconds': (seconds: number) => `${number(seconds)} detik`,
+  'lightbox.fullscreen': 'Layar penuh',
+  'lightbox.fullscreenHint': 'Layar penuh (F)',
+  'lightbox.share': 'Bagikan foto',
+  'lightbox.linkCopied': 'Tautan foto disalin.',
+  'lightbox.copyLinkPrompt': 'Salin tautan foto ini:',
+  'lightbox.info': 'Info foto',
+  'lightbox.infoHint': 'Info foto (I)',
+  'lightbox.taken': 'Diambil',
+  'lightbox.camera': 'Kamera',
+  'lightbox.dimensions': 'Dimensi',
+  'lightbox.noCameraInfo': 'Tidak ada informasi kamera untuk foto ini.',
+
+  // --- Admin ---
+  'admin.title': 'Admin Panel',
+  'admin.nav.users': 'Pengguna',
+  'admin.nav.trash': 'Sampah',
+  'admin.nav.activity': 'Aktivitas',
+  'admin.expiredPurged': (count: number) => `${number(count)} item lama di Sampah dihapus permanen.`,
+  'admin.loggedOut': 'Anda berhasil logout.',
+  'admin.logoutFailed': (message: string) => `Gagal logout: ${message}`,
+  'admin.publishesAt': (date: string) => `Terbit ${date}`,
+  'admin.titleRequired': 'Judul album tidak boleh kosong.',
+  'admin.albumsLoadFailed': (message: string) => `Gagal memuat album: ${message}`,
+  'admin.clearSelection': 'Batalkan pilihan',
+  'admin.actions': 'Aksi',
+  'login.title': 'Admin Login',
+  'login.email': 'Email',
+  'login.password': 'Password',
+  'login.submit': 'Login',
+  'login.success': 'Login berhasil!',
+
+  // --- Dashboard ---
+  'dashboard.title': 'Dashboard',
+  'dashboard.totalAlbums': 'Total Album',
+  'dashboard.totalPhotos': 'Total Foto',
+  'dashboard.photoCountFailed': (message: string) => `Gagal menghitung total foto: ${message}`,
+  'dashboard.albums': 'Manajemen Album',
+  'dashboard.statusFilter': 'Filter status',
+  'dashboard.merge': (count: number) => `Gabungkan (${number(count)})`,
+  'dashboard.newAlbum': 'Tambah Album',
+  'dashboard.select': 'Pilih',
+  'dashboard.selectAlbum': (title: string) => `Pilih album ${title}`,
+  'dashboard.photoCount': 'Jumlah Foto',
+  'dashboard.eventDate': 'Tanggal Kegiatan',
+  'dashboard.page': (page: number, count: number) => `Halaman ${number(page)} dari ${number(count)}`,
+  'dashboard.trashConfirm': (title: string, days: number) => `Pindahkan album "${title}" ke Sampah? Album dapat dipulihkan selama ${number(days)} hari.`,
+  'dashboard.trashed': (title: string) => `Album "${title}" dipindahkan ke Sampah.`,
+  'dashboard.trashFailed': (message: string) => `Gagal menghapus album: ${message}`,
+
+  // --- Merge albums ---
+  'merge.heading': (count: number) => `Gabungkan ${number(count)} Album`,
+  'merge.target': 'Album yang dipertahankan',
+  'merge.targetHint': 'Status, tanggal, lokasi dan tautan album ini tetap dipakai. Semua foto dipindahkan ke sini.',
+  'merge.noDescription': 'Tanpa deskripsi',
+  'merge.descriptionFrom': (title: string, excerpt: string) => `Dari "${title}": ${excerpt}`,
+  'merge.cover': 'Sampul',
+  'merge.noCovers': 'Belum ada album dengan sampul.',
+  'merge.submit': 'Gabungkan',
+  'merge.confirm': (count: number, title: string) => `Gabungkan ${number(count)} album menjadi "${title}"? Album lainnya dipindahkan ke Sampah setelah fotonya dipindahkan.`,
+  'merge.done': (count: number) => `${number(count)} album berhasil digabungkan.`,
+  'merge.failed': (message: string) => `Gagal menggabungkan album: ${message}`,
+
+  // --- Categories ---
+  'tags.label': 'Kategori',
+  'tags.empty': 'Belum ada kategori.',
+  'tags.newPlaceholder': 'Kategori baru...',
+  'tags.add': 'Tambah',
+  'tags.loadFailed': (message: string) => `Gagal memuat kategori: ${message}`,
+  'tags.createFailed': (message: string) => `Gagal membuat kategori: ${message}`,
+
+  // --- Album picker ---
+  'picker.search': 'Cari album...',
+  'picker.empty': 'Tidak ada album yang dapat dipilih.',
+  'picker.loadFailed': (message: string) => `Gagal memuat daftar album: ${message}`,
+
+  // --- Album editor ---
+  'editor.loadFailed': (message: string) => `Gagal memuat data album: ${message}`,
+  'editor.photosLoadFailed': (message: string) => `Gagal memuat foto: ${message}`,
+  'editor.created': 'Album berhasil dibuat.',
+  'editor.createFailed': (message: string) => `Gagal membuat album: ${message}`,
+  'editor.saved': 'Perubahan berhasil disimpan.',
+  'editor.saveFailed': 'Gagal menyimpan perubahan.',
+  'editor.published': 'Album berhasil diterbitkan.',
+  'editor.publishEmptyConfirm': 'Album ini belum memiliki foto. Tetap terbitkan?',
+  'editor.trashPhotoConfirm': 'Pindahkan foto ini ke Sampah?',
+  'editor.trashPhotoFailed': (message: string) => `Gagal menghapus foto: ${message}`,
+  'editor.photoTrashed': 'Foto dipindahkan ke Sampah.',
+  'editor.coverSet': 'Foto sampul berhasil diperbarui.',
+  'editor.coverFailed': (message: string) => `Gagal mengatur foto sampul: ${message}`,
+  'editor.newTitle': 'Tambah Album Baru',
+  'editor.editTitle': 'Edit Album',
+  'editor.fallbackTitle': 'album',
+  'editor.history': 'Riwayat',
+  'editor.publishNow': 'Terbitkan Sekarang',
+  'editor.create': 'Buat Album',
+  'editor.save': 'Simpan Perubahan',
+  'editor.details': 'Detail Album',
+  'editor.optional': '(opsional)',
+  'editor.translatedTitle': (language: string) => `Judul (${language})`,
+  'editor.translatedDescription': (language: string) => `Deskripsi (${language})`,
+  'editor.translationHint': (language: string) => `Ditampilkan bagi pengunjung yang memilih ${language}; bila kosong, judul dan deskripsi di atas yang dipakai.`,
+  'editor.eventDateHint': 'Hari kegiatan berlangsung, bukan hari foto diunggah.',
+  'editor.locationPlaceholder': 'mis. Aula sekolah',
+  'editor.statusHint': 'Hanya album berstatus Terbit yang tampil di galeri publik.',
+  'editor.publishAt': 'Jadwal Terbit',
+  'editor.publishAtHint': 'Kosongkan untuk langsung terbit setelah disimpan.',
+  'editor.allowDownload': 'Izinkan pengunjung mengunduh semua foto',
+  'editor.allowDownloadHint': 'Menampilkan tombol "Unduh Semua" di galeri publik.',
+  'editor.contributorNote': 'Anda hanya dapat menambah foto serta mengubah caption dan urutan di album ini.',
+  'editor.photos': 'Manajemen Foto',
+  'editor.savedPhotos': 'Foto Tersimpan',
+  'editor.selectAll': 'Pilih semua',
+  'editor.sortByTakenAt': 'Urutkan menurut waktu foto',
+  'editor.orderChanged': 'Urutan berubah — klik "Simpan Perubahan" untuk menyimpan.',
+  'editor.reorderHint': 'Seret foto atau fokuskan lalu tekan tombol panah untuk mengubah urutan.',
+  'editor.selected': (count: number) => `${number(count)} foto dipilih`,
+  'editor.rangeHint': 'Shift+klik untuk memilih rentang',
+  'editor.photoLabel': (position: number, count: number, caption: string | null) => `Foto ${number(position)} dari ${number(count)}${caption ? `: ${caption}` : ''}`,
+  'editor.selectPhoto': (position: number) => `Pilih foto ${number(position)}`,
+  'editor.moveEarlier': 'Pindahkan ke depan',
+  'editor.moveLater': 'Pindahkan ke belakang',
+  'editor.captionPlaceholder': 'Tambah caption...',
+  'editor.saveFirst': 'Simpan album terlebih dahulu untuk dapat mengunggah foto.',
+
+  // --- Upload queue ---
+  'upload.notImage': (fileName: string) => `File ${fileName} bukan gambar.`,
+  'upload.tooLarge': (limit: string) => `Masih terlalu besar setelah dikompres (> ${limit}).`,
+  'upload.processFailed': (message: string) => `Gagal memproses gambar: ${message}`,
+  'upload.compressFailed': 'Gagal mengompres gambar.',
+  'upload.noCanvas': 'Browser tidak mendukung canvas 2D.',
+  'upload.duplicatesFound': (count: number) => `${number(count)} foto tampaknya sudah ada. Periksa antrean sebelum mengunggah.`,
+  'upload.duplicateInAlbum': (position: number) => `foto #${number(position)} di album`,
+  'upload.duplicateInQueue': (fileName: string) => `${fileName} di antrean`,
+  'upload.succeeded': (count: number) => `${number(count)} foto berhasil diunggah.`,
+  'upload.failed': (count: number) => `${number(count)} foto gagal diunggah. Gunakan "Ulangi" untuk mencoba lagi.`,
+  'upload.nothingQueued': 'Tidak ada foto dalam antrean.',
+  'upload.cancelled': 'Unggahan dibatalkan.',
+  'upload.connectionLost': 'Koneksi terputus saat mengunggah.',
+  'upload.dropHere': 'Jatuhkan file di sini',
+  'upload.choose': 'Pilih file atau jatuhkan ke sini',
+  'upload.compressionNote': (limit: string) => `Foto besar dikompres otomatis (maks ${limit} per file setelah kompresi)`,
+  'upload.queue': (count: number) => `Antrean Unggah (${number(count)})`,
+  'upload.skipDuplicates': (count: number) => `Lewati semua duplikat (${number(count)})`,
+  'upload.retryFailed': (count: number) => `Ulangi semua yang gagal (${number(count)})`,
+  'upload.cancelAll': 'Batalkan semua',
+  'upload.status.compressing': 'Mengompres...',
+  'upload.status.queued': 'Menunggu',
+  'upload.status.duplicate': 'Duplikat?',
+  'upload.status.pending': 'Dalam antrean',
+  'upload.status.success': 'Berhasil',
+  'upload.status.error': 'Gagal',
+  'upload.status.cancelled': 'Dibatalkan',
+  'upload.retry': 'Ulangi',
+  'upload.remove': 'Hapus dari antrean',
+  'upload.new': 'Baru',
+  'upload.identical': (label: string) => `File ini sama persis dengan ${label}.`,
+  'upload.similar': (label: string) => `Foto ini sangat mirip dengan ${label}.`,
+  'upload.skip': 'Lewati',
+  'upload.keep': 'Tetap unggah',
+  'upload.submit': (count: number) => `Unggah ${number(count)} Foto`,
+
+  // --- Bulk photo actions ---
+  'batch.field.caption': 'caption',
+  'batch.field.alt_text': 'teks alternatif',
+  'batch.replaceConfirm': (label: string, count: number, text: string) => `Ganti ${label} ${number(count)} foto terpilih dengan "${text}"?`,
+  'batch.clearConfirm': (label: string, count: number) => `Kosongkan ${label} ${number(count)} foto terpilih?`,
+  'batch.textUpdated': (label: string, count: number) => `${label[0].toUpperCase()}${label.slice(1)} ${number(count)} foto diperbarui`,
+  'batch.partlyFailed': (summary: string, failed: number) => `${summary}, ${number(failed)} foto gagal.`,
+  'batch.trashConfirm': (count: number) => `Pindahkan ${number(count)} foto terpilih ke Sampah?`,
+  'batch.trashed': (count: number) => `${number(count)} foto dipindahkan ke Sampah`,
+  'batch.moveConfirm': (count: number, title: string) => `Pindahkan ${number(count)} foto terpilih ke album "${title}"?`,
+  'batch.copyConfirm': (count: number, title: string) => `Salin ${number(count)} foto terpilih ke album "${title}"?`,
+  'batch.moved': (count: number, title: string) => `${number(count)} foto dipindahkan ke "${title}"`,
+  'batch.copied': (count: number, title: string) => `${number(count)} foto disalin ke "${title}"`,
+  'batch.targetNotAllowed': (title: string) => `Anda tidak dapat menambah foto ke album "${title}".`,
+  'batch.targetLoadFailed': (message: string) => `Gagal memuat album tujuan: ${message}`,
+  'batch.splitPrompt': (count: number) => `Judul album baru untuk ${number(count)} foto terpilih:`,
+  'batch.splitDefaultTitle': (title: string) => `${title} (bagian 2)`,
+  'batch.split': (count: number, title: string) => `${number(count)} foto dipindahkan ke album baru "${title}".`,
+  'batch.splitFailed': (message: string) => `Gagal memisahkan album: ${message}`,
+  'batch.progress': (done: number, total: number) => `Memproses ${number(done)}/${number(total)}...`,
+  'batch.move': 'Pindahkan ke album...',
+  'batch.splitAction': 'Pisahkan ke album baru...',
+  'batch.copy': 'Salin ke album...',
+  'batch.trash': 'Pindahkan ke Sampah',
+  'batch.moveTitle': (count: number) => `Pindahkan ${number(count)} foto ke...`,
+  'batch.copyTitle': (count: number) => `Salin ${number(count)} foto ke...`,
+  'batch.altText': 'Teks Alternatif',
+  'batch.captionPlaceholder': 'mis. Upacara 17 Agustus – {n}',
+  'batch.altTextPlaceholder': 'mis. Siswa berbaris di lapangan',
+  'batch.apply': 'Terapkan',
+  'batch.templateHint': '{n} diganti nomor urut foto di antara yang dipilih. Terapkan isian kosong untuk menghapus. Teks alternatif dibacakan pembaca layar; bila kosong, caption yang dipakai.',
+
+  // --- Users ---
+  'users.title': 'Pengguna',
+  'users.invite': 'Undang Pengguna',
+  'users.email': 'Email',
+  'users.initialPassword': 'Kata Sandi Awal',
+  'users.role': 'Peran',
+  'users.inviteSubmit': 'Undang',
+  'users.inviting': 'Mengundang...',
+  'users.roleDescription.admin': 'Semua akses, termasuk mengelola pengguna dan mengosongkan Sampah.',
+  'users.roleDescription.editor': 'Membuat, mengedit, menerbitkan dan menghapus album.',
+  'users.roleDescription.contributor': 'Mengunggah foto ke album yang ditugaskan.',
+  'users.passwordHint': 'Sampaikan kata sandi awal kepada pengguna secara langsung.',
+  'users.albums': 'Album Ditugaskan',
+  'users.albumCount': (count: number) => `${number(count)} album`,
+  'users.allAlbums': 'Semua album',
+  'users.you': '(Anda)',
+  'users.roleOf': (email: string) => `Peran ${email}`,
+  'users.revoke': (email: string) => `Cabut akses ${email}`,
+  'users.revokeConfirm': (email: string) => `Cabut akses ${email} ke panel admin?`,
+  'users.revoked': (email: string) => `Akses ${email} telah dicabut.`,
+  'users.revokeFailed': (message: string) => `Gagal mencabut akses: ${message}`,
+  'users.passwordTooShort': 'Kata sandi awal minimal 6 karakter.',
+  'users.invited': (email: string, role: string) => `${email} berhasil diundang sebagai ${role}.`,
+  'users.inviteFailed': (message: string) => `Gagal mengundang pengguna: ${message}`,
+  'users.updateFailed': (email: string, message: string) => `Gagal memperbarui ${email}: ${message}`,
+  'users.loadFailed': (message: string) => `Gagal memuat pengguna: ${message}`,
+
+  // --- Activity ---
+  'activity.title': 'Aktivitas',
+  'activity.user': 'Pengguna',
+  'activity.allUsers': 'Semua pengguna',
+  'activity.deletedAlbum': 'Album terhapus',
+  'activity.action': 'Jenis Aksi',
+  'activity.allActions': 'Semua aksi',
+  'activity.empty': 'Belum ada aktivitas yang cocok.',
+  'activity.time': 'Waktu',
+  'activity.changes': 'Perubahan',
+  'activity.system': 'Sistem',
+  'activity.yes': 'Ya',
+  'activity.no': 'Tidak',
+  'activity.loading': 'Memuat...',
+  'activity.loadFailed': (message: string) => `Gagal memuat aktivitas: ${message}`,
+
+  // --- Trash ---
+  'trash.title': 'Sampah',
+  'trash.empty': 'Kosongkan Sampah',
+  'trash.retention': (days: number) => `Album dan foto yang dihapus disimpan di sini selama ${number(days)} hari sebelum dihapus permanen.`,
+  'trash.albums': (count: number) => `Album (${number(count)})`,
+  'trash.photos': (count: number) => `Foto (${number(count)})`,
+  'trash.noAlbums': 'Tidak ada album di Sampah.',
+  'trash.noPhotos': 'Tidak ada foto di Sampah.',
+  'trash.restore': 'Pulihkan',
+  'trash.purge': 'Hapus Permanen',
+  'trash.deletedOn': (date: string) => `Dihapus ${date}`,
+  'trash.purgedIn': (days: number) => `terhapus permanen dalam ${number(days)} hari`,
+  'trash.purgedSoon': 'segera terhapus permanen',
+  'trash.albumsLoadFailed': (message: string) => `Gagal memuat album di Sampah: ${message}`,
+  'trash.photosLoadFailed': (message: string) => `Gagal memuat foto di Sampah: ${message}`,
+  'trash.purgeAlbumConfirm': (title: string) => `Hapus permanen album "${title}" beserta semua fotonya? Tindakan ini tidak dapat dibatalkan.`,
+  'trash.albumPurged': (title: string) => `Album "${title}" dihapus permanen.`,
+  'trash.purgeAlbumFailed': 'Gagal menghapus album',
+  'trash.purgePhotoConfirm': 'Hapus permanen foto ini? Tindakan ini tidak dapat dibatalkan.',
+  'trash.photoPurged': 'Foto dihapus permanen.',
+  'trash.purgePhotoFailed': 'Gagal menghapus foto',
+  'trash.emptyConfirm': (albums: number, photos: number) => `Hapus permanen ${number(albums)} album dan ${number(photos)} foto di Sampah? Tindakan ini tidak dapat dibatalkan.`,
+  'trash.itemsNotPurged': (count: number) => `${number(count)} item tidak dapat dihapus`,
+  'trash.emptied': 'Sampah berhasil dikosongkan.',
+  'trash.emptyFailed': 'Gagal mengosongkan Sampah',
+  'trash.albumRestored': (title: string) => `Album "${title}" dipulihkan.`,
+  'trash.restoreAlbumFailed': 'Gagal memulihkan album',
+  'trash.photoRestored': 'Foto dipulihkan.',
+  'trash.restorePhotoFailed': 'Gagal memulihkan foto',
+};
+
+export type Messages = typeof id;
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { Album, Photo } from '../types';
+import { createMemoryRepository } from './memoryRepository';
+import { RepositoryError } from './repository';
+
+const album = (id: string, event_date: string | null, overrides: Partial<Album> = {}): Album => ({
+  id,
+  title: `Album ${id}`,
+  description: null,
+  cover_image_url: null,
+  created_at: '2024-09-01T08:00:00.000Z',
+  event_date,
+  location: null,
+  status: 'published',
+  publish_at: null,
+  allow_download: true,
+  ...overrides,
+});
+
+const photo = (id: string, album_id: string, sort_order: number): Photo => ({
+  id,
+  album_id,
+  image_url: `https://example.test/${id}.webp`,
+  caption: null,
+  alt_text: null,
+  variants: null,
+  taken_at: null,
+  metadata: null,
+  sort_order,
+  created_at: '2024-09-01T08:00:00.000Z',
+});
+
+describe('createMemoryRepository', () => {
+  describe('albums', () => {
+    it('lists only published, live albums unless asked for a status', async () => {
+      const repository = createMemoryRepository({
+        albums: [
+          album('live', '2024-09-01'),
+          album('draft', '2024-09-02', { status: 'draft' }),
+          album('scheduled', '2024-09-03', { publish_at: '2999-01-01T00:00:00.000Z' }),
+        ],
+      });
+      expect((await repository.albums.listWithPhotoCount()).map(a => a.id)).toEqual(['live']);
+      expect((await repository.albums.listWithPhotoCount({ status: 'all' })).map(a => a.id)).toEqual(['scheduled', 'draft', 'live']);
+      expect(await repository.albums.count({ status: 'draft' })).toBe(1);
+    });
+
+    it('walks every album exactly once through the page cursors', async () => {
+      const albums = Array.from({ length: 7 }, (_, i) => album(`a${i}`, i % 2 ? `2024-09-0${i + 1}` : null, {
+        created_at: `2024-09-0${i + 1}T08:00:00.000Z`,
+      }));
+      const repository = createMemoryRepository({ albums });
+      const seen: string[] = [];
+      let cursor: string | null = null;
+      do {
+        const page = await repository.albums.listPage({}, { cursor, limit: 3 });
+        expect(page.items.length).toBeLessThanOrEqual(3);
+        seen.push(...page.items.map(a => a.id));
+        cursor = page.nextCursor;
+      } while (cursor);
+      expect(seen).toEqual((await repository.albums.listWithPhotoCount()).map(a => a.id));
+      expect(new Set(seen).size).toBe(7);
+    });
+
+    it('keeps trashed albums out of listings until they are restored', async () => {
+      const repository = createMemoryRepository({ albums: [album('a', '2024-09-01')] });
+      await repository.albums.trash('a');
+      expect(await repository.albums.listWithPhotoCount({ status: 'all' })).toEqual([]);
+      expect((await repository.albums.listTrashed()).map(a => a.id)).toEqual(['a']);
+      await repository.albums.restore('a');
+      expect((await repository.albums.listWithPhotoCount()).map(a => a.id)).toEqual(['a']);
+    });
+
+    it('finds albums by their translated title', async () => {
+      const repository = createMemoryRepository({
+        albums: [album('a', '2024-09-01', { title: 'Wisuda', translations: { en: { title: 'Graduation' } } })],
+      });
+      expect((await repository.albums.search('graduation')).map(a => a.id)).toEqual(['a']);
+    });
+
+    it('rejects unknown ids with a RepositoryError', async () => {
+      const repository = createMemoryRepository({});
+      await expect(repository.albums.get('missing')).rejects.toBeInstanceOf(RepositoryError);
+    });
+  });
+
+  describe('photos', () => {
+    const seed = () => ({
+      albums: [album('a', '2024-09-01'), album('b', '2024-09-02')],
+      photos: [...[0, 1, 2, 3, 4].map(i => photo(`a${i}`, 'a', i)), photo('b0', 'b', 0)],
+    });
+
+    it('pages through an album in sort order', async () => {
+      const repository = createMemoryRepository(seed());
+      const first = await repository.photos.listPageByAlbum('a', { cursor: null, limit: 3 });
+      expect(first.items.map(p => p.id)).toEqual(['a0', 'a1', 'a2']);
+      const second = await repository.photos.listPageByAlbum('a', { cursor: first.nextCursor, limit: 3 });
+      expect(second.items.map(p => p.id)).toEqual(['a3', 'a4']);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it('leaves trashed photos out of pages and counts', async () => {
+      const repository = createMemoryRepository(seed());
+      await repository.photos.trash('a1');
+      const page = await repository.photos.listPageByAlbum('a', { cursor: null, limit: 10 });
+      expect(page.items.map(p => p.id)).toEqual(['a0', 'a2', 'a3', 'a4']);
+      expect(await repository.photos.count()).toBe(5);
+    });
+
+    it('appends moved photos to the target album and hands the cover on', async () => {
+      const { albums, photos } = seed();
+      albums[0].cover_image_url = photos[0].image_url;
+      const repository = createMemoryRepository({ albums, photos });
+      await repository.photos.move('a0', 'b');
+      expect((await repository.photos.listByAlbum('b')).map(p => p.id)).toEqual(['b0', 'a0']);
+      expect((await repository.albums.get('a')).cover_image_url).toBe(photos[1].image_url);
+    });
+  });
+
+  describe('auth', () => {
+    it('signs in with the right password only', async () => {
+      const repository = createMemoryRepository({ users: [{ email: 'guru@sekolah.test', password: 'guru' }] });
+      await expect(repository.auth.signInWithPassword('guru@sekolah.test', 'salah')).rejects.toThrow();
+      const session = await repository.auth.signInWithPassword('guru@sekolah.test', 'guru');
+      expect(session.user.email).toBe('guru@sekolah.test');
+      expect(await repository.auth.getSession()).toEqual(session);
+    });
+  });
+});
@@ -0,0 +1,469 @@
+import { Album, AuditAction, AuditEntry, Photo, TrashedPhoto, Tag, StaffMember, AuthSession } from '../types';
+import { slugify } from './tags';
+import { searchTerms, matchesAllTerms } from './search';
+import { albumDate } from './schoolYear';
+import { isAlbumPublic } from './albumStatus';
+import { toPage, albumCursor, photoCursor, auditCursor } from './pagination';
+import { diffFields, AUDITED_ALBUM_FIELDS } from './audit';
+import { GalleryRepository, AlbumFilter, AuthStateListener, RepositoryError, UploadCancelledError } from './repository';
+
+export interface MemoryUser {
+  email: string;
+  password: string;
+}
+
+export interface MemorySeed {
+  albums?: Album[];
+  photos?: Photo[];
+  tags?: Tag[];
+  albumTags?: { album_id: string; tag_id: string }[];
+  users?: MemoryUser[];
+  staff?: StaffMember[];
+}
+
+// A flat-coloured SVG stands in for a real photo so the fake data needs no network.
+const placeholderImage = (label: string, color: string) =>
+  'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="1200" height="900" viewBox="0 0 1200 900">` +
+    `<rect width="1200" height="900" fill="${color}"/>` +
+    `<text x="600" y="450" font-family="sans-serif" font-size="64" fill="#fff" text-anchor="middle" dominant-baseline="middle">${label}</text>` +
+    `</svg>`
+  );
+
+const defaultSeed = (): Required<MemorySeed> => {
+  const colors = ['#1d4ed8', '#0f766e', '#b45309', '#be123c', '#6d28d9', '#15803d'];
+  const albums: Album[] = [
+    { id: 'album-upacara', title: 'Upacara 17 Agustus', description: 'Upacara bendera memperingati Hari Kemerdekaan.', cover_image_url: null, created_at: '2024-08-19T08:00:00.000Z', event_date: '2024-08-17', location: 'Lapangan upacara', status: 'published', publish_at: null, allow_download: true },
+    { id: 'album-pramuka', title: 'Pramuka 2024', description: 'Perkemahan Sabtu Minggu di lapangan sekolah.', cover_image_url: null, created_at: '2024-09-23T07:30:00.000Z', event_date: '2024-09-21', location: 'Lapangan sekolah', status: 'published', publish_at: null, allow_download: true },
+    { id: 'album-kosong', title: 'Kunjungan Industri', description: null, cover_image_url: null, created_at: '2025-02-05T09:00:00.000Z', event_date: null, location: null, status: 'draft', publish_at: null, allow_download: true },
+  ];
+  const photos: Photo[] = [];
+  albums.slice(0, 2).forEach((album, albumIndex) => {
+    for (let i = 1; i <= 6; i++) {
+      photos.push({
+        id: `${album.id}-photo-${i}`,
+        album_id: album.id,
+        image_url: placeholderImage(`${album.title} #${i}`, colors[(albumIndex * 3 + i) % colors.length]),
+        caption: i === 1 ? album.title : null,
+        alt_text: null,
+        variants: null,
+        taken_at: null,
+        metadata: null,
+        sort_order: i - 1,
+        created_at: new Date(Date.parse(album.created_at) + i * 60_000).toISOString(),
+      });
+    }
+    album.cover_image_url = photos.find(p => p.album_id === album.id)?.image_url ?? null;
+  });
+  const tags: Tag[] = [
+    { id: 'tag-upacara', name: 'Upacara', slug: 'upacara' },
+    { id: 'tag-ekstrakurikuler', name: 'Ekstrakurikuler', slug: 'ekstrakurikuler' },
+    { id: 'tag-pkl', name: 'PKL', slug: 'pkl' },
+  ];
+  const albumTags = [
+    { album_id: 'album-upacara', tag_id: 'tag-upacara' },
+    { album_id: 'album-pramuka', tag_id: 'tag-ekstrakurikuler' },
+    { album_id: 'album-kosong', tag_id: 'tag-pkl' },
+  ];
+  const users = [
+    { email: 'admin@sekolah.test', password: 'admin' },
+    { email: 'editor@sekolah.test', password: 'editor' },
+    { email: 'guru@sekolah.test', password: 'guru' },
+  ];
+  const staff: StaffMember[] = [
+    { email: 'admin@sekolah.test', role: 'admin', album_ids: [], created_at: '2024-07-01T00:00:00.000Z' },
+    { email: 'editor@sekolah.test', role: 'editor', album_ids: [], created_at: '2024-07-01T00:00:00.000Z' },
+    { email: 'guru@sekolah.test', role: 'contributor', album_ids: ['album-pramuka'], created_at: '2024-07-01T00:00:00.000Z' },
+  ];
+  return { albums, photos, tags, albumTags, users, staff };
+};
+
+const byCreatedAt = (a: { created_at: string }, b: { created_at: string }) => a.created_at.localeCompare(b.created_at);
+const byAlbumDateDesc = (a: Album, b: Album) => albumDate(b).getTime() - albumDate(a).getTime() || byCreatedAt(b, a);
+
+// Rows strictly after `cursor` in the list's order; the list must already be sorted.
+const after = <T>(items: T[], cursor: string | null | undefined, cursorOf: (item: T) => string) => {
+  if (!cursor) return items;
+  const index = items.findIndex(item => cursorOf(item) === cursor);
+  return index === -1 ? [] : items.slice(index + 1);
+};
+const matchesStatus = (album: Album, status: AlbumFilter['status']) =>
+  status === undefined ? isAlbumPublic(album) : status === 'all' || album.status === status;
+// Title, description and location, plus the translated title and description.
+const searchableText = (album: Album) =>
+  [album.title, album.description, album.location, ...Object.values(album.translations ?? {}).flatMap(t => [t?.title, t?.description])]
+    .filter(Boolean)
+    .join(' ');
+const bySortOrder = (a: Photo, b: Photo) => a.sort_order - b.sort_order || byCreatedAt(a, b);
+
+/**
+ * Keeps albums, photos, uploaded files and the session in memory. Used to run
+ * the app offline and as a fake in tests; nothing survives a page reload.
+ */
+export const createMemoryRepository = (seed: MemorySeed = defaultSeed()): GalleryRepository => {
+  let albums = [...(seed.albums ?? [])];
+  let photos = [...(seed.photos ?? [])];
+  let tags = [...(seed.tags ?? [])];
+  let albumTags = [...(seed.albumTags ?? [])];
+  const users = [...(seed.users ?? [])];
+  let staff = [...(seed.staff ?? [])];
+  let auditLog: AuditEntry[] = [];
+  const objectUrls = new Map<string, string>();
+  const listeners = new Set<AuthStateListener>();
+  let session: AuthSession | null = null;
+
+  const setSession = (next: AuthSession | null) => {
+    session = next;
+    listeners.forEach(listener => listener(session));
+  };
+
+  // Stands in for the audit triggers in the Supabase schema.
+  const record = (
+    action: AuditAction,
+    album: Album,
+    details: Partial<Pick<AuditEntry, 'photo_id' | 'before' | 'after'>> = {}
+  ) => {
+    auditLog = [{
+      id: crypto.randomUUID(),
+      created_at: new Date().toISOString(),
+      actor_email: session?.user.email ?? null,
+      action,
+      album_id: album.id,
+      album_title: album.title,
+      photo_id: details.photo_id ?? null,
+      before: details.before ?? null,
+      after: details.after ?? null,
+    }, ...auditLog];
+  };
+
+  const findAlbum = (id: string) => {
+    const album = albums.find(a => a.id === id);
+    if (!album) throw new RepositoryError(`Album ${id} tidak ditemukan.`);
+    return album;
+  };
+
+  const findPhoto = (id: string) => {
+    const photo = photos.find(p => p.id === id);
+    if (!photo) throw new RepositoryError(`Foto ${id} tidak ditemukan.`);
+    return photo;
+  };
+
+  const tagsOf = (albumId: string) =>
+    tags
+      .filter(t => albumTags.some(at => at.album_id === albumId && at.tag_id === t.id))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+  const livePhotos = () => photos.filter(p => !p.deleted_at);
+  const liveAlbums = () => albums.filter(a => !a.deleted_at);
+
+  const withPhotoCount = (album: Album): Album => ({
+    ...album,
+    tags: tagsOf(album.id),
+    photo_count: livePhotos().filter(p => p.album_id === album.id).length,
+    cover_variants: livePhotos().find(p => p.album_id === album.id && p.image_url === album.cover_image_url)?.variants ?? null,
+  });
+
+  const setAlbumDeletedAt = (id: string, deletedAt: string | null) => {
+    const album = findAlbum(id);
+    albums = albums.map(a => (a === album ? { ...a, deleted_at: deletedAt } : a));
+    record(deletedAt ? 'album.trash' : 'album.restore', album);
+  };
+
+  const setPhotoDeletedAt = (id: string, deletedAt: string | null) => {
+    const photo = findPhoto(id);
+    photos = photos.map(p => (p === photo ? { ...p, deleted_at: deletedAt } : p));
+    record(deletedAt ? 'photo.trash' : 'photo.restore', findAlbum(photo.album_id), {
+      photo_id: id,
+      before: { image_url: photo.image_url },
+    });
+  };
+
+  return {
+    albums: {
+      async listWithPhotoCount(filter = {}) {
+        const tag = filter.tagSlug ? tags.find(t => t.slug === filter.tagSlug) : undefined;
+        if (filter.tagSlug && !tag) return [];
+        return liveAlbums()
+          .filter(a => !tag || albumTags.some(at => at.album_id === a.id && at.tag_id === tag.id))
+          .filter(a => matchesStatus(a, filter.status))
+          .sort(byAlbumDateDesc)
+          .map(withPhotoCount);
+      },
+      async listPage(filter, { cursor, limit }) {
+        const all = await this.listWithPhotoCount(filter);
+        return toPage(after(all, cursor, albumCursor).slice(0, limit + 1), limit, albumCursor);
+      },
+      async count(filter = {}) {
+        return liveAlbums().filter(a => matchesStatus(a, filter.status)).length;
+      },
+      async search(query) {
+        const terms = searchTerms(query);
+        return liveAlbums()
+          .filter(a => isAlbumPublic(a) && matchesAllTerms(searchableText(a), terms))
+          .sort(byAlbumDateDesc)
+          .map(withPhotoCount);
+      },
+      async get(id) {
+        return { ...findAlbum(id), tags: tagsOf(id) };
+      },
+      async create(input) {
+        const album: Album = {
+          id: crypto.randomUUID(),
+          title: input.title,
+          description: input.description ?? null,
+          cover_image_url: null,
+          created_at: new Date().toISOString(),
+          event_date: input.event_date ?? null,
+          location: input.location ?? null,
+          status: input.status ?? 'draft',
+          publish_at: input.publish_at ?? null,
+          allow_download: input.allow_download ?? true,
+          translations: input.translations ?? {},
+        };
+        albums = [...albums, album];
+        record('album.create', album, { after: { title: album.title, status: album.status } });
+        return { ...album };
+      },
+      async update(id, changes) {
+        const album = findAlbum(id);
+        const updated = { ...album, ...changes };
+        albums = albums.map(a => (a === album ? updated : a));
+        if (album.cover_image_url !== updated.cover_image_url) {
+          record('album.cover', updated, {
+            before: { cover_image_url: album.cover_image_url },
+            after: { cover_image_url: updated.cover_image_url },
+          });
+        }
+        const diff = diffFields(album, updated, AUDITED_ALBUM_FIELDS);
+        if (Object.keys(diff.after).length > 0) record('album.update', updated, diff);
+      },
+      async listTrashed() {
+        return albums
+          .filter(a => a.deleted_at)
+          .sort((a, b) => b.deleted_at!.localeCompare(a.deleted_at!))
+          .map(a => ({ ...a }));
+      },
+      async trash(id) {
+        setAlbumDeletedAt(id, new Date().toISOString());
+      },
+      async restore(id) {
+        setAlbumDeletedAt(id, null);
+      },
+      async remove(id) {
+        const album = findAlbum(id);
+        record('album.delete', album, {
+          before: { title: album.title, photo_count: photos.filter(p => p.album_id === id).length },
+        });
+        albums = albums.filter(a => a.id !== id);
+        photos = photos.filter(p => p.album_id !== id);
+        albumTags = albumTags.filter(at => at.album_id !== id);
+      },
+    },
+
+    photos: {
+      async listByAlbum(albumId, { includeTrashed = false } = {}) {
+        return (includeTrashed ? photos : livePhotos())
+          .filter(p => p.album_id === albumId)
+          .sort(bySortOrder)
+          .map(p => ({ ...p }));
+      },
+      async listPageByAlbum(albumId, { cursor, limit }) {
+        const all = await this.listByAlbum(albumId);
+        return toPage(after(all, cursor, photoCursor).slice(0, limit + 1), limit, photoCursor);
+      },
+      async search(query) {
+        const terms = searchTerms(query);
+        return livePhotos()
+          .filter(p => isAlbumPublic(findAlbum(p.album_id)) && matchesAllTerms(p.caption, terms))
+          .map(p => ({ ...p, album_title: findAlbum(p.album_id).title }));
+      },
+      async count() {
+        return livePhotos().length;
+      },
+      async insert(inputs) {
+        inputs.forEach(input => findAlbum(input.album_id));
+        const nextSortOrder = (albumId: string) =>
+          photos.filter(p => p.album_id === albumId).reduce((max, p) => Math.max(max, p.sort_order + 1), 0);
+        const created = inputs.map((input, index): Photo => ({
+          id: crypto.randomUUID(),
+          album_id: input.album_id,
+          image_url: input.image_url,
+          caption: input.caption ?? null,
+          alt_text: input.alt_text ?? null,
+          variants: input.variants ?? null,
+          taken_at: input.taken_at ?? null,
+          metadata: input.metadata ?? null,
+          content_hash: input.content_hash ?? null,
+          perceptual_hash: input.perceptual_hash ?? null,
+          sort_order: input.sort_order ?? nextSortOrder(input.album_id) + index,
+          created_at: new Date().toISOString(),
+        }));
+        photos = [...photos, ...created];
+        created.forEach(p => record('photo.upload', findAlbum(p.album_id), {
+          photo_id: p.id,
+          after: { image_url: p.image_url, caption: p.caption },
+        }));
+        return created.map(p => ({ ...p }));
+      },
+      async update(id, changes) {
+        const photo = findPhoto(id);
+        const updated = { ...photo, ...changes };
+        photos = photos.map(p => (p === photo ? updated : p));
+        const diff = diffFields(photo, updated, ['caption', 'alt_text']);
+        if (Object.keys(diff.after).length > 0) {
+          record('photo.caption', findAlbum(photo.album_id), { photo_id: id, ...diff });
+        }
+      },
+      async reorder(albumId, photoIds) {
+        photos = photos.map(p => {
+          const position = photoIds.indexOf(p.id);
+          return p.album_id === albumId && position !== -1 ? { ...p, sort_order: position } : p;
+        });
+      },
+      async move(id, albumId) {
+        const photo = findPhoto(id);
+        const source = findAlbum(photo.album_id);
+        const target = findAlbum(albumId);
+        if (source === target) return;
+        const sortOrder = photos.filter(p => p.album_id === albumId).reduce((max, p) => Math.max(max, p.sort_order + 1), 0);
+        photos = photos.map(p => (p === photo ? { ...p, album_id: albumId, sort_order: sortOrder } : p));
+        record('photo.move', target, { photo_id: id, before: { album: source.title }, after: { album: target.title } });
+
+        if (source.cover_image_url === photo.image_url) {
+          const nextCover = livePhotos()
+            .filter(p => p.album_id === source.id)
+            .sort((a, b) => a.sort_order - b.sort_order || a.created_at.localeCompare(b.created_at))[0]?.image_url ?? null;
+          albums = albums.map(a => (a === source ? { ...a, cover_image_url: nextCover } : a));
+          record('album.cover', source, { before: { cover_image_url: photo.image_url }, after: { cover_image_url: nextCover } });
+        }
+      },
+      async listTrashed() {
+        return photos
+          .filter((p): p is Photo & { deleted_at: string } => !!p.deleted_at)
+          .sort((a, b) => b.deleted_at.localeCompare(a.deleted_at))
+          .map((p): TrashedPhoto => ({ ...p, album_title: findAlbum(p.album_id).title }));
+      },
+      async trash(id) {
+        setPhotoDeletedAt(id, new Date().toISOString());
+      },
+      async restore(id) {
+        setPhotoDeletedAt(id, null);
+      },
+      async remove(id) {
+        const photo = findPhoto(id);
+        photos = photos.filter(p => p.id !== id);
+        record('photo.delete', findAlbum(photo.album_id), {
+          photo_id: id,
+          before: { image_url: photo.image_url, caption: photo.caption },
+        });
+      },
+    },
+
+    tags: {
+      async list() {
+        return [...tags].sort((a, b) => a.name.localeCompare(b.name));
+      },
+      async getBySlug(slug) {
+        return tags.find(t => t.slug === slug) ?? null;
+      },
+      async create(name) {
+        const slug = slugify(name);
+        const existing = tags.find(t => t.slug === slug);
+        if (existing) return existing;
+        const tag: Tag = { id: crypto.randomUUID(), name: name.trim(), slug };
+        tags = [...tags, tag];
+        return tag;
+      },
+      async setForAlbum(albumId, tagIds) {
+        findAlbum(albumId);
+        albumTags = [
+          ...albumTags.filter(at => at.album_id !== albumId),
+          ...tagIds.map(tagId => ({ album_id: albumId, tag_id: tagId })),
+        ];
+      },
+    },
+
+    storage: {
+      async upload(fileName, file, { onProgress, signal } = {}) {
+        if (signal?.aborted) throw new UploadCancelledError();
+        if (objectUrls.has(fileName)) throw new RepositoryError('The resource already exists');
+        onProgress?.(file.size, file.size);
+        const url = URL.createObjectURL(file);
+        objectUrls.set(fileName, url);
+        return url;
+      },
+      async remove(publicUrls) {
+        for (const [fileName, url] of objectUrls) {
+          if (publicUrls.includes(url)) {
+            URL.revokeObjectURL(url);
+            objectUrls.delete(fileName);
+          }
+        }
+      },
+      async copy(publicUrl) {
+        const fileName = [...objectUrls].find(([, url]) => url === publicUrl)?.[0];
+        // Seed photos are not stored here, so there is nothing to duplicate.
+        if (!fileName) return publicUrl;
+        const url = URL.createObjectURL(await (await fetch(publicUrl)).blob());
+        objectUrls.set(`${crypto.randomUUID()}-${fileName}`, url);
+        return url;
+      },
+    },
+
+    staff: {
+      async getByEmail(email) {
+        const member = staff.find(s => s.email === email.toLowerCase());
+        return member ? { ...member } : null;
+      },
+      async list() {
+        return [...staff].sort((a, b) => a.email.localeCompare(b.email));
+      },
+      async invite(email, password, role) {
+        const normalized = email.trim().toLowerCase();
+        if (staff.some(s => s.email === normalized)) throw new RepositoryError('duplicate key value violates unique constraint "staff_pkey"');
+        if (!users.some(u => u.email === normalized)) users.push({ email: normalized, password });
+        const member: StaffMember = { email: normalized, role, album_ids: [], created_at: new Date().toISOString() };
+        staff = [...staff, member];
+        return { ...member };
+      },
+      async update(email, changes) {
+        if (!staff.some(s => s.email === email)) throw new RepositoryError(`Staf ${email} tidak ditemukan.`);
+        staff = staff.map(s => (s.email === email ? { ...s, ...changes } : s));
+      },
+      async remove(email) {
+        staff = staff.filter(s => s.email !== email);
+      },
+    },
+
+    audit: {
+      async list(filter, { cursor, limit }) {
+        const matching = auditLog.filter(entry =>
+          (!filter.actorEmail || entry.actor_email === filter.actorEmail) &&
+          (!filter.albumId || entry.album_id === filter.albumId) &&
+          (!filter.action || entry.action === filter.action)
+        );
+        return toPage(after(matching, cursor, auditCursor).slice(0, limit + 1), limit, auditCursor);
+      },
+    },
+
+    auth: {
+      async getSession() {
+        return session;
+      },
+      onAuthStateChange(listener) {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+      async signInWithPassword(email, password) {
+        const user = users.find(u => u.email === email && u.password === password);
+        if (!user) throw new RepositoryError('Invalid login credentials');
+        const next: AuthSession = { user: { id: `user-${user.email}`, email: user.email } };
+        setSession(next);
+        return next;
+      },
+      async signOut() {
+        setSession(null);
+      },
+    },
+  };
+};
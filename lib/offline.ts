@@ -0,0 +1,62 @@
+import { Photo } from '../types';
+import { GalleryRepository } from './repository';
+import { PHOTO_PAGE_SIZE } from './pagination';
+import { t } from './i18n';
+
+// Shared with public/sw.js, which looks in every cache when offline.
+const SAVED_ALBUM_CACHE_PREFIX = 'galeri-album-';
+
+export const offlineSupported = () => 'serviceWorker' in navigator && 'caches' in window;
+
+// Production only: in development a cached shell would hide every code change.
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !offlineSupported()) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => console.warn('Service worker registration failed:', error));
+  });
+};
+
+export const isAlbumSaved = (albumId: string) => caches.has(SAVED_ALBUM_CACHE_PREFIX + albumId);
+
+export const removeSavedAlbum = (albumId: string) => caches.delete(SAVED_ALBUM_CACHE_PREFIX + albumId);
+
+// What the album page shows: the renditions, or the original for photos without them.
+const displayedUrls = (photo: Photo) =>
+  photo.variants ? Object.values(photo.variants).map(variant => variant!.url) : [photo.image_url];
+
+/**
+ * Fetches everything the album page needs offline into a cache of the album's own. The
+ * album and its photo pages are requested exactly as the page requests them, and the
+ * service worker stores them there; the images are added directly. A failed save leaves
+ * nothing half stored.
+ */
+export const saveAlbumForOffline = async (
+  repository: GalleryRepository,
+  albumId: string,
+  onProgress?: (done: number, total: number) => void
+) => {
+  if (!navigator.serviceWorker.controller) {
+    throw new Error(t('offline.notReady'));
+  }
+  // Opened first: the service worker only copies data into caches that already exist.
+  const cache = await caches.open(SAVED_ALBUM_CACHE_PREFIX + albumId);
+  try {
+    await repository.albums.get(albumId);
+    const photos: Photo[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await repository.photos.listPageByAlbum(albumId, { cursor, limit: PHOTO_PAGE_SIZE });
+      photos.push(...page.items);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    const urls = [...new Set(photos.flatMap(displayedUrls))].filter(url => !url.startsWith('data:'));
+    for (const [index, url] of urls.entries()) {
+      if (!(await cache.match(url))) await cache.add(url);
+      onProgress?.(index + 1, urls.length);
+    }
+  } catch (error) {
+    await removeSavedAlbum(albumId);
+    throw error;
+  }
+};
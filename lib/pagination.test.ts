@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { Album } from '../types';
+import { albumCursor, toPage } from './pagination';
+
+describe('toPage', () => {
+  const cursorOf = (n: number) => String(n);
+
+  it('returns the first `limit` rows and a cursor when an extra row was fetched', () => {
+    expect(toPage([1, 2, 3], 2, cursorOf)).toEqual({ items: [1, 2], nextCursor: '2' });
+  });
+
+  it('has no next cursor on the last page', () => {
+    expect(toPage([1, 2], 2, cursorOf)).toEqual({ items: [1, 2], nextCursor: null });
+    expect(toPage([], 2, cursorOf)).toEqual({ items: [], nextCursor: null });
+  });
+});
+
+describe('albumCursor', () => {
+  const album = { id: 'a1', created_at: '2024-08-19T08:00:00.000Z', event_date: '2024-08-17' } as Album;
+
+  it('joins the event day, created_at and id', () => {
+    expect(albumCursor(album)).toBe('2024-08-17|2024-08-19T08:00:00.000Z|a1');
+  });
+
+  it('falls back to the upload day for undated albums', () => {
+    expect(albumCursor({ ...album, event_date: null })).toBe('2024-08-19|2024-08-19T08:00:00.000Z|a1');
+  });
+});
@@ -0,0 +1,30 @@
+import { Album, AuditEntry, Photo } from '../types';
+
+export const ALBUM_PAGE_SIZE = 12;
+export const PHOTO_PAGE_SIZE = 40;
+export const ADMIN_ALBUM_PAGE_SIZE = 20;
+export const AUDIT_PAGE_SIZE = 50;
+
+// Cursors join the sort keys of the last item on a page with "|". None of the keys
+// (dates, timestamps, integers, UUIDs) can contain that character.
+
+/** Albums sort newest first by (event day, created_at, id); undated albums use their upload day (UTC). */
+export const albumCursor = (album: Album): string =>
+  [album.event_date ?? album.created_at.slice(0, 10), album.created_at, album.id].join('|');
+
+/** Photos sort by (sort_order, created_at, id), ascending. */
+export const photoCursor = (photo: Photo): string =>
+  [photo.sort_order, photo.created_at, photo.id].join('|');
+
+/** Audit entries sort newest first by (created_at, id). */
+export const auditCursor = (entry: AuditEntry): string => [entry.created_at, entry.id].join('|');
+
+/**
+ * Builds a page from `limit + 1` fetched rows: the extra row only tells whether
+ * another page exists and is not returned.
+ */
+export const toPage = <T>(rows: T[], limit: number, cursorOf: (item: T) => string) => {
+  const items = rows.slice(0, limit);
+  const nextCursor = rows.length > limit && items.length > 0 ? cursorOf(items[items.length - 1]) : null;
+  return { items, nextCursor };
+};
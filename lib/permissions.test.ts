@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { StaffMember, UserRole } from '../types';
+import { can } from './permissions';
+
+const member = (role: UserRole, album_ids: string[] = []): StaffMember => ({
+  email: `${role}@sekolah.test`,
+  role,
+  album_ids,
+  created_at: '2024-07-01T00:00:00.000Z',
+});
+
+describe('can', () => {
+  it('denies everything without a staff row', () => {
+    expect(can(null, 'album.edit')).toBe(false);
+    expect(can(null, 'photo.upload', 'album-a')).toBe(false);
+  });
+
+  it('gives admins every permission', () => {
+    const admin = member('admin');
+    expect(can(admin, 'users.manage')).toBe(true);
+    expect(can(admin, 'trash.purge')).toBe(true);
+    expect(can(admin, 'photo.delete', 'album-a')).toBe(true);
+  });
+
+  it('lets editors manage albums but not users or purging', () => {
+    const editor = member('editor');
+    expect(can(editor, 'album.publish')).toBe(true);
+    expect(can(editor, 'photo.delete')).toBe(true);
+    expect(can(editor, 'users.manage')).toBe(false);
+    expect(can(editor, 'trash.purge')).toBe(false);
+    expect(can(editor, 'activity.view')).toBe(false);
+  });
+
+  it('limits contributors to uploading and editing in their assigned albums', () => {
+    const contributor = member('contributor', ['album-a']);
+    expect(can(contributor, 'photo.upload', 'album-a')).toBe(true);
+    expect(can(contributor, 'photo.edit', 'album-a')).toBe(true);
+    expect(can(contributor, 'photo.upload', 'album-b')).toBe(false);
+    expect(can(contributor, 'photo.upload')).toBe(false);
+    expect(can(contributor, 'photo.delete', 'album-a')).toBe(false);
+    expect(can(contributor, 'photo.setCover', 'album-a')).toBe(false);
+    expect(can(contributor, 'album.create')).toBe(false);
+  });
+});
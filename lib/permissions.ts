@@ -0,0 +1,32 @@
+import { StaffMember, UserRole } from '../types';
+import { t } from './i18n';
+
+export type Permission =
+  | 'album.create'
+  | 'album.edit'
+  | 'album.publish'
+  | 'album.delete'
+  | 'photo.upload'
+  | 'photo.edit'
+  | 'photo.delete'
+  | 'photo.setCover'
+  | 'users.manage'
+  | 'activity.view'
+  | 'trash.purge';
+
+export const roleLabel = (role: UserRole) => t(`role.${role}`);
+
+// Keep in sync with the row-level security policies in supabase/migrations. Deleting
+// only moves to the trash (an update); purging it for good is the actual row delete.
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: ['album.create', 'album.edit', 'album.publish', 'album.delete', 'photo.upload', 'photo.edit', 'photo.delete', 'photo.setCover', 'users.manage', 'activity.view', 'trash.purge'],
+  editor: ['album.create', 'album.edit', 'album.publish', 'album.delete', 'photo.upload', 'photo.edit', 'photo.delete', 'photo.setCover'],
+  contributor: ['photo.upload', 'photo.edit'],
+};
+
+/** Whether `staff` may do `permission`; contributors only on albums assigned to them. */
+export const can = (staff: StaffMember | null, permission: Permission, albumId?: string): boolean => {
+  if (!staff || !ROLE_PERMISSIONS[staff.role].includes(permission)) return false;
+  if (staff.role !== 'contributor') return true;
+  return albumId !== undefined && staff.album_ids.includes(albumId);
+};
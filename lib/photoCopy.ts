@@ -0,0 +1,48 @@
+import { Photo, PhotoVariants } from '../types';
+import { GalleryRepository } from './repository';
+import { photoStorageUrls } from './renditions';
+
+interface CopyPhotoOptions {
+  albumId: string;
+  sortOrder: number;
+}
+
+/**
+ * Copies a photo into another album. The copy gets its own files, so purging either
+ * photo later never breaks the other. If any step fails, files already duplicated for
+ * it are removed again before rethrowing.
+ */
+export const copyPhoto = async (
+  repository: GalleryRepository,
+  photo: Photo,
+  { albumId, sortOrder }: CopyPhotoOptions
+): Promise<Photo> => {
+  const originals = photoStorageUrls(photo);
+  const copies = new Map<string, string>();
+
+  try {
+    for (const url of originals) copies.set(url, await repository.storage.copy(url));
+    const variants: PhotoVariants | null = photo.variants
+      ? Object.fromEntries(Object.entries(photo.variants).map(([name, variant]) => [name, { ...variant!, url: copies.get(variant!.url)! }]))
+      : null;
+
+    const [copy] = await repository.photos.insert([{
+      album_id: albumId,
+      image_url: copies.get(photo.image_url)!,
+      caption: photo.caption,
+      alt_text: photo.alt_text,
+      variants,
+      taken_at: photo.taken_at,
+      metadata: photo.metadata,
+      content_hash: photo.content_hash ?? null,
+      perceptual_hash: photo.perceptual_hash ?? null,
+      sort_order: sortOrder,
+    }]);
+    return copy;
+  } catch (error) {
+    // Never the originals, even where the store handed the same URL back.
+    const stored = [...copies.values()].filter(url => !originals.includes(url));
+    if (stored.length > 0) await repository.storage.remove(stored).catch(console.error);
+    throw error;
+  }
+};
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { renditionFileName } from './renditions';
+
+describe('renditionFileName', () => {
+  it('adds the rendition name before the extension', () => {
+    expect(renditionFileName('abc-foto.webp', 'small')).toBe('abc-foto-small.webp');
+    expect(renditionFileName('a.b.jpg', 'medium')).toBe('a.b-medium.jpg');
+  });
+
+  it('appends the name to files without an extension', () => {
+    expect(renditionFileName('abc', 'small')).toBe('abc-small');
+  });
+
+  it('keeps the original name for the large rendition', () => {
+    expect(renditionFileName('abc-foto.webp', 'large')).toBe('abc-foto.webp');
+  });
+});
@@ -0,0 +1,51 @@
+import { Photo, PhotoVariantName, PhotoVariants } from '../types';
+import { compressImage, CompressedImage, CompressionOptions } from './imageCompression';
+
+// Longest edge of the smaller renditions. "large" is the uploaded photo itself.
+export const RENDITION_SIZES: Record<Exclude<PhotoVariantName, 'large'>, number> = {
+  small: 480,
+  medium: 1280,
+};
+
+export interface Rendition extends CompressedImage {
+  name: PhotoVariantName;
+}
+
+/**
+ * Builds the small and medium renditions from an already compressed photo.
+ * Sizes the source is not bigger than are skipped rather than duplicated.
+ */
+export const createRenditions = async (
+  large: CompressedImage,
+  options: Omit<CompressionOptions, 'maxDimension'>
+): Promise<Rendition[]> => {
+  const renditions: Rendition[] = [{ name: 'large', ...large }];
+  for (const [name, maxDimension] of Object.entries(RENDITION_SIZES) as [PhotoVariantName, number][]) {
+    if (Math.max(large.width, large.height) <= maxDimension) continue;
+    const rendition = await compressImage(large.file, { ...options, maxDimension });
+    if (rendition.width === large.width) continue;
+    renditions.push({ name, ...rendition });
+  }
+  return renditions;
+};
+
+// "abc-foto.webp" → "abc-foto-small.webp"; the large rendition keeps the original name.
+export const renditionFileName = (fileName: string, name: PhotoVariantName) => {
+  if (name === 'large') return fileName;
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? `${fileName}-${name}` : `${fileName.slice(0, dot)}-${name}${fileName.slice(dot)}`;
+};
+
+/** Every storage URL a photo occupies, so deleting it leaves no orphaned renditions behind. */
+export const photoStorageUrls = (photo: Pick<Photo, 'image_url' | 'variants'>): string[] => {
+  const urls = Object.values(photo.variants ?? {}).map(variant => variant!.url);
+  return [...new Set([photo.image_url, ...urls])];
+};
+
+/** `srcset` candidates ordered from smallest to largest. */
+export const variantSrcSet = (variants: PhotoVariants | null | undefined): string | undefined => {
+  const candidates = Object.values(variants ?? {})
+    .filter((variant): variant is NonNullable<typeof variant> => !!variant)
+    .sort((a, b) => a.width - b.width);
+  return candidates.length > 0 ? candidates.map(v => `${v.url} ${v.width}w`).join(', ') : undefined;
+};
@@ -0,0 +1,165 @@
+import { Album, AlbumStatus, AuditAction, AuditEntry, Photo, PhotoSearchResult, TrashedPhoto, Tag, StaffMember, UserRole, AuthSession } from '../types';
+
+// Thrown by every repository method when the backing store reports a failure.
+export class RepositoryError extends Error {
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'RepositoryError';
+  }
+}
+
+export type AlbumInput = Pick<Album, 'title' | 'description'> & Partial<Pick<Album, 'event_date' | 'location' | 'status' | 'publish_at' | 'allow_download' | 'translations'>>;
+export type AlbumUpdate = Partial<Pick<Album, 'title' | 'description' | 'cover_image_url' | 'event_date' | 'location' | 'status' | 'publish_at' | 'allow_download' | 'translations'>>;
+export type PhotoInput = Pick<Photo, 'album_id' | 'image_url'> & Partial<Pick<Photo, 'caption' | 'alt_text' | 'variants' | 'taken_at' | 'metadata' | 'content_hash' | 'perceptual_hash' | 'sort_order'>>;
+export type PhotoUpdate = Partial<Pick<Photo, 'caption' | 'alt_text'>>;
+
+export interface PageRequest {
+  // Opaque cursor from the previous page; omit for the first page.
+  cursor?: string | null;
+  limit: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  // Null on the last page.
+  nextCursor: string | null;
+}
+
+export interface AlbumFilter {
+  // Only albums carrying the tag with this slug.
+  tagSlug?: string;
+  // Omitted by public pages, which only see published albums that are already live.
+  // The admin asks for one status or for 'all'.
+  status?: AlbumStatus | 'all';
+}
+
+// Listings, counts and searches leave trashed albums and photos out.
+export interface AlbumRepository {
+  listWithPhotoCount(filter?: AlbumFilter): Promise<Album[]>;
+  // Same order and shape as listWithPhotoCount, one page at a time.
+  listPage(filter: AlbumFilter, page: PageRequest): Promise<Page<Album>>;
+  count(filter?: AlbumFilter): Promise<number>;
+  // Public albums whose title or description contain every term of `query`.
+  search(query: string): Promise<Album[]>;
+  // Any status, trashed or not; callers showing it publicly check isAlbumPublic.
+  get(id: string): Promise<Album>;
+  create(input: AlbumInput): Promise<Album>;
+  update(id: string, changes: AlbumUpdate): Promise<void>;
+  // Most recently trashed first.
+  listTrashed(): Promise<Album[]>;
+  trash(id: string): Promise<void>;
+  restore(id: string): Promise<void>;
+  // Permanent. Photos belonging to the album are removed with it; their files are not.
+  remove(id: string): Promise<void>;
+}
+
+export interface PhotoRepository {
+  // Ordered by sort_order, then upload time.
+  // `includeTrashed` is for purging, which must also clean up the trashed photos' files.
+  listByAlbum(albumId: string, options?: { includeTrashed?: boolean }): Promise<Photo[]>;
+  // Same order as listByAlbum, one page at a time.
+  listPageByAlbum(albumId: string, page: PageRequest): Promise<Page<Photo>>;
+  // Photos in public albums whose caption contains every term of `query`.
+  search(query: string): Promise<PhotoSearchResult[]>;
+  count(): Promise<number>;
+  insert(photos: PhotoInput[]): Promise<Photo[]>;
+  update(id: string, changes: PhotoUpdate): Promise<void>;
+  // Persists the album's photo order in a single call; `photoIds` lists every photo in its new position.
+  reorder(albumId: string, photoIds: string[]): Promise<void>;
+  // Appends the photo to the end of another album. If it was the source album's cover,
+  // the first photo left behind takes over. The photo's files stay where they are.
+  move(id: string, albumId: string): Promise<void>;
+  // Most recently trashed first, across all albums.
+  listTrashed(): Promise<TrashedPhoto[]>;
+  trash(id: string): Promise<void>;
+  restore(id: string): Promise<void>;
+  // Permanent; the photo's files are not removed.
+  remove(id: string): Promise<void>;
+}
+
+export interface UploadOptions {
+  // Called with the bytes sent so far as the upload progresses.
+  onProgress?: (loaded: number, total: number) => void;
+  // Aborting rejects the upload with an UploadCancelledError.
+  signal?: AbortSignal;
+}
+
+// The messages of these two are for logs; the UI shows its own translated text.
+export class UploadCancelledError extends RepositoryError {
+  constructor() {
+    super('Upload cancelled.');
+    this.name = 'UploadCancelledError';
+  }
+}
+
+// The connection dropped before the server answered, so the upload may well succeed on a retry.
+export class UploadConnectionError extends RepositoryError {
+  constructor() {
+    super('Connection lost during upload.');
+    this.name = 'UploadConnectionError';
+  }
+}
+
+export interface TagRepository {
+  // All tags, ordered by name.
+  list(): Promise<Tag[]>;
+  getBySlug(slug: string): Promise<Tag | null>;
+  // Creates the tag, or returns the existing one with the same slug.
+  create(name: string): Promise<Tag>;
+  // Replaces the album's tags with exactly `tagIds`.
+  setForAlbum(albumId: string, tagIds: string[]): Promise<void>;
+}
+
+export interface StorageRepository {
+  // Stores the file under `fileName` and resolves with its public URL.
+  upload(fileName: string, file: Blob, options?: UploadOptions): Promise<string>;
+  // Removes the files behind the given public URLs.
+  remove(publicUrls: string[]): Promise<void>;
+  // Duplicates the file behind a public URL and resolves with the copy's URL.
+  copy(publicUrl: string): Promise<string>;
+}
+
+export type AuthStateListener = (session: AuthSession | null) => void;
+
+export type StaffUpdate = Partial<Pick<StaffMember, 'role' | 'album_ids'>>;
+
+export interface StaffRepository {
+  // Null when the email has no staff row.
+  getByEmail(email: string): Promise<StaffMember | null>;
+  list(): Promise<StaffMember[]>;
+  // Creates the sign-in account with an initial password and the staff row that grants access.
+  invite(email: string, password: string, role: UserRole): Promise<StaffMember>;
+  update(email: string, changes: StaffUpdate): Promise<void>;
+  // Revokes admin access; the sign-in account itself is kept.
+  remove(email: string): Promise<void>;
+}
+
+export interface AuditFilter {
+  actorEmail?: string;
+  albumId?: string;
+  action?: AuditAction;
+}
+
+// Entries are written by the backing store whenever albums or photos change.
+export interface AuditRepository {
+  // Newest first.
+  list(filter: AuditFilter, page: PageRequest): Promise<Page<AuditEntry>>;
+}
+
+export interface AuthRepository {
+  getSession(): Promise<AuthSession | null>;
+  // Returns an unsubscribe function.
+  onAuthStateChange(listener: AuthStateListener): () => void;
+  signInWithPassword(email: string, password: string): Promise<AuthSession>;
+  signOut(): Promise<void>;
+}
+
+export interface GalleryRepository {
+  albums: AlbumRepository;
+  photos: PhotoRepository;
+  tags: TagRepository;
+  storage: StorageRepository;
+  staff: StaffRepository;
+  audit: AuditRepository;
+  auth: AuthRepository;
+}
@@ -0,0 +1,5 @@
+// Public page paths, shared by the router links and the build-time prerender.
+export const albumPath = (albumId: string) => `/gallery/${albumId}`;
+
+// Opens the album with this photo in the lightbox.
+export const photoPath = (albumId: string, photoId: string) => `/gallery/${albumId}/photo/${photoId}`;
@@ -0,0 +1,51 @@
+import { Album } from '../types';
+
+// Indonesian school years run from July to June.
+const SCHOOL_YEAR_START_MONTH = 6; // July, zero-based
+
+/** Parses "YYYY-MM-DD" as a local date, so the day never shifts with the time zone. */
+export const parseDateOnly = (value: string): Date => {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/** When the activity happened: the event date if set, otherwise the upload day. */
+export const albumDate = (album: Pick<Album, 'event_date' | 'created_at'>): Date =>
+  album.event_date ? parseDateOnly(album.event_date) : new Date(album.created_at);
+
+/** The calendar year the school year containing `date` starts in, e.g. March 2025 → 2024. */
+export const schoolYearOf = (date: Date): number =>
+  date.getMonth() >= SCHOOL_YEAR_START_MONTH ? date.getFullYear() : date.getFullYear() - 1;
+
+export const schoolYearLabel = (startYear: number) => `${startYear}/${startYear + 1}`;
+
+export interface ArchiveMonth {
+  year: number;
+  month: number;
+  albums: Album[];
+}
+
+export interface ArchiveSchoolYear {
+  startYear: number;
+  months: ArchiveMonth[];
+}
+
+/** Groups albums by school year and month, newest first at both levels. */
+export const groupBySchoolYear = (albums: Album[]): ArchiveSchoolYear[] => {
+  const years = new Map<number, Map<string, ArchiveMonth>>();
+  const sorted = [...albums].sort((a, b) => albumDate(b).getTime() - albumDate(a).getTime());
+
+  for (const album of sorted) {
+    const date = albumDate(album);
+    const startYear = schoolYearOf(date);
+    if (!years.has(startYear)) years.set(startYear, new Map());
+    const months = years.get(startYear)!;
+    const key = `${date.getFullYear()}-${date.getMonth()}`;
+    if (!months.has(key)) months.set(key, { year: date.getFullYear(), month: date.getMonth(), albums: [] });
+    months.get(key)!.albums.push(album);
+  }
+
+  return [...years.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([startYear, months]) => ({ startYear, months: [...months.values()] }));
+};
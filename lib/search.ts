@@ -0,0 +1,26 @@
+/** Lower-cased, whitespace-separated terms of a search query; empty terms are dropped. */
+export const searchTerms = (query: string): string[] =>
+  query.toLowerCase().split(/\s+/).filter(Boolean);
+
+/** True when every term occurs somewhere in `text`, mirroring `matches_all_terms` in the database. */
+export const matchesAllTerms = (text: string | null | undefined, terms: string[]): boolean => {
+  if (terms.length === 0 || !text) return false;
+  const haystack = text.toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
+
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+/** Splits `text` into matching and non-matching runs for highlighting. */
+export const splitByTerms = (text: string, terms: string[]): TextSegment[] => {
+  if (terms.length === 0) return [{ text, match: false }];
+  const escaped = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(${escaped.join('|')})`, 'gi');
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map(part => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+};
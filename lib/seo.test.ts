@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { Album, Photo } from '../types';
+import { albumDescription, albumJsonLd, escapeHtml, pageTitle, renderHead, renderSitemap, summarize } from './seo';
+
+const album: Album = {
+  id: 'a', title: 'Wisuda 2024', description: null, cover_image_url: null, created_at: '2024-06-03T08:00:00.000Z',
+  event_date: '2024-06-01', location: 'Aula', status: 'published', publish_at: null, allow_download: true,
+  tags: [{ id: 't1', name: 'Wisuda', slug: 'wisuda' }],
+};
+
+const photo: Photo = {
+  id: 'p1', album_id: 'a', image_url: 'https://example.test/p1.webp', caption: 'Lempar toga', alt_text: null,
+  variants: { small: { url: 'https://example.test/p1-small.webp', width: 480, height: 320 } },
+  taken_at: null, metadata: null, sort_order: 0, created_at: '2024-06-03T08:00:00.000Z',
+};
+
+describe('pageTitle', () => {
+  it('puts the page title before the site name', () => {
+    expect(pageTitle('SMK Contoh', 'Wisuda 2024')).toBe('Wisuda 2024 · Galeri Kegiatan SMK Contoh');
+    expect(pageTitle('SMK Contoh')).toBe('Galeri Kegiatan SMK Contoh');
+  });
+});
+
+describe('summarize', () => {
+  it('collapses whitespace', () => {
+    expect(summarize('  Upacara\n\nbendera  ')).toBe('Upacara bendera');
+  });
+
+  it('cuts long text at a word boundary', () => {
+    const summary = summarize('kata '.repeat(60));
+    expect(summary.length).toBeLessThanOrEqual(160);
+    expect(summary).toMatch(/kata…$/);
+  });
+});
+
+describe('albumDescription', () => {
+  it('describes albums without a description of their own', () => {
+    expect(albumDescription(album, 'SMK Contoh')).toBe('Dokumentasi kegiatan Wisuda 2024 di SMK Contoh.');
+    expect(albumDescription({ ...album, description: 'Pelepasan kelas XII.' }, 'SMK Contoh')).toBe('Pelepasan kelas XII.');
+  });
+});
+
+describe('renderHead', () => {
+  it('escapes every value', () => {
+    expect(escapeHtml(`<a href="x">Tom & Jerry's</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/a&gt;');
+    const head = renderHead({ title: 'A "quoted" <title>', description: 'd', siteName: 's' });
+    expect(head).toContain('<title>A &quot;quoted&quot; &lt;title&gt;</title>');
+    expect(head).toContain('<meta property="og:title" content="A &quot;quoted&quot; &lt;title&gt;" />');
+  });
+
+  it('uses a large card only when there is an image', () => {
+    expect(renderHead({ title: 't', description: 'd', siteName: 's' })).toContain('content="summary"');
+    const head = renderHead({ title: 't', description: 'd', siteName: 's', url: 'https://x.test/a', image: { url: 'https://x.test/i.webp', alt: 'i', width: 1200 } });
+    expect(head).toContain('content="summary_large_image"');
+    expect(head).toContain('<link rel="canonical" href="https://x.test/a" />');
+    expect(head).toContain('<meta property="og:image:width" content="1200" />');
+    expect(head).not.toContain('og:image:height');
+  });
+
+  it('keeps JSON-LD from closing its script tag', () => {
+    const head = renderHead({ title: 't', description: 'd', siteName: 's', jsonLd: { name: '</script><script>alert(1)' } });
+    expect(head).not.toContain('</script><script>');
+    expect(head).toContain('\\u003c/script>');
+  });
+});
+
+describe('albumJsonLd', () => {
+  it('describes the album as an image gallery', () => {
+    expect(albumJsonLd(album, [photo], 'https://x.test/gallery/a', p => `https://x.test/gallery/a/photo/${p.id}`)).toMatchObject({
+      '@type': 'ImageGallery',
+      name: 'Wisuda 2024',
+      dateCreated: '2024-06-01',
+      contentLocation: { name: 'Aula' },
+      keywords: 'Wisuda',
+      image: [{ contentUrl: 'https://example.test/p1.webp', thumbnailUrl: 'https://example.test/p1-small.webp', caption: 'Lempar toga', url: 'https://x.test/gallery/a/photo/p1' }],
+    });
+  });
+});
+
+describe('renderSitemap', () => {
+  it('lists every URL with its last modification day', () => {
+    expect(renderSitemap([{ url: 'https://x.test/?a&b', lastModified: '2024-06-03T08:00:00.000Z' }, { url: 'https://x.test/gallery' }])).toBe([
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+      '  <url><loc>https://x.test/?a&amp;b</loc><lastmod>2024-06-03</lastmod></url>',
+      '  <url><loc>https://x.test/gallery</loc></url>',
+      '</urlset>',
+      '',
+    ].join('\n'));
+  });
+});
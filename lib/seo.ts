@@ -0,0 +1,97 @@
+import { Album, Photo } from '../types';
+
+// "Wisuda 2024 · Galeri Kegiatan SMK ..."; just the site title on pages without one of their own.
+export const pageTitle = (siteName: string, title?: string) =>
+  title ? `${title} · Galeri Kegiatan ${siteName}` : `Galeri Kegiatan ${siteName}`;
+
+// Search results and link previews cut descriptions off at about this length.
+const DESCRIPTION_LENGTH = 160;
+
+/** Collapses whitespace and shortens `text` at a word boundary. */
+export const summarize = (text: string) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (flat.length <= DESCRIPTION_LENGTH) return flat;
+  return `${flat.slice(0, DESCRIPTION_LENGTH - 1).replace(/\s+\S*$/, '')}…`;
+};
+
+export const albumDescription = (album: Pick<Album, 'title' | 'description'>, siteName: string) =>
+  summarize(album.description || `Dokumentasi kegiatan ${album.title} di ${siteName}.`);
+
+export const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+export interface PageMeta {
+  title: string;
+  description: string;
+  siteName: string;
+  // Absolute; left out of the fallback page that every unknown path is served.
+  url?: string;
+  image?: { url: string; alt: string; width?: number; height?: number } | null;
+  type?: 'website' | 'article';
+  // schema.org data for search engines.
+  jsonLd?: object;
+}
+
+// A closing </script> inside the JSON would end the tag early.
+const jsonForScript = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+/** The <title> and every meta tag of a page: description, canonical link, Open Graph, Twitter card and JSON-LD. */
+export const renderHead = ({ title, description, siteName, url, image, type = 'website', jsonLd }: PageMeta): string => {
+  const meta = (attribute: 'name' | 'property', key: string, value: string | number | undefined) =>
+    value === undefined ? null : `<meta ${attribute}="${key}" content="${escapeHtml(String(value))}" />`;
+  return [
+    `<title>${escapeHtml(title)}</title>`,
+    meta('name', 'description', description),
+    url && `<link rel="canonical" href="${escapeHtml(url)}" />`,
+    meta('property', 'og:type', type),
+    meta('property', 'og:site_name', siteName),
+    meta('property', 'og:title', title),
+    meta('property', 'og:description', description),
+    meta('property', 'og:url', url),
+    meta('property', 'og:image', image?.url),
+    meta('property', 'og:image:alt', image?.alt),
+    meta('property', 'og:image:width', image?.width),
+    meta('property', 'og:image:height', image?.height),
+    meta('name', 'twitter:card', image ? 'summary_large_image' : 'summary'),
+    meta('name', 'twitter:title', title),
+    meta('name', 'twitter:description', description),
+    meta('name', 'twitter:image', image?.url),
+    jsonLd && `<script type="application/ld+json">${jsonForScript(jsonLd)}</script>`,
+  ].filter(Boolean).join('\n    ');
+};
+
+/** schema.org ImageGallery describing an album and each of its photos. */
+export const albumJsonLd = (album: Album, photos: Photo[], url: string, photoUrl: (photo: Photo) => string) => ({
+  '@context': 'https://schema.org',
+  '@type': 'ImageGallery',
+  name: album.title,
+  description: album.description ?? undefined,
+  url,
+  dateCreated: album.event_date ?? album.created_at,
+  contentLocation: album.location ? { '@type': 'Place', name: album.location } : undefined,
+  keywords: album.tags?.map(tag => tag.name).join(', ') || undefined,
+  image: photos.map(photo => ({
+    '@type': 'ImageObject',
+    contentUrl: photo.image_url,
+    thumbnailUrl: photo.variants?.small?.url,
+    url: photoUrl(photo),
+    caption: photo.caption ?? undefined,
+    description: photo.alt_text ?? undefined,
+    dateCreated: photo.taken_at ?? undefined,
+  })),
+});
+
+export interface SitemapEntry {
+  url: string;
+  // ISO timestamp.
+  lastModified?: string;
+}
+
+export const renderSitemap = (entries: SitemapEntry[]) => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+  ...entries.map(({ url, lastModified }) =>
+    `  <url><loc>${escapeHtml(url)}</loc>${lastModified ? `<lastmod>${lastModified.slice(0, 10)}</lastmod>` : ''}</url>`),
+  '</urlset>',
+  '',
+].join('\n');
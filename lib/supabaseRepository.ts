@@ -0,0 +1,289 @@
+import { createClient, SupabaseClient, Session } from '@supabase/supabase-js';
+import { getSupabase } from './supabase';
+import { getConfig } from './config';
+import { Album, AuditEntry, Photo, PhotoSearchResult, TrashedPhoto, Tag, StaffMember, UserRole, AuthSession } from '../types';
+import { slugify } from './tags';
+import { toPage, albumCursor, photoCursor, auditCursor } from './pagination';
+import { GalleryRepository, RepositoryError, UploadCancelledError, UploadConnectionError, UploadOptions } from './repository';
+
+const toAuthSession = (session: Session | null): AuthSession | null =>
+  session ? { user: { id: session.user.id, email: session.user.email ?? null } } : null;
+
+interface StaffRow {
+  email: string;
+  role: UserRole;
+  created_at: string;
+  staff_albums: { album_id: string }[];
+}
+const STAFF_COLUMNS = 'email, role, created_at, staff_albums(album_id)';
+const toStaffMember = ({ staff_albums, ...row }: StaffRow): StaffMember => ({
+  ...row,
+  album_ids: staff_albums.map(a => a.album_id),
+});
+
+// Unwraps a Supabase `{ data, error }` response, throwing on error.
+const unwrap = <T>(result: { data: T | null; error: { message: string } | null }): T => {
+  if (result.error) throw new RepositoryError(result.error.message, result.error);
+  return result.data as T;
+};
+
+// supabase-js does not report upload progress, so files go straight to the Storage REST API over XHR.
+const uploadWithProgress = (url: string, file: Blob, headers: Record<string, string>, { onProgress, signal }: UploadOptions) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new UploadCancelledError());
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', url);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress?.(e.loaded, e.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) return resolve();
+      let message = xhr.statusText || `HTTP ${xhr.status}`;
+      try {
+        message = JSON.parse(xhr.responseText).message ?? message;
+      } catch {
+        // Not a JSON error body; keep the status text.
+      }
+      reject(new RepositoryError(message));
+    };
+    xhr.onerror = () => reject(new UploadConnectionError());
+    xhr.onabort = () => reject(new UploadCancelledError());
+    signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+    xhr.send(file);
+  });
+
+// The object path inside the bucket behind one of its public URLs. Public URLs are
+// percent-encoded, and the storage API expects the path as it was stored.
+const objectPathOf = (publicUrl: string, bucket: string) =>
+  (publicUrl.split(`/${bucket}/`).pop() as string).split('/').map(decodeURIComponent).join('/');
+
+interface SupabaseRepositoryOptions {
+  client?: SupabaseClient;
+  bucket?: string;
+  url?: string;
+  anonKey?: string;
+}
+
+export const createSupabaseRepository = ({
+  client = getSupabase(),
+  bucket = getConfig().storageBucket,
+  url = getConfig().supabaseUrl,
+  anonKey = getConfig().supabaseAnonKey,
+}: SupabaseRepositoryOptions = {}): GalleryRepository => ({
+  albums: {
+    async listWithPhotoCount(filter = {}) {
+      return unwrap<Album[]>(await client.rpc('get_albums_with_photo_count', {
+        p_tag_slug: filter.tagSlug ?? null,
+        p_status: filter.status ?? null,
+      })) ?? [];
+    },
+    async listPage(filter, { cursor, limit }) {
+      const rows = unwrap<Album[]>(await client.rpc('get_albums_page', {
+        p_limit: limit + 1,
+        p_cursor: cursor ?? null,
+        p_tag_slug: filter.tagSlug ?? null,
+        p_status: filter.status ?? null,
+      })) ?? [];
+      return toPage(rows, limit, albumCursor);
+    },
+    async count(filter = {}) {
+      let query = client.from('albums').select('*', { count: 'exact', head: true }).is('deleted_at', null);
+      if (filter.status === undefined) {
+        query = query.eq('status', 'published').or(`publish_at.is.null,publish_at.lte.${new Date().toISOString()}`);
+      } else if (filter.status !== 'all') {
+        query = query.eq('status', filter.status);
+      }
+      const { count, error } = await query;
+      if (error) throw new RepositoryError(error.message, error);
+      return count || 0;
+    },
+    async search(query) {
+      return unwrap<Album[]>(await client.rpc('search_albums', { q: query })) ?? [];
+    },
+    async get(id) {
+      return unwrap<Album>(await client.from('albums').select('*, tags(id, name, slug)').eq('id', id).single());
+    },
+    async create(input) {
+      return unwrap<Album>(await client.from('albums').insert(input).select().single());
+    },
+    async update(id, changes) {
+      unwrap(await client.from('albums').update(changes).eq('id', id));
+    },
+    async listTrashed() {
+      const query = client.from('albums').select('*').not('deleted_at', 'is', null).order('deleted_at', { ascending: false });
+      return unwrap<Album[]>(await query) ?? [];
+    },
+    async trash(id) {
+      unwrap(await client.from('albums').update({ deleted_at: new Date().toISOString() }).eq('id', id));
+    },
+    async restore(id) {
+      unwrap(await client.from('albums').update({ deleted_at: null }).eq('id', id));
+    },
+    async remove(id) {
+      unwrap(await client.from('albums').delete().eq('id', id));
+    },
+  },
+
+  photos: {
+    async listByAlbum(albumId, { includeTrashed = false } = {}) {
+      let query = client.from('photos').select('*').eq('album_id', albumId);
+      if (!includeTrashed) query = query.is('deleted_at', null);
+      return unwrap<Photo[]>(await query
+        .order('sort_order', { ascending: true })
+        .order('created_at', { ascending: true })) ?? [];
+    },
+    async listPageByAlbum(albumId, { cursor, limit }) {
+      const rows = unwrap<Photo[]>(await client.rpc('get_photos_page', {
+        p_album_id: albumId,
+        p_limit: limit + 1,
+        p_cursor: cursor ?? null,
+      })) ?? [];
+      return toPage(rows, limit, photoCursor);
+    },
+    async search(query) {
+      return unwrap<PhotoSearchResult[]>(await client.rpc('search_photos', { q: query })) ?? [];
+    },
+    async count() {
+      const { count, error } = await client.from('photos').select('*', { count: 'exact', head: true }).is('deleted_at', null);
+      if (error) throw new RepositoryError(error.message, error);
+      return count || 0;
+    },
+    async insert(photos) {
+      return unwrap<Photo[]>(await client.from('photos').insert(photos).select()) ?? [];
+    },
+    async update(id, changes) {
+      unwrap(await client.from('photos').update(changes).eq('id', id));
+    },
+    async reorder(albumId, photoIds) {
+      unwrap(await client.rpc('reorder_photos', { p_album_id: albumId, p_photo_ids: photoIds }));
+    },
+    async move(id, albumId) {
+      unwrap(await client.rpc('move_photo', { p_photo_id: id, p_album_id: albumId }));
+    },
+    async listTrashed() {
+      const query = client.from('photos').select('*, albums(title)').not('deleted_at', 'is', null).order('deleted_at', { ascending: false });
+      const rows = unwrap<(Omit<TrashedPhoto, 'album_title'> & { albums: { title: string } | null })[]>(await query) ?? [];
+      return rows.map(({ albums, ...photo }) => ({ ...photo, album_title: albums?.title ?? '' }));
+    },
+    async trash(id) {
+      unwrap(await client.from('photos').update({ deleted_at: new Date().toISOString() }).eq('id', id));
+    },
+    async restore(id) {
+      unwrap(await client.from('photos').update({ deleted_at: null }).eq('id', id));
+    },
+    async remove(id) {
+      unwrap(await client.from('photos').delete().eq('id', id));
+    },
+  },
+
+  tags: {
+    async list() {
+      return unwrap<Tag[]>(await client.from('tags').select('id, name, slug').order('name')) ?? [];
+    },
+    async getBySlug(slug) {
+      return unwrap<Tag | null>(await client.from('tags').select('id, name, slug').eq('slug', slug).maybeSingle());
+    },
+    async create(name) {
+      const tag = { name: name.trim(), slug: slugify(name) };
+      const existing = unwrap<Tag | null>(await client.from('tags').select('id, name, slug').eq('slug', tag.slug).maybeSingle());
+      if (existing) return existing;
+      return unwrap<Tag>(await client.from('tags').insert(tag).select('id, name, slug').single());
+    },
+    async setForAlbum(albumId, tagIds) {
+      unwrap(await client.rpc('set_album_tags', { p_album_id: albumId, p_tag_ids: tagIds }));
+    },
+  },
+
+  storage: {
+    async upload(fileName, file, options = {}) {
+      const { data: { session } } = await client.auth.getSession();
+      const objectPath = fileName.split('/').map(encodeURIComponent).join('/');
+      await uploadWithProgress(`${url.replace(/\/$/, '')}/storage/v1/object/${bucket}/${objectPath}`, file, {
+        apikey: anonKey,
+        authorization: `Bearer ${session?.access_token ?? anonKey}`,
+        'content-type': file.type || 'application/octet-stream',
+        'x-upsert': 'false',
+      }, options);
+      const { data } = client.storage.from(bucket).getPublicUrl(fileName);
+      if (!data.publicUrl) throw new RepositoryError('Could not get public URL for the uploaded file.');
+      return data.publicUrl;
+    },
+    async remove(publicUrls) {
+      const filePaths = publicUrls
+        .map(url => objectPathOf(url, bucket))
+        .filter(Boolean);
+      if (filePaths.length === 0) return;
+      unwrap(await client.storage.from(bucket).remove(filePaths));
+    },
+    async copy(publicUrl) {
+      const fromPath = objectPathOf(publicUrl, bucket);
+      const toPath = `${crypto.randomUUID()}-${fromPath.split('/').pop()}`;
+      unwrap(await client.storage.from(bucket).copy(fromPath, toPath));
+      return client.storage.from(bucket).getPublicUrl(toPath).data.publicUrl;
+    },
+  },
+
+  staff: {
+    async getByEmail(email) {
+      const row = unwrap<StaffRow | null>(await client.from('staff').select(STAFF_COLUMNS).eq('email', email.toLowerCase()).maybeSingle());
+      return row ? toStaffMember(row) : null;
+    },
+    async list() {
+      return (unwrap<StaffRow[]>(await client.from('staff').select(STAFF_COLUMNS).order('email')) ?? []).map(toStaffMember);
+    },
+    async invite(email, password, role) {
+      const normalized = email.trim().toLowerCase();
+      // A throwaway client, so signing the new account up does not replace the admin's own session.
+      const signUpClient = createClient(url, anonKey, {
+        auth: { persistSession: false, autoRefreshToken: false, detectSessionInUrl: false },
+      });
+      const { error } = await signUpClient.auth.signUp({ email: normalized, password });
+      // An existing account only needs the staff row.
+      if (error && error.code !== 'user_already_exists') throw new RepositoryError(error.message, error);
+      return toStaffMember(unwrap<StaffRow>(await client.from('staff').insert({ email: normalized, role }).select(STAFF_COLUMNS).single()));
+    },
+    async update(email, { album_ids, ...changes }) {
+      if (Object.keys(changes).length > 0) unwrap(await client.from('staff').update(changes).eq('email', email));
+      if (album_ids) unwrap(await client.rpc('set_staff_albums', { p_email: email, p_album_ids: album_ids }));
+    },
+    async remove(email) {
+      unwrap(await client.from('staff').delete().eq('email', email));
+    },
+  },
+
+  audit: {
+    async list(filter, { cursor, limit }) {
+      const rows = unwrap<AuditEntry[]>(await client.rpc('get_audit_log', {
+        p_limit: limit + 1,
+        p_cursor: cursor ?? null,
+        p_actor_email: filter.actorEmail ?? null,
+        p_album_id: filter.albumId ?? null,
+        p_action: filter.action ?? null,
+      })) ?? [];
+      return toPage(rows, limit, auditCursor);
+    },
+  },
+
+  auth: {
+    async getSession() {
+      const { data: { session } } = await client.auth.getSession();
+      return toAuthSession(session);
+    },
+    onAuthStateChange(listener) {
+      const { data: { subscription } } = client.auth.onAuthStateChange((_event, session) => {
+        listener(toAuthSession(session));
+      });
+      return () => subscription?.unsubscribe();
+    },
+    async signInWithPassword(email, password) {
+      const { data, error } = await client.auth.signInWithPassword({ email, password });
+      if (error) throw new RepositoryError(error.message, error);
+      return toAuthSession(data.session) as AuthSession;
+    },
+    async signOut() {
+      const { error } = await client.auth.signOut();
+      if (error) throw new RepositoryError(error.message, error);
+    },
+  },
+});
@@ -0,0 +1,8 @@
+/** URL-safe slug for a tag name: "Hari Guru 2024" → "hari-guru-2024". */
+export const slugify = (name: string): string =>
+  name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Album, Photo } from '../types';
+import { createMemoryRepository } from './memoryRepository';
+import { daysUntilPurge, purgeAlbum, purgeExpiredTrash } from './trash';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS).toISOString();
+
+const album = (id: string, deleted_at: string | null = null): Album => ({
+  id, title: id, description: null, cover_image_url: null, created_at: '2024-09-01T08:00:00.000Z',
+  event_date: null, location: null, status: 'published', publish_at: null, allow_download: true, deleted_at,
+});
+
+const photo = (id: string, album_id: string, deleted_at: string | null = null): Photo => ({
+  id, album_id, image_url: `https://example.test/${id}.webp`, caption: null, alt_text: null,
+  variants: { small: { url: `https://example.test/${id}-small.webp`, width: 480, height: 360 } },
+  taken_at: null, metadata: null, sort_order: 0, created_at: '2024-09-01T08:00:00.000Z', deleted_at,
+});
+
+describe('daysUntilPurge', () => {
+  const now = new Date('2024-10-01T12:00:00.000Z');
+
+  it('counts whole days left, rounding up', () => {
+    expect(daysUntilPurge('2024-10-01T12:00:00.000Z', 30, now)).toBe(30);
+    expect(daysUntilPurge('2024-09-30T18:00:00.000Z', 30, now)).toBe(30);
+    expect(daysUntilPurge('2024-09-01T13:00:00.000Z', 30, now)).toBe(1);
+  });
+
+  it('is 0 once the retention period is over', () => {
+    expect(daysUntilPurge('2024-09-01T12:00:00.000Z', 30, now)).toBe(0);
+    expect(daysUntilPurge('2024-01-01T00:00:00.000Z', 30, now)).toBe(0);
+  });
+});
+
+describe('purgeAlbum', () => {
+  it('removes the files of every photo, trashed ones included, then the album', async () => {
+    const repository = createMemoryRepository({
+      albums: [album('a')],
+      photos: [photo('p1', 'a'), photo('p2', 'a', daysAgo(1))],
+    });
+    const remove = vi.spyOn(repository.storage, 'remove');
+    await purgeAlbum(repository, 'a');
+    expect(remove.mock.calls[0][0]).toHaveLength(4);
+    await expect(repository.albums.get('a')).rejects.toThrow();
+  });
+});
+
+describe('purgeExpiredTrash', () => {
+  it('purges what has been in the trash too long, once per page load', async () => {
+    const repository = createMemoryRepository({
+      albums: [album('old', daysAgo(31)), album('recent', daysAgo(5)), album('live')],
+      photos: [
+        photo('in-old-album', 'old', daysAgo(40)),
+        photo('old-photo', 'live', daysAgo(30)),
+        photo('recent-photo', 'live', daysAgo(29)),
+      ],
+    });
+    // The photo in the expiring album goes with it rather than on its own.
+    expect(await purgeExpiredTrash(repository, 30)).toBe(2);
+    expect((await repository.albums.listTrashed()).map(a => a.id)).toEqual(['recent']);
+    expect((await repository.photos.listTrashed()).map(p => p.id)).toEqual(['recent-photo']);
+    expect(await purgeExpiredTrash(repository, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,49 @@
+import { Photo } from '../types';
+import { GalleryRepository } from './repository';
+import { photoStorageUrls } from './renditions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Whole days left before a trashed item is purged; 0 once it is due. */
+export const daysUntilPurge = (deletedAt: string, retentionDays: number, now = new Date()) =>
+  Math.max(0, Math.ceil((Date.parse(deletedAt) + retentionDays * DAY_MS - now.getTime()) / DAY_MS));
+
+/** Deletes an album for good: the files of all its photos, trashed ones included, then the row. */
+export const purgeAlbum = async (repository: GalleryRepository, albumId: string) => {
+  const photos = await repository.photos.listByAlbum(albumId, { includeTrashed: true });
+  if (photos.length > 0) await repository.storage.remove(photos.flatMap(photoStorageUrls));
+  await repository.albums.remove(albumId);
+};
+
+/** Deletes a photo for good, files first so a failure leaves the row to retry from. */
+export const purgePhoto = async (repository: GalleryRepository, photo: Pick<Photo, 'id' | 'image_url' | 'variants'>) => {
+  await repository.storage.remove(photoStorageUrls(photo));
+  await repository.photos.remove(photo.id);
+};
+
+// The admin app purges on its own; this keeps it to once per page load.
+let autoPurge: Promise<number> | null = null;
+
+/**
+ * Permanently deletes everything that has been in the trash for `retentionDays` or
+ * longer and resolves to how many items went. Later calls wait for the same run and
+ * resolve to 0, so only the first caller reports it. Failed items stay for the next load.
+ */
+export const purgeExpiredTrash = (repository: GalleryRepository, retentionDays: number): Promise<number> => {
+  if (autoPurge) return autoPurge.then(() => 0, () => 0);
+  autoPurge = (async () => {
+    const [albums, photos] = await Promise.all([repository.albums.listTrashed(), repository.photos.listTrashed()]);
+    const expiredAlbums = albums.filter(a => a.deleted_at && daysUntilPurge(a.deleted_at, retentionDays) === 0);
+    const expiredAlbumIds = new Set(expiredAlbums.map(a => a.id));
+    // Photos inside an expiring album go with it.
+    const expiredPhotos = photos.filter(p => !expiredAlbumIds.has(p.album_id) && daysUntilPurge(p.deleted_at, retentionDays) === 0);
+    const results = await Promise.allSettled([
+      ...expiredAlbums.map(a => purgeAlbum(repository, a.id)),
+      ...expiredPhotos.map(p => purgePhoto(repository, p)),
+    ]);
+    results.filter((r): r is PromiseRejectedResult => r.status === 'rejected')
+      .forEach(r => console.error('Error purging expired trash:', r.reason));
+    return results.filter(r => r.status === 'fulfilled').length;
+  })();
+  return autoPurge;
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createMemoryRepository } from './memoryRepository';
+import { RepositoryError } from './repository';
+import { Rendition } from './renditions';
+import { UploadableFile, canRetry, totalBytes, uploadPhoto } from './uploadQueue';
+
+const file = (name: string, size: number) => new File([new Uint8Array(size)], name, { type: 'image/webp' });
+
+const queued = (overrides: Partial<UploadableFile> = {}): UploadableFile => ({
+  id: 'item',
+  file: file('foto upacara.webp', 300),
+  originalSize: 1000,
+  previewUrl: '',
+  status: 'queued',
+  uploadedBytes: 0,
+  ...overrides,
+});
+
+const renditions = (): Rendition[] => [
+  { name: 'small', file: file('small.webp', 10), width: 480, height: 360 },
+  { name: 'medium', file: file('medium.webp', 100), width: 1280, height: 960 },
+  { name: 'large', file: file('large.webp', 300), width: 2000, height: 1500 },
+];
+
+const albumSeed = () => ({
+  albums: [{
+    id: 'a', title: 'A', description: null, cover_image_url: null, created_at: '2024-09-01T08:00:00.000Z',
+    event_date: null, location: null, status: 'published' as const, publish_at: null, allow_download: true,
+  }],
+});
+
+describe('totalBytes', () => {
+  it('counts every rendition once processing is done', () => {
+    expect(totalBytes(queued())).toBe(300);
+    expect(totalBytes(queued({ renditions: renditions() }))).toBe(410);
+  });
+});
+
+describe('canRetry', () => {
+  it('allows failed or cancelled uploads that finished processing', () => {
+    expect(canRetry(queued({ status: 'error', renditions: renditions() }))).toBe(true);
+    expect(canRetry(queued({ status: 'cancelled', renditions: renditions() }))).toBe(true);
+    expect(canRetry(queued({ status: 'error' }))).toBe(false);
+    expect(canRetry(queued({ status: 'success', renditions: renditions() }))).toBe(false);
+  });
+});
+
+describe('uploadPhoto', () => {
+  const options = (onProgress = vi.fn()) => ({ albumId: 'a', sortOrder: 4, signal: new AbortController().signal, onProgress });
+
+  it('stores every rendition and inserts the photo with its EXIF data', async () => {
+    const repository = createMemoryRepository(albumSeed());
+    const onProgress = vi.fn();
+    const photo = await uploadPhoto(repository, queued({
+      renditions: renditions(),
+      exif: { takenAt: '2024-08-17T00:30:00.000Z', metadata: { camera: 'Canon EOS 80D' }, hasLocation: false },
+      fingerprint: { contentHash: 'abc', perceptualHash: '00ff00ff00ff00ff' },
+    }), options(onProgress));
+
+    expect(photo).toMatchObject({ album_id: 'a', sort_order: 4, taken_at: '2024-08-17T00:30:00.000Z', metadata: { camera: 'Canon EOS 80D' } });
+    expect(photo.image_url).toBe(photo.variants?.large?.url);
+    expect(photo.variants?.small).toMatchObject({ width: 480, height: 360 });
+    expect(onProgress).toHaveBeenLastCalledWith(410);
+  });
+
+  it('stores the file alone when there are no renditions, and leaves empty metadata out', async () => {
+    const repository = createMemoryRepository(albumSeed());
+    const photo = await uploadPhoto(repository, queued({ exif: { takenAt: null, metadata: {}, hasLocation: false } }), options());
+    expect(photo.variants).toBeNull();
+    expect(photo.metadata).toBeNull();
+  });
+
+  it('removes the stored files when the photo row cannot be inserted', async () => {
+    const repository = createMemoryRepository(albumSeed());
+    vi.spyOn(repository.photos, 'insert').mockRejectedValue(new RepositoryError('insert failed'));
+    const remove = vi.spyOn(repository.storage, 'remove');
+    await expect(uploadPhoto(repository, queued({ renditions: renditions() }), options())).rejects.toThrow('insert failed');
+    expect(remove).toHaveBeenCalledTimes(1);
+    expect(remove.mock.calls[0][0]).toHaveLength(3);
+  });
+});
@@ -0,0 +1,94 @@
+import { Photo, PhotoVariants } from '../types';
+import { GalleryRepository } from './repository';
+import { Rendition, renditionFileName } from './renditions';
+import { ExifData } from './exif';
+import { PhotoFingerprint, Similarity } from './duplicates';
+
+// processing → queued → pending (waiting for a free slot) → uploading → success | error | cancelled
+// A suspected duplicate waits as 'duplicate' until the user keeps it (→ queued) or skips it.
+export type UploadStatus = 'processing' | 'queued' | 'duplicate' | 'pending' | 'uploading' | 'success' | 'error' | 'cancelled';
+
+// What a queued file looks like a copy of.
+export interface DuplicateMatch {
+  similarity: Similarity;
+  previewUrl: string;
+  // e.g. "foto #3 di album"
+  label: string;
+}
+
+export interface UploadableFile {
+  id: string;
+  // The compressed file once processing finishes; the original until then.
+  file: File;
+  originalSize: number;
+  // Filled in by processing: the large rendition is `file` itself.
+  renditions?: Rendition[];
+  // Also filled in by processing; null when the file had no readable EXIF.
+  exif?: ExifData | null;
+  fingerprint?: PhotoFingerprint;
+  duplicate?: DuplicateMatch;
+  previewUrl: string;
+  status: UploadStatus;
+  error?: string;
+  uploadedBytes: number;
+}
+
+export const totalBytes = (item: UploadableFile): number =>
+  item.renditions ? item.renditions.reduce((sum, r) => sum + r.file.size, 0) : item.file.size;
+
+// Only files that finished processing can be sent again; a processing failure needs a new file.
+export const canRetry = (item: UploadableFile) =>
+  (item.status === 'error' || item.status === 'cancelled') && !!item.renditions;
+
+interface UploadPhotoOptions {
+  albumId: string;
+  sortOrder: number;
+  signal: AbortSignal;
+  onProgress: (uploadedBytes: number) => void;
+}
+
+/**
+ * Uploads every rendition of one queued file and inserts its photo row. If any
+ * step fails, files already stored for it are removed again before rethrowing.
+ */
+export const uploadPhoto = async (
+  repository: GalleryRepository,
+  item: UploadableFile,
+  { albumId, sortOrder, signal, onProgress }: UploadPhotoOptions
+): Promise<Photo> => {
+  const fileName = `${crypto.randomUUID()}-${item.file.name.replace(/\s/g, '_')}`;
+  const renditions = item.renditions ?? [];
+  const storedUrls: string[] = [];
+  let finishedBytes = 0;
+
+  try {
+    const variants: PhotoVariants = {};
+    let imageUrl = '';
+    for (const rendition of renditions.length > 0 ? renditions : [{ name: 'large' as const, file: item.file, width: 0, height: 0 }]) {
+      const url = await repository.storage.upload(renditionFileName(fileName, rendition.name), rendition.file, {
+        signal,
+        onProgress: (loaded) => onProgress(finishedBytes + loaded),
+      });
+      storedUrls.push(url);
+      finishedBytes += rendition.file.size;
+      onProgress(finishedBytes);
+      if (rendition.name === 'large') imageUrl = url;
+      variants[rendition.name] = { url, width: rendition.width, height: rendition.height };
+    }
+
+    const [photo] = await repository.photos.insert([{
+      album_id: albumId,
+      image_url: imageUrl,
+      variants: renditions.length > 0 ? variants : null,
+      taken_at: item.exif?.takenAt ?? null,
+      metadata: item.exif && Object.keys(item.exif.metadata).length > 0 ? item.exif.metadata : null,
+      content_hash: item.fingerprint?.contentHash ?? null,
+      perceptual_hash: item.fingerprint?.perceptualHash ?? null,
+      sort_order: sortOrder,
+    }]);
+    return photo;
+  } catch (error) {
+    if (storedUrls.length > 0) await repository.storage.remove(storedUrls).catch(console.error);
+    throw error;
+  }
+};
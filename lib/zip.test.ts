@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { ZipTooLargeError, createZipWriter } from './zip';
+
+interface Entry {
+  name: string;
+  crc: number;
+  time: number;
+  date: number;
+  data: string;
+}
+
+// Reads the archive back through its central directory, as an unzip tool would.
+const readZip = async (blob: Blob): Promise<Entry[]> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let at = view.getUint32(end + 16, true);
+  const entries: Entry[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(at, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(at + 28, true);
+    const local = view.getUint32(at + 42, true);
+    const size = view.getUint32(at + 24, true);
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    const dataStart = local + 30 + view.getUint16(local + 26, true);
+    entries.push({
+      name: new TextDecoder().decode(bytes.subarray(at + 46, at + 46 + nameLength)),
+      crc: view.getUint32(at + 16, true),
+      time: view.getUint16(at + 12, true),
+      date: view.getUint16(at + 14, true),
+      data: new TextDecoder().decode(bytes.subarray(dataStart, dataStart + size)),
+    });
+    at += 46 + nameLength;
+  }
+  return entries;
+};
+
+describe('createZipWriter', () => {
+  it('writes stored entries that read back with their names, data and checksums', async () => {
+    const zip = createZipWriter();
+    await zip.add('01 - Pengibaran bendera.txt', new Blob(['hello']));
+    await zip.add('02 - Upacara di aula – pagi.txt', new Blob(['']));
+    const archive = zip.finish();
+
+    expect(archive.type).toBe('application/zip');
+    expect(await readZip(archive)).toMatchObject([
+      { name: '01 - Pengibaran bendera.txt', data: 'hello', crc: 0x3610a686 },
+      { name: '02 - Upacara di aula – pagi.txt', data: '', crc: 0 },
+    ]);
+  });
+
+  it('stores the modification time in MS-DOS format', async () => {
+    const zip = createZipWriter();
+    await zip.add('a.txt', new Blob(['a']), new Date(2024, 7, 17, 7, 30, 13));
+    const [entry] = await readZip(zip.finish());
+    expect(entry.date).toBe(((2024 - 1980) << 9) | (8 << 5) | 17);
+    expect(entry.time).toBe((7 << 11) | (30 << 5) | 6);
+  });
+
+  it('writes a valid empty archive', async () => {
+    expect(await readZip(createZipWriter().finish())).toEqual([]);
+  });
+
+  it('refuses entries that would take the archive past 4 GB', async () => {
+    const zip = createZipWriter();
+    const huge = { size: 0xffffffff, arrayBuffer: async () => new ArrayBuffer(0) } as Blob;
+    await expect(zip.add('huge.jpg', huge)).rejects.toBeInstanceOf(ZipTooLargeError);
+  });
+});
@@ -0,0 +1,107 @@
+// A minimal ZIP writer. Entries are stored uncompressed: photos are already
+// compressed, so deflating them again would only cost time.
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS time and date, the only timestamps the base format knows.
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+// Bit 11: file names are UTF-8, so captions with non-ASCII characters survive.
+const UTF8_FLAG = 0x0800;
+const MAX_ZIP_BYTES = 0xffffffff;
+
+export class ZipTooLargeError extends Error {
+  constructor() {
+    super('ZIP archive exceeds 4 GB.');
+    this.name = 'ZipTooLargeError';
+  }
+}
+
+export interface ZipWriter {
+  add(name: string, data: Blob, modified?: Date): Promise<void>;
+  // The finished archive; the writer must not be used afterwards.
+  finish(): Blob;
+}
+
+/**
+ * Builds a ZIP archive entry by entry. Each entry's bytes are read once to checksum
+ * them, then the entry is folded into the archive Blob right away, so the writer keeps
+ * no reference to it and the browser is free to page it out to disk.
+ */
+export const createZipWriter = (): ZipWriter => {
+  let archive = new Blob([]);
+  const centralDirectory: Uint8Array[] = [];
+  const encoder = new TextEncoder();
+  let offset = 0;
+
+  return {
+    async add(name, data, modified = new Date()) {
+      const nameBytes = encoder.encode(name);
+      const crc = crc32(new Uint8Array(await data.arrayBuffer()));
+      const { time, date } = dosDateTime(modified);
+      if (offset + 30 + nameBytes.length + data.size > MAX_ZIP_BYTES) {
+        throw new ZipTooLargeError();
+      }
+
+      const local = new DataView(new ArrayBuffer(30));
+      local.setUint32(0, 0x04034b50, true);
+      local.setUint16(4, 20, true);
+      local.setUint16(6, UTF8_FLAG, true);
+      local.setUint16(8, 0, true);
+      local.setUint16(10, time, true);
+      local.setUint16(12, date, true);
+      local.setUint32(14, crc, true);
+      local.setUint32(18, data.size, true);
+      local.setUint32(22, data.size, true);
+      local.setUint16(26, nameBytes.length, true);
+      local.setUint16(28, 0, true);
+
+      const central = new DataView(new ArrayBuffer(46));
+      central.setUint32(0, 0x02014b50, true);
+      central.setUint16(4, 20, true);
+      central.setUint16(6, 20, true);
+      central.setUint16(8, UTF8_FLAG, true);
+      central.setUint16(10, 0, true);
+      central.setUint16(12, time, true);
+      central.setUint16(14, date, true);
+      central.setUint32(16, crc, true);
+      central.setUint32(20, data.size, true);
+      central.setUint32(24, data.size, true);
+      central.setUint16(28, nameBytes.length, true);
+      central.setUint32(42, offset, true);
+
+      archive = new Blob([archive, local.buffer, nameBytes, data]);
+      centralDirectory.push(new Uint8Array(central.buffer), nameBytes);
+      offset += 30 + nameBytes.length + data.size;
+    },
+
+    finish() {
+      const size = centralDirectory.reduce((sum, bytes) => sum + bytes.length, 0);
+      const entries = centralDirectory.length / 2;
+      const end = new DataView(new ArrayBuffer(22));
+      end.setUint32(0, 0x06054b50, true);
+      end.setUint16(8, entries, true);
+      end.setUint16(10, entries, true);
+      end.setUint32(12, size, true);
+      end.setUint32(16, offset, true);
+      return new Blob([archive, ...centralDirectory, end.buffer], { type: 'application/zip' });
+    },
+  };
+};
@@ -0,0 +1,42 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Pan and zoom of the lightbox image, applied as `translate(x, y) scale(scale)` around
+// the centre of the stage. Coordinates are screen pixels from that centre.
+export interface ZoomState {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export const NO_ZOOM: ZoomState = { scale: 1, x: 0, y: 0 };
+export const MAX_SCALE = 4;
+export const DOUBLE_TAP_SCALE = 2.5;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+/**
+ * Zooms `from` to `scale` so the image point that was under `anchor` ends up under
+ * `target`. With two fingers, `target` is where their midpoint has moved to.
+ */
+export const zoomAround = (from: ZoomState, scale: number, anchor: Point, target: Point = anchor): ZoomState => {
+  const next = clamp(scale, 1, MAX_SCALE);
+  return {
+    scale: next,
+    x: target.x - (anchor.x - from.x) * next / from.scale,
+    y: target.y - (anchor.y - from.y) * next / from.scale,
+  };
+};
+
+/** Stops panning where the edge of a `width` × `height` stage would come into view. */
+export const clampPan = (zoom: ZoomState, width: number, height: number): ZoomState => {
+  const maxX = width * (zoom.scale - 1) / 2;
+  const maxY = height * (zoom.scale - 1) / 2;
+  return { scale: zoom.scale, x: clamp(zoom.x, -maxX, maxX), y: clamp(zoom.y, -maxY, maxY) };
+};
@@ -1,32 +1,49 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { useParams, useNavigate, Link } from 'react-router-dom';
-import { supabase } from '../lib/supabase';
-import { Album, Photo } from '../types';
-import { useAuth, useToast } from '../App';
-import { Button, Input, Textarea, Spinner, TrashIcon, EditIcon, PlusIcon, LogoutIcon, StarIcon, CameraIcon, CloseIcon } from '../components/ui';
-
-// --- Type for upload queue item ---
-interface UploadableFile {
-  id: string;
-  file: File;
-  previewUrl: string;
-  status: 'queued' | 'uploading' | 'success' | 'error';
-  error?: string;
-}
+import { useParams, useNavigate, useSearchParams, Link, Navigate } from 'react-router-dom';
+import { Album, AlbumStatus, AlbumTranslation, AlbumTranslations, AuditAction, AuditEntry, Photo, TrashedPhoto, Tag, StaffMember, UserRole, Locale } from '../types';
+import { AlbumUpdate, UploadCancelledError, UploadConnectionError } from '../lib/repository';
+import { getConfig, formatMegabytes } from '../lib/config';
+import { albumDate } from '../lib/schoolYear';
+import { ADMIN_ALBUM_PAGE_SIZE, AUDIT_PAGE_SIZE } from '../lib/pagination';
+import { roleLabel } from '../lib/permissions';
+import { AUDIT_ACTIONS, auditActionLabel, describeChanges } from '../lib/audit';
+import { albumStatusLabel, AlbumDisplayStatus, displayStatus, toDateTimeLocal, fromDateTimeLocal } from '../lib/albumStatus';
+import { CanvasUnsupportedError, compressImage } from '../lib/imageCompression';
+import { readExif, compareByTakenAt } from '../lib/exif';
+import { createRenditions } from '../lib/renditions';
+import { PhotoFingerprint, contentHash, perceptualHash, compareFingerprints } from '../lib/duplicates';
+import { applyCaptionTemplate, runBatch } from '../lib/batch';
+import { copyPhoto } from '../lib/photoCopy';
+import { mergeAlbums, splitAlbum } from '../lib/albumMerge';
+import { daysUntilPurge, purgeAlbum, purgePhoto, purgeExpiredTrash } from '../lib/trash';
+import { UploadableFile, DuplicateMatch, uploadPhoto, totalBytes, canRetry } from '../lib/uploadQueue';
+import { DEFAULT_LOCALE, LOCALES, LOCALE_NAMES, formatDate, formatDateTime, formatNumber } from '../lib/i18n';
+import { useAuth, useToast, useRepository, useI18n } from '../App';
+import { Button, Input, Textarea, Spinner, DownloadAlbumButton, LanguageSwitcher, TrashIcon, EditIcon, PlusIcon, LogoutIcon, StarIcon, CameraIcon, CloseIcon, ChevronLeftIcon, ChevronRightIcon, RetryIcon, ResponsiveImage } from '../components/ui';
 
 // --- Reusable Admin Layout ---
 const AdminLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-    const { user } = useAuth();
+    const { user, staff, can } = useAuth();
+    const { locale, setLocale, t } = useI18n();
+    const repository = useRepository();
     const navigate = useNavigate();
     const addToast = useToast();
+    const canPurge = can('trash.purge');
+
+    useEffect(() => {
+        if (!canPurge) return;
+        purgeExpiredTrash(repository, getConfig().trashRetentionDays)
+            .then((count) => { if (count > 0) addToast(t('admin.expiredPurged', count), 'info'); })
+            .catch((error) => console.error('Error purging expired trash:', error));
+    }, [canPurge, repository, addToast, t]);
     
     const handleLogout = async () => {
-        const { error } = await supabase.auth.signOut();
-        if (error) {
-            addToast('Gagal logout: ' + error.message, 'error');
-        } else {
-            addToast('Anda berhasil logout.', 'success');
+        try {
+            await repository.auth.signOut();
+            addToast(t('admin.loggedOut'), 'success');
             navigate('/admin/login');
+        } catch (error: any) {
+            addToast(t('admin.logoutFailed', error.message), 'error');
         }
     };
 
@@ -35,12 +52,21 @@ const AdminLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
             <header className="bg-white shadow-sm">
                 <div className="container mx-auto px-4 sm:px-6 lg:px-8">
                     <div className="flex justify-between items-center h-16">
-                        <Link to="/admin" className="text-xl font-semibold text-gray-800">Admin Panel</Link>
+                        <div className="flex items-center space-x-6">
+                            <Link to="/admin" className="text-xl font-semibold text-gray-800">{t('admin.title')}</Link>
+                            {can('users.manage') && <Link to="/admin/users" className="text-sm font-medium text-gray-600 hover:text-brand-blue-700">{t('admin.nav.users')}</Link>}
+                            {can('album.delete') && <Link to="/admin/trash" className="text-sm font-medium text-gray-600 hover:text-brand-blue-700">{t('admin.nav.trash')}</Link>}
+                            {can('activity.view') && <Link to="/admin/activity" className="text-sm font-medium text-gray-600 hover:text-brand-blue-700">{t('admin.nav.activity')}</Link>}
+                        </div>
                         <div className="flex items-center space-x-4">
-                            <span className="text-sm text-gray-600 hidden sm:block">{user?.email}</span>
+                            <span className="text-sm text-gray-600 hidden sm:block">
+                                {user?.email}
+                                {staff && <span className="ml-2 px-2 py-0.5 rounded-full bg-brand-blue-50 text-brand-blue-700 text-xs font-medium">{roleLabel(staff.role)}</span>}
+                            </span>
+                            <LanguageSwitcher locale={locale} onChange={setLocale} />
                             <Button onClick={handleLogout} variant="secondary" className="flex items-center space-x-2">
                                 <LogoutIcon className="w-4 h-4" />
-                                <span>Logout</span>
+                                <span>{t('common.logout')}</span>
                             </Button>
                         </div>
                     </div>
@@ -61,6 +87,8 @@ export const AdminLoginPage: React.FC = () => {
     const [loading, setLoading] = useState(false);
     const navigate = useNavigate();
     const { session } = useAuth();
+    const { t } = useI18n();
+    const repository = useRepository();
     const addToast = useToast();
 
     useEffect(() => {
@@ -72,12 +100,12 @@ export const AdminLoginPage: React.FC = () => {
     const handleLogin = async (e: React.FormEvent) => {
         e.preventDefault();
         setLoading(true);
-        const { error } = await supabase.auth.signInWithPassword({ email, password });
-        if (error) {
-            addToast(error.message, 'error');
-        } else {
-            addToast('Login berhasil!', 'success');
+        try {
+            await repository.auth.signInWithPassword(email, password);
+            addToast(t('login.success'), 'success');
             navigate('/admin');
+        } catch (error: any) {
+            addToast(error.message, 'error');
         }
         setLoading(false);
     };
@@ -85,18 +113,18 @@ export const AdminLoginPage: React.FC = () => {
     return (
         <div className="flex items-center justify-center min-h-screen bg-gray-100">
             <div className="w-full max-w-md p-8 space-y-6 bg-white rounded-lg shadow-md">
-                <h2 className="text-2xl font-bold text-center text-gray-900">Admin Login</h2>
+                <h2 className="text-2xl font-bold text-center text-gray-900">{t('login.title')}</h2>
                 <form onSubmit={handleLogin} className="space-y-6">
                     <div>
-                        <label htmlFor="email" className="block text-sm font-medium text-gray-700">Email</label>
+                        <label htmlFor="email" className="block text-sm font-medium text-gray-700">{t('login.email')}</label>
                         <Input type="email" id="email" value={email} onChange={(e) => setEmail(e.target.value)} required />
                     </div>
                     <div>
-                        <label htmlFor="password" className="block text-sm font-medium text-gray-700">Password</label>
+                        <label htmlFor="password" className="block text-sm font-medium text-gray-700">{t('login.password')}</label>
                         <Input type="password" id="password" value={password} onChange={(e) => setPassword(e.target.value)} required />
                     </div>
                     <Button type="submit" disabled={loading} className="w-full flex justify-center">
-                        {loading ? <Spinner /> : 'Login'}
+                        {loading ? <Spinner /> : t('login.submit')}
                     </Button>
                 </form>
             </div>
@@ -105,242 +133,707 @@ export const AdminLoginPage: React.FC = () => {
 };
 
 
+// --- Album Status Badge ---
+const STATUS_BADGE_CLASSES: Record<AlbumDisplayStatus, string> = {
+    draft: 'bg-gray-100 text-gray-700',
+    scheduled: 'bg-amber-100 text-amber-800',
+    published: 'bg-green-100 text-green-800',
+    archived: 'bg-slate-200 text-slate-700',
+};
+const StatusBadge: React.FC<{ album: Pick<Album, 'status' | 'publish_at'> }> = ({ album }) => {
+    const { t } = useI18n();
+    const status = displayStatus(album);
+    return (
+        <span
+            className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGE_CLASSES[status]}`}
+            title={status === 'scheduled' ? t('admin.publishesAt', formatDateTime(album.publish_at!)) : undefined}
+        >
+            {albumStatusLabel(status)}
+        </span>
+    );
+};
+
+const STATUS_FILTERS: (AlbumStatus | 'all')[] = ['all', 'draft', 'published', 'archived'];
+
+// --- Merge Albums Dialog ---
+// Picks the surviving album and which title, description and cover it ends up with.
+interface MergeAlbumsDialogProps {
+    albums: Album[];
+    onMerged: () => void;
+    onClose: () => void;
+}
+const MergeAlbumsDialog: React.FC<MergeAlbumsDialogProps> = ({ albums, onMerged, onClose }) => {
+    const { t } = useI18n();
+    const repository = useRepository();
+    const addToast = useToast();
+    const ordered = [...albums].sort((a, b) => albumDate(a).getTime() - albumDate(b).getTime());
+    const [targetId, setTargetId] = useState(ordered[0].id);
+    const [title, setTitle] = useState(ordered[0].title);
+    const [descriptionFrom, setDescriptionFrom] = useState<string>(ordered.find(a => a.description)?.id ?? '');
+    const [coverImageUrl, setCoverImageUrl] = useState(ordered.find(a => a.cover_image_url)?.cover_image_url ?? null);
+    const [merging, setMerging] = useState(false);
+
+    const handleMerge = async () => {
+        if (!title.trim()) {
+            addToast(t('admin.titleRequired'), 'error');
+            return;
+        }
+        if (!window.confirm(t('merge.confirm', albums.length, title.trim()))) return;
+        setMerging(true);
+        try {
+            await mergeAlbums(repository, albums, {
+                targetId,
+                title: title.trim(),
+                description: albums.find(a => a.id === descriptionFrom)?.description ?? null,
+                coverImageUrl,
+            });
+            addToast(t('merge.done', albums.length), 'success');
+            onMerged();
+        } catch (error: any) {
+            addToast(t('merge.failed', error.message), 'error');
+            setMerging(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onClick={merging ? undefined : onClose}>
+            <div className="bg-white rounded-lg shadow-xl p-6 m-4 max-w-2xl w-full max-h-[90vh] overflow-y-auto space-y-5" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center">
+                    <h3 className="text-lg font-semibold text-gray-900">{t('merge.heading', albums.length)}</h3>
+                    <button onClick={onClose} disabled={merging} aria-label={t('common.close')} className="text-gray-400 hover:text-gray-600"><CloseIcon className="w-5 h-5" /></button>
+                </div>
+                <div>
+                    <p className="block text-sm font-medium text-gray-700 mb-2">{t('merge.target')}</p>
+                    <div className="space-y-1">
+                        {ordered.map(album => (
+                            <label key={album.id} className="flex items-center gap-2 text-sm text-gray-700">
+                                <input type="radio" name="merge-target" checked={targetId === album.id} onChange={() => { setTargetId(album.id); setTitle(album.title); }} />
+                                {album.title} <span className="text-gray-400">· {t('common.photoCount', album.photo_count ?? 0)}</span> <StatusBadge album={album} />
+                            </label>
+                        ))}
+                    </div>
+                    <p className="mt-1 text-xs text-gray-500">{t('merge.targetHint')}</p>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700">{t('field.title')}</label>
+                    <Input value={title} onChange={(e) => setTitle(e.target.value)} />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700">{t('field.description')}</label>
+                    <select
+                        value={descriptionFrom}
+                        onChange={(e) => setDescriptionFrom(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white focus:outline-none focus:ring-brand-blue-500 focus:border-brand-blue-500 sm:text-sm"
+                    >
+                        <option value="">{t('merge.noDescription')}</option>
+                        {ordered.filter(a => a.description).map(album => (
+                            <option key={album.id} value={album.id}>{t('merge.descriptionFrom', album.title, album.description!.slice(0, 60))}</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <p className="block text-sm font-medium text-gray-700 mb-2">{t('merge.cover')}</p>
+                    <div className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+                        {ordered.filter(a => a.cover_image_url).map(album => (
+                            <button
+                                key={album.id}
+                                type="button"
+                                onClick={() => setCoverImageUrl(album.cover_image_url)}
+                                aria-pressed={coverImageUrl === album.cover_image_url}
+                                className={`rounded-md overflow-hidden border-2 ${coverImageUrl === album.cover_image_url ? 'border-brand-blue-600' : 'border-transparent'}`}
+                            >
+                                <ResponsiveImage src={album.cover_image_url!} variants={album.cover_variants} sizes="150px" alt={album.title} className="w-full h-20 object-cover" />
+                            </button>
+                        ))}
+                    </div>
+                    {!albums.some(a => a.cover_image_url) && <p className="text-xs text-gray-500">{t('merge.noCovers')}</p>}
+                </div>
+                <div className="flex justify-end gap-2">
+                    <Button variant="secondary" onClick={onClose} disabled={merging}>{t('common.cancel')}</Button>
+                    <Button onClick={handleMerge} disabled={merging}>{merging ? <Spinner /> : t('merge.submit')}</Button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
 // --- Admin Dashboard Page ---
 export const AdminDashboardPage: React.FC = () => {
     const [albums, setAlbums] = useState<Album[]>([]);
+    const [statusFilter, setStatusFilter] = useState<AlbumStatus | 'all'>('all');
+    const { can } = useAuth();
     const [stats, setStats] = useState({ albumCount: 0, photoCount: 0 });
     const [loading, setLoading] = useState(true);
+    // Cursor of every page visited so far; index 0 is the first page.
+    const [pageCursors, setPageCursors] = useState<(string | null)[]>([null]);
+    const [pageIndex, setPageIndex] = useState(0);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    // Kept across pages, so albums from different pages can be merged.
+    const [selectedAlbums, setSelectedAlbums] = useState<Map<string, Album>>(new Map());
+    const [merging, setMerging] = useState(false);
+    const canMerge = can('album.edit') && can('album.delete');
+    const { t } = useI18n();
+    const repository = useRepository();
     const navigate = useNavigate();
     const addToast = useToast();
+    const cursor = pageCursors[pageIndex];
+    const pageCount = Math.max(1, Math.ceil(stats.albumCount / ADMIN_ALBUM_PAGE_SIZE));
 
     const fetchAlbumsAndStats = useCallback(async () => {
         setLoading(true);
 
-        const albumsPromise = supabase.rpc('get_albums_with_photo_count');
-        const photosCountPromise = supabase.from('photos').select('*', { count: 'exact', head: true });
-        
-        const [albumsResult, photosCountResult] = await Promise.all([albumsPromise, photosCountPromise]);
+        const [albumsResult, albumCountResult, photosCountResult] = await Promise.allSettled([
+            repository.albums.listPage({ status: statusFilter }, { cursor, limit: ADMIN_ALBUM_PAGE_SIZE }),
+            repository.albums.count({ status: statusFilter }),
+            repository.photos.count(),
+        ]);
 
-        const { data: albumsData, error: albumsError } = albumsResult;
-        const { count: photoCount, error: photoError } = photosCountResult;
+        if (albumsResult.status === 'rejected') {
+            addToast(t('admin.albumsLoadFailed', albumsResult.reason.message), 'error');
+            console.error('Error fetching albums for dashboard:', albumsResult.reason);
+        } else if (albumsResult.value.items.length === 0 && pageIndex > 0) {
+            // The last album on this page was deleted.
+            setPageIndex(pageIndex - 1);
+            return;
+        } else {
+            setAlbums(albumsResult.value.items);
+            setNextCursor(albumsResult.value.nextCursor);
+        }
 
-        if (albumsError) {
-            addToast(`Gagal memuat album: ${albumsError.message}`, 'error');
-            console.error('Error fetching albums for dashboard:', albumsError);
-        } else if (albumsData) {
-            setAlbums(albumsData as Album[]);
-            setStats(prev => ({ ...prev, albumCount: albumsData.length }));
+        if (albumCountResult.status === 'rejected') {
+            console.error('Error fetching album count for dashboard:', albumCountResult.reason);
+        } else {
+            setStats(prev => ({ ...prev, albumCount: albumCountResult.value }));
         }
 
-        if (photoError) {
-            addToast(`Gagal menghitung total foto: ${photoError.message}`, 'error');
-            console.error('Error fetching photo count for dashboard:', photoError);
+        if (photosCountResult.status === 'rejected') {
+            addToast(t('dashboard.photoCountFailed', photosCountResult.reason.message), 'error');
+            console.error('Error fetching photo count for dashboard:', photosCountResult.reason);
         } else {
-            setStats(prev => ({ ...prev, photoCount: photoCount || 0 }));
+            setStats(prev => ({ ...prev, photoCount: photosCountResult.value }));
         }
 
         setLoading(false);
-    }, [addToast]);
+    }, [repository, addToast, t, cursor, pageIndex, statusFilter]);
     
     useEffect(() => {
         fetchAlbumsAndStats();
     }, [fetchAlbumsAndStats]);
 
-    const handleDelete = async (albumId: string, albumTitle: string) => {
-        if (window.confirm(`Apakah Anda yakin ingin menghapus album "${albumTitle}" beserta semua fotonya?`)) {
-            // First, get all photo URLs to delete from storage
-            const { data: photos, error: photosError } = await supabase.from('photos').select('image_url').eq('album_id', albumId);
-            if (photosError) {
-                addToast(`Gagal mendapatkan daftar foto: ${photosError.message}`, 'error');
-                return;
-            }
+    const changeStatusFilter = (status: AlbumStatus | 'all') => {
+        setStatusFilter(status);
+        setPageCursors([null]);
+        setPageIndex(0);
+    };
 
-            // Delete from storage
-            if (photos && photos.length > 0) {
-                const filePaths = photos.map(p => p.image_url.split('/gallery/').pop() as string).filter(Boolean);
-                if (filePaths.length > 0) {
-                  const { error: storageError } = await supabase.storage.from('gallery').remove(filePaths);
-                  if (storageError) {
-                      addToast(`Gagal menghapus beberapa file: ${storageError.message}`, 'error');
-                  }
-                }
-            }
+    const goToNextPage = () => {
+        if (!nextCursor) return;
+        setPageCursors(prev => [...prev.slice(0, pageIndex + 1), nextCursor]);
+        setPageIndex(pageIndex + 1);
+    };
 
-            // Delete album from DB (photos will be deleted by cascade)
-            const { error: dbError } = await supabase.from('albums').delete().eq('id', albumId);
-            if (dbError) {
-                addToast('Gagal menghapus album: ' + dbError.message, 'error');
-            } else {
-                addToast(`Album "${albumTitle}" berhasil dihapus.`, 'success');
+    const toggleAlbumSelected = (album: Album) => {
+        setSelectedAlbums(prev => {
+            const next = new Map(prev);
+            if (next.has(album.id)) next.delete(album.id);
+            else next.set(album.id, album);
+            return next;
+        });
+    };
+
+    const handleMerged = () => {
+        setMerging(false);
+        setSelectedAlbums(new Map());
+        fetchAlbumsAndStats();
+    };
+
+    // Albums only go to the trash here; files are removed when the trash is purged.
+    const handleDelete = async (albumId: string, albumTitle: string) => {
+        if (window.confirm(t('dashboard.trashConfirm', albumTitle, getConfig().trashRetentionDays))) {
+            try {
+                await repository.albums.trash(albumId);
+                addToast(t('dashboard.trashed', albumTitle), 'success');
                 fetchAlbumsAndStats();
+            } catch (error: any) {
+                addToast(t('dashboard.trashFailed', error.message), 'error');
             }
         }
     };
     
     return (
         <AdminLayout>
-            <h1 className="text-3xl font-bold text-gray-900 mb-6">Dashboard</h1>
+            <h1 className="text-3xl font-bold text-gray-900 mb-6">{t('dashboard.title')}</h1>
 
             {/* Stats */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
-                <div className="p-6 bg-white rounded-lg shadow"><p className="text-sm font-medium text-gray-500">Total Album</p><p className="mt-1 text-3xl font-semibold text-gray-900">{stats.albumCount}</p></div>
-                <div className="p-6 bg-white rounded-lg shadow"><p className="text-sm font-medium text-gray-500">Total Foto</p><p className="mt-1 text-3xl font-semibold text-gray-900">{stats.photoCount}</p></div>
+                <div className="p-6 bg-white rounded-lg shadow"><p className="text-sm font-medium text-gray-500">{t('dashboard.totalAlbums')}</p><p className="mt-1 text-3xl font-semibold text-gray-900">{formatNumber(stats.albumCount)}</p></div>
+                <div className="p-6 bg-white rounded-lg shadow"><p className="text-sm font-medium text-gray-500">{t('dashboard.totalPhotos')}</p><p className="mt-1 text-3xl font-semibold text-gray-900">{formatNumber(stats.photoCount)}</p></div>
             </div>
 
             {/* Album List */}
             <div className="bg-white rounded-lg shadow overflow-hidden">
-                <div className="p-6 flex justify-between items-center">
-                    <h2 className="text-xl font-semibold">Manajemen Album</h2>
-                    <Button onClick={() => navigate('/admin/album/new')} className="flex items-center space-x-2">
-                        <PlusIcon className="w-4 h-4" />
-                        <span>Tambah Album</span>
-                    </Button>
+                <div className="p-6 flex flex-wrap gap-4 justify-between items-center">
+                    <h2 className="text-xl font-semibold">{t('dashboard.albums')}</h2>
+                    <div role="group" aria-label={t('dashboard.statusFilter')} className="inline-flex rounded-md shadow-sm">
+                        {STATUS_FILTERS.map(status => (
+                            <button
+                                key={status}
+                                onClick={() => changeStatusFilter(status)}
+                                aria-pressed={statusFilter === status}
+                                className={`px-3 py-1.5 text-sm font-medium border first:rounded-l-md last:rounded-r-md ${statusFilter === status ? 'bg-brand-blue-700 border-brand-blue-700 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+                            >
+                                {status === 'all' ? t('common.all') : albumStatusLabel(status)}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex items-center gap-2">
+                        {canMerge && selectedAlbums.size > 0 && (
+                            <>
+                                <button onClick={() => setSelectedAlbums(new Map())} className="text-sm font-medium text-gray-600 hover:text-gray-800">{t('admin.clearSelection')}</button>
+                                <Button variant="secondary" onClick={() => setMerging(true)} disabled={selectedAlbums.size < 2}>{t('dashboard.merge', selectedAlbums.size)}</Button>
+                            </>
+                        )}
+                        {can('album.create') && (
+                            <Button onClick={() => navigate('/admin/album/new')} className="flex items-center space-x-2">
+                                <PlusIcon className="w-4 h-4" />
+                                <span>{t('dashboard.newAlbum')}</span>
+                            </Button>
+                        )}
+                    </div>
                 </div>
                 {loading ? <div className="p-6 flex justify-center"><Spinner/></div> :
                 <div className="overflow-x-auto">
                     <table className="min-w-full divide-y divide-gray-200">
                         <thead className="bg-gray-50">
                             <tr>
-                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Judul</th>
-                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Jumlah Foto</th>
-                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tanggal Dibuat</th>
-                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Aksi</th>
+                                {canMerge && <th className="pl-6 py-3"><span className="sr-only">{t('dashboard.select')}</span></th>}
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('field.title')}</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('field.status')}</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('dashboard.photoCount')}</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('dashboard.eventDate')}</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t('admin.actions')}</th>
                             </tr>
                         </thead>
                         <tbody className="bg-white divide-y divide-gray-200">
                             {albums.map((album) => (
-                                <tr key={album.id}>
+                                <tr key={album.id} className={selectedAlbums.has(album.id) ? 'bg-brand-blue-50' : ''}>
+                                    {canMerge && (
+                                        <td className="pl-6 py-4">
+                                            <input
+                                                type="checkbox"
+                                                checked={selectedAlbums.has(album.id)}
+                                                onChange={() => toggleAlbumSelected(album)}
+                                                aria-label={t('dashboard.selectAlbum', album.title)}
+                                                className="rounded border-gray-300 text-brand-blue-600 focus:ring-brand-blue-500"
+                                            />
+                                        </td>
+                                    )}
                                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{album.title}</td>
-                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{album.photo_count}</td>
-                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{new Date(album.created_at).toLocaleDateString('id-ID')}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm"><StatusBadge album={album} /></td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatNumber(album.photo_count ?? 0)}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(albumDate(album), { dateStyle: 'medium' })}</td>
                                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
-                                        <Button variant="secondary" onClick={() => navigate(`/admin/album/${album.id}`)}><EditIcon className="w-4 h-4" /></Button>
-                                        <Button variant="danger" onClick={() => handleDelete(album.id, album.title)}><TrashIcon className="w-4 h-4" /></Button>
+                                        {(can('album.edit') || can('photo.upload', album.id)) && <Button variant="secondary" onClick={() => navigate(`/admin/album/${album.id}`)}><EditIcon className="w-4 h-4" /></Button>}
+                                        {can('album.delete') && <Button variant="danger" onClick={() => handleDelete(album.id, album.title)}><TrashIcon className="w-4 h-4" /></Button>}
                                     </td>
                                 </tr>
                             ))}
                         </tbody>
                     </table>
+                    <div className="px-6 py-3 flex items-center justify-between border-t border-gray-200 text-sm text-gray-600">
+                        <span>{t('dashboard.page', pageIndex + 1, pageCount)}</span>
+                        <div className="space-x-2">
+                            <Button variant="secondary" onClick={() => setPageIndex(pageIndex - 1)} disabled={pageIndex === 0} aria-label={t('common.previousPage')}><ChevronLeftIcon className="w-4 h-4" /></Button>
+                            <Button variant="secondary" onClick={goToNextPage} disabled={!nextCursor} aria-label={t('common.nextPage')}><ChevronRightIcon className="w-4 h-4" /></Button>
+                        </div>
+                    </div>
                 </div>}
             </div>
+            {merging && <MergeAlbumsDialog albums={[...selectedAlbums.values()]} onMerged={handleMerged} onClose={() => setMerging(false)} />}
         </AdminLayout>
     );
 };
 
 
+// --- Tag Editor ---
+// Toggles existing tags on the album and creates new ones on the fly.
+interface TagEditorProps {
+    allTags: Tag[];
+    selected: Tag[];
+    onChange: (tags: Tag[]) => void;
+    onCreate: (name: string) => Promise<Tag | null>;
+}
+const TagEditor: React.FC<TagEditorProps> = ({ allTags, selected, onChange, onCreate }) => {
+    const [newTagName, setNewTagName] = useState('');
+    const [creating, setCreating] = useState(false);
+    const { t } = useI18n();
+    const isSelected = (tag: Tag) => selected.some(s => s.id === tag.id);
+
+    const toggle = (tag: Tag) => {
+        onChange(isSelected(tag) ? selected.filter(s => s.id !== tag.id) : [...selected, tag]);
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newTagName.trim()) return;
+        setCreating(true);
+        const tag = await onCreate(newTagName);
+        setCreating(false);
+        if (tag) {
+            setNewTagName('');
+            if (!isSelected(tag)) onChange([...selected, tag]);
+        }
+    };
+
+    return (
+        <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t('tags.label')}</label>
+            <div className="flex flex-wrap gap-2 mb-2">
+                {allTags.length === 0 && <span className="text-xs text-gray-500">{t('tags.empty')}</span>}
+                {allTags.map(tag => (
+                    <button
+                        key={tag.id}
+                        type="button"
+                        onClick={() => toggle(tag)}
+                        aria-pressed={isSelected(tag)}
+                        className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${isSelected(tag) ? 'bg-brand-blue-600 border-brand-blue-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100'}`}
+                    >
+                        {tag.name}
+                    </button>
+                ))}
+            </div>
+            <form onSubmit={handleCreate} className="flex space-x-2">
+                <Input value={newTagName} onChange={(e) => setNewTagName(e.target.value)} placeholder={t('tags.newPlaceholder')} />
+                <Button type="submit" variant="secondary" disabled={creating || !newTagName.trim()}>{t('tags.add')}</Button>
+            </form>
+        </div>
+    );
+};
+
+
+// --- Album Picker ---
+// Lists the albums the user may add photos to, apart from `excludeId`.
+interface AlbumPickerProps {
+    title: string;
+    excludeId: string;
+    onPick: (album: Album) => void;
+    onClose: () => void;
+}
+const AlbumPicker: React.FC<AlbumPickerProps> = ({ title, excludeId, onPick, onClose }) => {
+    const repository = useRepository();
+    const addToast = useToast();
+    const { can } = useAuth();
+    const { t } = useI18n();
+    const [albums, setAlbums] = useState<Album[] | null>(null);
+    const [filter, setFilter] = useState('');
+
+    useEffect(() => {
+        repository.albums.listWithPhotoCount({ status: 'all' })
+            .then(setAlbums)
+            .catch((error) => {
+                addToast(t('picker.loadFailed', error.message), 'error');
+                onClose();
+            });
+    }, [repository, addToast, t, onClose]);
+
+    const visible = (albums ?? []).filter(a =>
+        a.id !== excludeId && can('photo.upload', a.id) && a.title.toLowerCase().includes(filter.trim().toLowerCase())
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onClick={onClose}>
+            <div className="bg-white rounded-lg shadow-xl p-6 m-4 max-w-lg w-full" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+                    <button onClick={onClose} aria-label={t('common.close')} className="text-gray-400 hover:text-gray-600"><CloseIcon className="w-5 h-5" /></button>
+                </div>
+                <Input value={filter} onChange={(e) => setFilter(e.target.value)} placeholder={t('picker.search')} autoFocus />
+                <div className="mt-3 max-h-80 overflow-y-auto divide-y divide-gray-100">
+                    {albums === null ? <div className="flex justify-center p-4"><Spinner /></div>
+                        : visible.length === 0 ? <p className="p-4 text-sm text-gray-500 text-center">{t('picker.empty')}</p>
+                        : visible.map(album => (
+                            <button key={album.id} onClick={() => onPick(album)} className="w-full flex items-center justify-between gap-3 px-2 py-3 text-left hover:bg-gray-50">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-medium text-gray-900 truncate">{album.title}</p>
+                                    <p className="text-xs text-gray-500">{formatDate(albumDate(album), { dateStyle: 'medium' })} · {t('common.photoCount', album.photo_count ?? 0)}</p>
+                                </div>
+                                <StatusBadge album={album} />
+                            </button>
+                        ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
 // --- Admin Album Editor Page ---
 export const AdminAlbumEditorPage: React.FC = () => {
     const { albumId } = useParams<{ albumId?: string }>();
     const isNew = !albumId;
+    const repository = useRepository();
     const navigate = useNavigate();
     const addToast = useToast();
+    const { can } = useAuth();
+    const { t } = useI18n();
+    // Contributors may only add photos and edit captions and order; the rest is read-only for them.
+    const canEditDetails = can(isNew ? 'album.create' : 'album.edit');
+    const canPublish = can('album.publish');
+    const canUpload = !isNew && can('photo.upload', albumId);
+    const canEditPhotos = !isNew && can('photo.edit', albumId);
     
-    const [album, setAlbum] = useState<Partial<Album>>({ title: '', description: '' });
+    const [album, setAlbum] = useState<Partial<Album>>({ title: '', description: '', tags: [], status: 'draft', publish_at: null });
+    const [allTags, setAllTags] = useState<Tag[]>([]);
     const [photos, setPhotos] = useState<Photo[]>([]);
     const [captions, setCaptions] = useState<Record<string, string>>({});
     const [loading, setLoading] = useState(!isNew);
     const [saving, setSaving] = useState(false);
     const [isDragging, setIsDragging] = useState(false);
     const [filesToUpload, setFilesToUpload] = useState<UploadableFile[]>([]);
+    const [orderChanged, setOrderChanged] = useState(false);
+    const [draggedPhotoId, setDraggedPhotoId] = useState<string | null>(null);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [batchCaption, setBatchCaption] = useState('');
+    const [batchAltText, setBatchAltText] = useState('');
+    const [batchProgress, setBatchProgress] = useState<{ done: number; total: number } | null>(null);
+    const [transferMode, setTransferMode] = useState<'move' | 'copy' | null>(null);
+    // Shift-click selects from here; an id rather than an index, so reordering cannot move it.
+    const selectionAnchorRef = useRef<string | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     const fetchAlbumData = useCallback(async () => {
         if (isNew) return;
         setLoading(true);
         
-        const { data: albumData, error: albumError } = await supabase.from('albums').select('*').eq('id', albumId).single();
-        if (albumError) {
-            addToast(`Gagal memuat data album: ${albumError.message}`, 'error');
-            console.error("Error fetching album data:", albumError);
+        try {
+            setAlbum(await repository.albums.get(albumId));
+        } catch (error: any) {
+            addToast(t('editor.loadFailed', error.message), 'error');
+            console.error("Error fetching album data:", error);
             navigate('/admin');
             return;
         }
-        setAlbum(albumData);
 
-        const { data: photosData, error: photosError } = await supabase.from('photos').select('*').eq('album_id', albumId).order('created_at', { ascending: true });
-        if (photosError) {
-            addToast(`Gagal memuat foto: ${photosError.message}`, 'error');
-            console.error("Error fetching photos:", photosError);
-            setPhotos([]);
-        } else if (photosData) {
+        try {
+            const photosData = await repository.photos.listByAlbum(albumId);
             setPhotos(photosData);
+            setOrderChanged(false);
+            setSelectedIds(prev => new Set(photosData.filter(p => prev.has(p.id)).map(p => p.id)));
             const initialCaptions = photosData.reduce((acc, photo) => {
                 acc[photo.id] = photo.caption || '';
                 return acc;
             }, {} as Record<string, string>);
             setCaptions(initialCaptions);
+        } catch (error: any) {
+            addToast(t('editor.photosLoadFailed', error.message), 'error');
+            console.error("Error fetching photos:", error);
+            setPhotos([]);
         }
         
         setLoading(false);
-    }, [albumId, isNew, navigate, addToast]);
+    }, [albumId, isNew, repository, navigate, addToast, t]);
     
     useEffect(() => {
         fetchAlbumData();
     }, [fetchAlbumData]);
+
+    useEffect(() => {
+        repository.tags.list()
+            .then(setAllTags)
+            .catch((error) => addToast(t('tags.loadFailed', error.message), 'error'));
+    }, [repository, addToast, t]);
+
+    const setTranslation = (locale: Locale, changes: AlbumTranslation) => {
+        setAlbum(prev => ({ ...prev, translations: { ...prev.translations, [locale]: { ...prev.translations?.[locale], ...changes } } }));
+    };
+
+    const handleCreateTag = async (name: string) => {
+        try {
+            const tag = await repository.tags.create(name);
+            setAllTags(prev => prev.some(other => other.id === tag.id) ? prev : [...prev, tag].sort((a, b) => a.name.localeCompare(b.name)));
+            return tag;
+        } catch (error: any) {
+            addToast(t('tags.createFailed', error.message), 'error');
+            return null;
+        }
+    };
     
-    // Cleanup for Object URLs to prevent memory leaks
+    // Cleanup for Object URLs to prevent memory leaks. Only on unmount: queue rows
+    // are updated in place while compressing, and their previews must stay valid.
+    const filesToUploadRef = useRef(filesToUpload);
+    filesToUploadRef.current = filesToUpload;
     useEffect(() => {
       return () => {
-        filesToUpload.forEach(f => URL.revokeObjectURL(f.previewUrl));
+        filesToUploadRef.current.forEach(f => URL.revokeObjectURL(f.previewUrl));
       }
-    }, [filesToUpload]);
+    }, []);
+    const photosRef = useRef(photos);
+    photosRef.current = photos;
 
-    const handleAlbumSave = async () => {
+    // `overrides` lets the Publish action save a status change together with pending edits.
+    const handleAlbumSave = async (overrides: Pick<AlbumUpdate, 'status' | 'publish_at'> = {}) => {
         if (!album.title) {
-            addToast('Judul album tidak boleh kosong.', 'error');
+            addToast(t('admin.titleRequired'), 'error');
             return;
         }
+        const status = overrides.status ?? album.status ?? 'draft';
+        const publishAt = status === 'published' ? ('publish_at' in overrides ? overrides.publish_at : album.publish_at) ?? null : null;
         setSaving(true);
         if (isNew) {
-            const { data, error } = await supabase.from('albums').insert({ title: album.title, description: album.description }).select().single();
-            if (error) addToast('Gagal membuat album: ' + error.message, 'error');
-            else {
-                addToast('Album berhasil dibuat.', 'success');
-                navigate(`/admin/album/${data.id}`);
+            try {
+                const created = await repository.albums.create({
+                    title: album.title,
+                    description: album.description ?? null,
+                    event_date: album.event_date || null,
+                    location: album.location || null,
+                    status,
+                    publish_at: publishAt,
+                    allow_download: album.allow_download ?? true,
+                    translations: album.translations ?? {},
+                });
+                if (album.tags?.length) await repository.tags.setForAlbum(created.id, album.tags.map(tag => tag.id));
+                addToast(t('editor.created'), 'success');
+                navigate(`/admin/album/${created.id}`);
+            } catch (error: any) {
+                addToast(t('editor.createFailed', error.message), 'error');
             }
         } else {
-            const captionUpdates = Object.keys(captions).map(photoId =>
-                supabase.from('photos').update({ caption: captions[photoId] }).eq('id', photoId)
-            );
+            // Only captions that were actually edited, so each save logs real changes only.
+            const captionUpdates = photos
+                .filter(photo => captions[photo.id] !== undefined && captions[photo.id] !== (photo.caption || ''))
+                .map(photo => repository.photos.update(photo.id, { caption: captions[photo.id] }));
+            
+            // The whole photo order goes out as one batched call, only when it was changed.
+            const orderUpdate = orderChanged ? [repository.photos.reorder(albumId as string, photos.map(p => p.id))] : [];
+
+            const detailUpdates = canEditDetails ? [
+                repository.albums.update(albumId, {
+                    title: album.title,
+                    description: album.description,
+                    event_date: album.event_date || null,
+                    location: album.location || null,
+                    allow_download: album.allow_download ?? true,
+                    translations: album.translations ?? {},
+                    ...(canPublish ? { status, publish_at: publishAt } : {}),
+                }),
+                repository.tags.setForAlbum(albumId as string, (album.tags ?? []).map(tag => tag.id)),
+            ] : [];
             
-            const [albumResult, ...captionResults] = await Promise.all([
-                supabase.from('albums').update({ title: album.title, description: album.description }).eq('id', albumId),
-                ...captionUpdates
+            const results = await Promise.allSettled([
+                ...detailUpdates,
+                ...captionUpdates,
+                ...orderUpdate
             ]);
+            const failures = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
             
-            if (albumResult.error || captionResults.some(r => r.error)) {
-                 addToast('Gagal menyimpan perubahan.', 'error');
-                 if(albumResult.error) console.error("Album update error:", albumResult.error);
+            if (failures.length > 0) {
+                 addToast(t('editor.saveFailed'), 'error');
+                 failures.forEach(f => console.error("Album update error:", f.reason));
             } else {
-                 addToast('Perubahan berhasil disimpan.', 'success');
+                 addToast(overrides.status === 'published' ? t('editor.published') : t('editor.saved'), 'success');
+                 setOrderChanged(false);
+                 setAlbum(prev => ({ ...prev, status, publish_at: publishAt }));
+                 setPhotos(prev => prev.map(p => ({ ...p, caption: captions[p.id] ?? p.caption })));
             }
         }
         setSaving(false);
     };
 
+    const handlePublish = () => {
+        if (photos.length === 0 && !window.confirm(t('editor.publishEmptyConfirm'))) return;
+        handleAlbumSave({ status: 'published', publish_at: null });
+    };
+
     const handleFileSelect = (selectedFiles: FileList | null) => {
       if (!selectedFiles) return;
 
       // FIX: Explicitly type the return of the map callback to `UploadableFile | null` to guide TypeScript's inference.
       const newFiles: UploadableFile[] = Array.from(selectedFiles).map((file): UploadableFile | null => {
           if (!file.type.startsWith('image/')) {
-              addToast(`File ${file.name} bukan gambar.`, 'error');
-              return null;
-          }
-          if (file.size > 5 * 1024 * 1024) { // 5MB limit
-              addToast(`File ${file.name} terlalu besar (> 5MB).`, 'error');
+              addToast(t('upload.notImage', file.name), 'error');
               return null;
           }
           return {
               id: crypto.randomUUID(),
               file,
+              originalSize: file.size,
               previewUrl: URL.createObjectURL(file),
-              status: 'queued',
+              status: 'processing',
+              uploadedBytes: 0,
           };
       }).filter((f): f is UploadableFile => f !== null);
 
       setFilesToUpload(prev => [...prev, ...newFiles]);
        if(fileInputRef.current) fileInputRef.current.value = "";
+      compressFiles(newFiles);
+    };
+
+    // Resize and re-encode one file at a time: decoding several 12MP photos at once exhausts memory on phones.
+    // EXIF is read from the original; re-encoding drops it from the uploaded file, so a
+    // photo with a GPS location is always re-encoded.
+    const compressFiles = async (items: UploadableFile[]) => {
+      const { maxUploadBytes, imageMaxDimension, imageQuality, imageFormat } = getConfig();
+      const processed: UploadableFile[] = [];
+      let duplicates = 0;
+      for (const item of items) {
+        let changes: Partial<UploadableFile>;
+        try {
+          const exif = await readExif(item.file);
+          const hash = await contentHash(item.file).catch(() => null);
+          const large = await compressImage(item.file, { maxDimension: imageMaxDimension, quality: imageQuality, format: imageFormat, reencode: exif?.hasLocation });
+          if (large.file.size > maxUploadBytes) {
+            changes = { file: large.file, status: 'error', error: t('upload.tooLarge', formatMegabytes(maxUploadBytes)) };
+          } else {
+            const renditions = await createRenditions(large, { quality: imageQuality, format: imageFormat });
+            // The smallest rendition looks the same as the original at 9×8 and decodes far faster.
+            const smallest = renditions.reduce((a, b) => a.file.size <= b.file.size ? a : b, large);
+            const fingerprint = { contentHash: hash, perceptualHash: await perceptualHash(smallest.file).catch(() => null) };
+            const duplicate = findDuplicate(fingerprint, item.id, processed);
+            if (duplicate) duplicates++;
+            changes = {
+              file: large.file,
+              renditions,
+              exif,
+              fingerprint,
+              duplicate,
+              status: duplicate ? 'duplicate' : 'queued',
+            };
+          }
+        } catch (error: any) {
+          changes = { status: 'error', error: t('upload.processFailed', error instanceof CanvasUnsupportedError ? t('upload.noCanvas') : error.message) };
+        }
+        processed.push({ ...item, ...changes });
+        setFilesToUpload(prev => prev.map(f => f.id === item.id ? { ...f, ...changes } : f));
+      }
+      if (duplicates > 0) {
+        addToast(t('upload.duplicatesFound', duplicates), 'info');
+      }
+    };
+
+    // The first photo already in the album or earlier in the queue that `fingerprint` matches.
+    // `processed` covers files compressed in this run that the queue state may not show yet.
+    const findDuplicate = (fingerprint: PhotoFingerprint, itemId: string, processed: UploadableFile[]): DuplicateMatch | undefined => {
+      const photoList = photosRef.current;
+      for (const [index, photo] of photoList.entries()) {
+        const similarity = compareFingerprints(fingerprint, { contentHash: photo.content_hash ?? null, perceptualHash: photo.perceptual_hash ?? null });
+        if (similarity) {
+          return { similarity, previewUrl: photo.variants?.small?.url ?? photo.image_url, label: t('upload.duplicateInAlbum', index + 1) };
+        }
+      }
+      const queued = [...filesToUploadRef.current, ...processed];
+      for (const other of queued) {
+        if (other.id === itemId || !other.fingerprint || other.status === 'cancelled' || other.status === 'success') continue;
+        const similarity = compareFingerprints(fingerprint, other.fingerprint);
+        if (similarity) return { similarity, previewUrl: other.previewUrl, label: t('upload.duplicateInQueue', other.file.name) };
+      }
+      return undefined;
+    };
+
+    const keepDuplicate = (id: string) => {
+      setFilesToUpload(prev => prev.map(f => f.id === id ? { ...f, status: 'queued', duplicate: undefined } : f));
+    };
+
+    const skipAllDuplicates = () => {
+      filesToUpload.filter(f => f.status === 'duplicate').forEach(f => removeFileFromQueue(f.id));
     };
 
     const removeFileFromQueue = (id: string) => {
@@ -352,67 +845,97 @@ export const AdminAlbumEditorPage: React.FC = () => {
         return prev.filter(f => f.id !== id);
       });
     };
-    
-    const handleUploadAll = async () => {
-      if (!albumId) return;
 
-      const filesToProcess = filesToUpload.filter(f => f.status === 'queued');
-      if (filesToProcess.length === 0) {
-        addToast('Tidak ada foto dalam antrean.', 'info');
-        return;
-      }
-      
-      // Set status to 'uploading' for all queued files
-      setFilesToUpload(prev => prev.map(f => f.status === 'queued' ? {...f, status: 'uploading'} : f));
-      
-      // Map each file to an upload promise
-      const uploadPromises = filesToProcess.map(async (uploadableFile) => {
-        try {
-            const file = uploadableFile.file;
-            const fileName = `${crypto.randomUUID()}-${file.name.replace(/\s/g, '_')}`;
-            
-            const { error: uploadError } = await supabase.storage.from('gallery').upload(fileName, file);
-            if (uploadError) throw new Error(`Storage error: ${uploadError.message}`);
+    // --- Upload manager ---
+    // Files move queued → pending when the user starts the upload; the effect below then
+    // keeps at most `uploadConcurrency` of them uploading. Each file inserts its own row.
+    const activeUploadsRef = useRef(new Map<string, AbortController>());
+    const nextSortOrderRef = useRef(0);
+    const uploadBatchRef = useRef({ succeeded: 0, failed: 0 });
 
-            const { data: urlData } = supabase.storage.from('gallery').getPublicUrl(fileName);
-            if (!urlData.publicUrl) throw new Error("Could not get public URL for the uploaded file.");
+    const updateQueueItem = (id: string, changes: Partial<UploadableFile>) => {
+      setFilesToUpload(prev => prev.map(f => f.id === id ? { ...f, ...changes } : f));
+    };
 
-            setFilesToUpload(prev => prev.map(f => f.id === uploadableFile.id ? {...f, status: 'success'} : f));
-            return { image_url: urlData.publicUrl, album_id: albumId as string };
-        } catch (error: any) {
-            setFilesToUpload(prev => prev.map(f => f.id === uploadableFile.id ? {...f, status: 'error', error: error.message} : f));
-            return null;
-        }
-      });
-      
-      const results = await Promise.all(uploadPromises);
-      
-      const successfulUploads = results.filter((result): result is { image_url: string; album_id: string } => result !== null);
-      const errorCount = filesToProcess.length - successfulUploads.length;
-
-      // Perform a single bulk insert to the database
-      if (successfulUploads.length > 0) {
-        const { error: insertError } = await supabase.from('photos').insert(successfulUploads);
-        
-        if (insertError) {
-          addToast(`Gagal menyimpan foto ke database: ${insertError.message}`, 'error');
-          setFilesToUpload(prev => prev.map(f => {
-              if (f.status === 'success') return {...f, status: 'error', error: 'DB insert failed'};
-              return f;
-          }));
+    const uploadQueueItem = async (item: UploadableFile) => {
+      const controller = new AbortController();
+      activeUploadsRef.current.set(item.id, controller);
+      const sortOrder = Math.max(nextSortOrderRef.current, photos.reduce((max, p) => Math.max(max, p.sort_order + 1), 0));
+      nextSortOrderRef.current = sortOrder + 1;
+      updateQueueItem(item.id, { status: 'uploading', uploadedBytes: 0, error: undefined });
+
+      try {
+        const photo = await uploadPhoto(repository, item, {
+          albumId: albumId as string,
+          sortOrder,
+          signal: controller.signal,
+          onProgress: (uploadedBytes) => updateQueueItem(item.id, { uploadedBytes }),
+        });
+        uploadBatchRef.current.succeeded++;
+        setPhotos(prev => [...prev, photo]);
+        setCaptions(prev => ({ ...prev, [photo.id]: photo.caption || '' }));
+        updateQueueItem(item.id, { status: 'success', uploadedBytes: totalBytes(item) });
+      } catch (error: any) {
+        if (error instanceof UploadCancelledError) {
+          updateQueueItem(item.id, { status: 'cancelled', error: t('upload.cancelled') });
         } else {
-          addToast(`${successfulUploads.length} foto berhasil diunggah.`, 'success');
-          fetchAlbumData();
+          uploadBatchRef.current.failed++;
+          updateQueueItem(item.id, { status: 'error', error: error instanceof UploadConnectionError ? t('upload.connectionLost') : error.message });
         }
+      } finally {
+        activeUploadsRef.current.delete(item.id);
+        // Wake the pump even when nothing else changed in the queue.
+        setFilesToUpload(prev => [...prev]);
       }
+    };
 
-      if (errorCount > 0) {
-        addToast(`${errorCount} foto gagal diunggah.`, 'error');
+    useEffect(() => {
+      if (!albumId) return;
+      const active = activeUploadsRef.current;
+      const waiting = filesToUpload.filter(f => f.status === 'pending' && !active.has(f.id));
+      waiting.slice(0, Math.max(0, getConfig().uploadConcurrency - active.size)).forEach(uploadQueueItem);
+
+      if (active.size === 0 && waiting.length === 0) {
+        const { succeeded, failed } = uploadBatchRef.current;
+        if (succeeded === 0 && failed === 0) return;
+        uploadBatchRef.current = { succeeded: 0, failed: 0 };
+        if (succeeded > 0) addToast(t('upload.succeeded', succeeded), 'success');
+        if (failed > 0) addToast(t('upload.failed', failed), 'error');
+        setTimeout(() => {
+          setFilesToUpload(prev => {
+            prev.filter(f => f.status === 'success').forEach(f => URL.revokeObjectURL(f.previewUrl));
+            return prev.filter(f => f.status !== 'success');
+          });
+        }, 3000);
+      }
+    }, [filesToUpload, albumId]);
+
+    const handleUploadAll = () => {
+      if (!albumId) return;
+      if (!filesToUpload.some(f => f.status === 'queued')) {
+        addToast(t('upload.nothingQueued'), 'info');
+        return;
       }
-      
-      setTimeout(() => {
-        setFilesToUpload(prev => prev.filter(f => f.status !== 'success'));
-      }, 3000);
+      setFilesToUpload(prev => prev.map(f => f.status === 'queued' ? { ...f, status: 'pending', uploadedBytes: 0 } : f));
+    };
+
+    const retryUpload = (id: string) => {
+      setFilesToUpload(prev => prev.map(f => f.id === id && canRetry(f) ? { ...f, status: 'pending', error: undefined, uploadedBytes: 0 } : f));
+    };
+
+    const retryAllFailed = () => {
+      setFilesToUpload(prev => prev.map(f => canRetry(f) ? { ...f, status: 'pending', error: undefined, uploadedBytes: 0 } : f));
+    };
+
+    const cancelUpload = (id: string) => {
+      const controller = activeUploadsRef.current.get(id);
+      if (controller) controller.abort();
+      else setFilesToUpload(prev => prev.map(f => f.id === id && f.status === 'pending' ? { ...f, status: 'cancelled', error: t('upload.cancelled') } : f));
+    };
+
+    const cancelAllUploads = () => {
+      activeUploadsRef.current.forEach(controller => controller.abort());
+      setFilesToUpload(prev => prev.map(f => f.status === 'pending' ? { ...f, status: 'cancelled', error: t('upload.cancelled') } : f));
     };
 
     // Drag and drop handlers
@@ -431,43 +954,201 @@ export const AdminAlbumEditorPage: React.FC = () => {
     };
 
     const handleDeletePhoto = async (photo: Photo) => {
-        if (window.confirm('Anda yakin ingin menghapus foto ini?')) {
-            const filePath = photo.image_url.split('/gallery/').pop();
-            if(!filePath) {
-                 addToast('URL foto tidak valid.', 'error');
-                 return;
-            }
-
-            const { error: storageError } = await supabase.storage.from('gallery').remove([filePath]);
-            if (storageError) {
-                addToast('Gagal menghapus file dari storage: ' + storageError.message, 'error');
+        if (window.confirm(t('editor.trashPhotoConfirm'))) {
+            try {
+                await repository.photos.trash(photo.id);
+            } catch (error: any) {
+                addToast(t('editor.trashPhotoFailed', error.message), 'error');
                 return;
             }
-            
-            const { error: dbError } = await supabase.from('photos').delete().eq('id', photo.id);
-            if (dbError) {
-                addToast('Gagal menghapus data foto: ' + dbError.message, 'error');
-            } else {
-                addToast('Foto berhasil dihapus.', 'success');
-                if (album.cover_image_url === photo.image_url) {
-                    await supabase.from('albums').update({ cover_image_url: null }).eq('id', album.id as string);
-                }
-                fetchAlbumData();
+            addToast(t('editor.photoTrashed'), 'success');
+            if (album.cover_image_url === photo.image_url) {
+                await repository.albums.update(album.id as string, { cover_image_url: null }).catch(console.error);
             }
+            fetchAlbumData();
         }
     }
     
     const handleSetCover = async (photoUrl: string) => {
-        const { error } = await supabase.from('albums').update({ cover_image_url: photoUrl }).eq('id', albumId as string);
-        if (error) {
-            addToast(`Gagal mengatur foto sampul: ${error.message}`, 'error');
-        } else {
-            addToast('Foto sampul berhasil diperbarui.', 'success');
+        try {
+            await repository.albums.update(albumId as string, { cover_image_url: photoUrl });
+            addToast(t('editor.coverSet'), 'success');
             setAlbum(prev => ({ ...prev, cover_image_url: photoUrl }));
+        } catch (error: any) {
+            addToast(t('editor.coverFailed', error.message), 'error');
         }
     };
     
-    const isUploading = filesToUpload.some(f => f.status === 'uploading');
+    // Photo ordering: changes stay local until "Simpan Perubahan"
+    const movePhoto = (fromIndex: number, toIndex: number) => {
+        if (fromIndex === toIndex || toIndex < 0 || toIndex >= photos.length) return;
+        setPhotos(prev => {
+            const next = [...prev];
+            const [moved] = next.splice(fromIndex, 1);
+            next.splice(toIndex, 0, moved);
+            return next;
+        });
+        setOrderChanged(true);
+    };
+    const sortByTakenAt = () => {
+        setPhotos(prev => [...prev].sort(compareByTakenAt));
+        setOrderChanged(true);
+    };
+    const handlePhotoDragStart = (e: React.DragEvent<HTMLDivElement>, photoId: string) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', photoId);
+        setDraggedPhotoId(photoId);
+    };
+    const handlePhotoDragOver = (e: React.DragEvent<HTMLDivElement>, overIndex: number) => {
+        if (!draggedPhotoId) return;
+        e.preventDefault();
+        movePhoto(photos.findIndex(p => p.id === draggedPhotoId), overIndex);
+    };
+    const handlePhotoDrop = (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        setDraggedPhotoId(null);
+    };
+    const handlePhotoKeyDown = (e: React.KeyboardEvent<HTMLDivElement>, index: number) => {
+        if (e.target !== e.currentTarget) return;
+        if (e.key === 'ArrowLeft' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            movePhoto(index, index - 1);
+        } else if (e.key === 'ArrowRight' || e.key === 'ArrowDown') {
+            e.preventDefault();
+            movePhoto(index, index + 1);
+        }
+    };
+
+    // --- Bulk selection ---
+    const toggleSelected = (index: number, extendRange: boolean) => {
+        const photo = photos[index];
+        const anchorIndex = photos.findIndex(p => p.id === selectionAnchorRef.current);
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (extendRange && anchorIndex !== -1) {
+                // The whole range takes the new state of the clicked photo, as in a file manager.
+                const select = !prev.has(photo.id);
+                photos.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+                    .forEach(p => select ? next.add(p.id) : next.delete(p.id));
+            } else if (next.has(photo.id)) {
+                next.delete(photo.id);
+            } else {
+                next.add(photo.id);
+            }
+            return next;
+        });
+        selectionAnchorRef.current = photo.id;
+    };
+
+    const toggleSelectAll = () => {
+        setSelectedIds(prev => prev.size === photos.length ? new Set() : new Set(photos.map(p => p.id)));
+        selectionAnchorRef.current = null;
+    };
+
+    // Runs `action` over the selection in album order and reports the outcome in one toast.
+    const runSelectionBatch = async (action: (photo: Photo, index: number) => Promise<void>, describe: (count: number) => string) => {
+        const selected = photos.filter(p => selectedIds.has(p.id));
+        setBatchProgress({ done: 0, total: selected.length });
+        const { succeeded, failed } = await runBatch(selected, action, done => setBatchProgress({ done, total: selected.length }));
+        setBatchProgress(null);
+        if (failed > 0) addToast(t('batch.partlyFailed', describe(succeeded), failed), 'error');
+        else addToast(`${describe(succeeded)}.`, 'success');
+    };
+
+    const handleBatchText = async (field: 'caption' | 'alt_text') => {
+        const template = (field === 'caption' ? batchCaption : batchAltText).trim();
+        const label = t(`batch.field.${field}`);
+        const question = template
+            ? t('batch.replaceConfirm', label, selectedIds.size, template)
+            : t('batch.clearConfirm', label, selectedIds.size);
+        if (!window.confirm(question)) return;
+
+        const applied: Record<string, string | null> = {};
+        await runSelectionBatch(async (photo, index) => {
+            const value = template ? applyCaptionTemplate(template, index + 1) : null;
+            await repository.photos.update(photo.id, { [field]: value });
+            applied[photo.id] = value;
+        }, count => t('batch.textUpdated', label, count));
+
+        setPhotos(prev => prev.map(p => p.id in applied ? { ...p, [field]: applied[p.id] } : p));
+        // Batch captions replace any unsaved edit of the same photos.
+        if (field === 'caption') {
+            setCaptions(prev => ({ ...prev, ...Object.fromEntries(Object.entries(applied).map(([id, value]) => [id, value ?? ''])) }));
+        }
+    };
+
+    const handleBatchDelete = async () => {
+        if (!window.confirm(t('batch.trashConfirm', selectedIds.size))) return;
+        let coverTrashed = false;
+        await runSelectionBatch(async (photo) => {
+            await repository.photos.trash(photo.id);
+            if (photo.image_url === album.cover_image_url) coverTrashed = true;
+        }, count => t('batch.trashed', count));
+        if (coverTrashed) {
+            await repository.albums.update(album.id as string, { cover_image_url: null }).catch(console.error);
+        }
+        fetchAlbumData();
+    };
+
+    const closeAlbumPicker = useCallback(() => setTransferMode(null), []);
+
+    // Moved photos keep their files; copies get their own, see copyPhoto.
+    const handleTransfer = async (target: Album) => {
+        const mode = transferMode;
+        setTransferMode(null);
+        if (!can('photo.upload', target.id)) {
+            addToast(t('batch.targetNotAllowed', target.title), 'error');
+            return;
+        }
+        const question = mode === 'move'
+            ? t('batch.moveConfirm', selectedIds.size, target.title)
+            : t('batch.copyConfirm', selectedIds.size, target.title);
+        if (!window.confirm(question)) return;
+
+        if (mode === 'move') {
+            await runSelectionBatch(photo => repository.photos.move(photo.id, target.id), count => t('batch.moved', count, target.title));
+            fetchAlbumData();
+            return;
+        }
+
+        let sortOrder: number;
+        try {
+            sortOrder = (await repository.photos.listByAlbum(target.id)).reduce((max, p) => Math.max(max, p.sort_order + 1), 0);
+        } catch (error: any) {
+            addToast(t('batch.targetLoadFailed', error.message), 'error');
+            return;
+        }
+        await runSelectionBatch(async (photo, index) => {
+            await copyPhoto(repository, photo, { albumId: target.id, sortOrder: sortOrder + index });
+        }, count => t('batch.copied', count, target.title));
+        setSelectedIds(new Set());
+    };
+
+    // The selection, usually a shift-clicked range, becomes a new draft album.
+    const handleSplit = async () => {
+        const selected = photos.filter(p => selectedIds.has(p.id));
+        const title = window.prompt(t('batch.splitPrompt', selected.length), t('batch.splitDefaultTitle', album.title ?? ''));
+        if (!title?.trim()) return;
+        setSaving(true);
+        try {
+            const created = await splitAlbum(repository, album as Album, selected, title.trim());
+            addToast(t('batch.split', selected.length, created.title), 'success');
+            navigate(`/admin/album/${created.id}`);
+        } catch (error: any) {
+            addToast(t('batch.splitFailed', error.message), 'error');
+            fetchAlbumData();
+        }
+        setSaving(false);
+    };
+
+    const isUploading = filesToUpload.some(f => f.status === 'uploading' || f.status === 'pending');
+    const queuedCount = filesToUpload.filter(f => f.status === 'queued').length;
+    const retryableCount = filesToUpload.filter(canRetry).length;
+    const duplicateCount = filesToUpload.filter(f => f.status === 'duplicate').length;
+
+    if (!isNew && !canEditDetails && !canUpload) {
+        return <Navigate to="/admin" />;
+    }
 
     if (loading) {
         return <AdminLayout><div className="flex justify-center"><Spinner /></div></AdminLayout>
@@ -476,32 +1157,110 @@ export const AdminAlbumEditorPage: React.FC = () => {
     return (
         <AdminLayout>
             <div className="flex justify-between items-center mb-6">
-                <h1 className="text-3xl font-bold text-gray-900">{isNew ? 'Tambah Album Baru' : 'Edit Album'}</h1>
-                <Button onClick={handleAlbumSave} disabled={saving}>
-                    {saving ? <Spinner /> : (isNew ? 'Buat Album' : 'Simpan Perubahan')}
-                </Button>
+                <h1 className="text-3xl font-bold text-gray-900">{isNew ? t('editor.newTitle') : t('editor.editTitle')}</h1>
+                <div className="flex items-center gap-3">
+                    {!isNew && photos.length > 0 && (
+                        <DownloadAlbumButton
+                            albumTitle={album.title || t('editor.fallbackTitle')}
+                            loadPhotos={() => repository.photos.listByAlbum(albumId)}
+                            onError={(message) => addToast(message, 'error')}
+                        />
+                    )}
+                    {!isNew && can('activity.view') && <Link to={`/admin/activity?album=${albumId}`} className="text-sm font-medium text-brand-blue-600 hover:text-brand-blue-800">{t('editor.history')}</Link>}
+                    {!isNew && album.status && <StatusBadge album={album as Album} />}
+                    {!isNew && canPublish && displayStatus(album as Album) !== 'published' && (
+                        <Button variant="secondary" onClick={handlePublish} disabled={saving}>{t('editor.publishNow')}</Button>
+                    )}
+                    <Button onClick={() => handleAlbumSave()} disabled={saving}>
+                        {saving ? <Spinner /> : (isNew ? t('editor.create') : t('editor.save'))}
+                    </Button>
+                </div>
             </div>
 
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
                 {/* Album Details Form */}
                 <div className="lg:col-span-1 bg-white p-6 rounded-lg shadow space-y-4 h-fit">
-                     <h2 className="text-xl font-semibold">Detail Album</h2>
+                     <h2 className="text-xl font-semibold">{t('editor.details')}</h2>
+                     <fieldset disabled={!canEditDetails} className="space-y-4">
                      <div>
-                        <label className="block text-sm font-medium text-gray-700">Judul</label>
+                        <label className="block text-sm font-medium text-gray-700">{t('field.title')}</label>
                         <Input value={album.title || ''} onChange={(e) => setAlbum({...album, title: e.target.value})} />
                      </div>
                      <div>
-                        <label className="block text-sm font-medium text-gray-700">Deskripsi</label>
+                        <label className="block text-sm font-medium text-gray-700">{t('field.description')}</label>
                         <Textarea rows={4} value={album.description || ''} onChange={(e) => setAlbum({...album, description: e.target.value})} />
                      </div>
+                     {LOCALES.filter(locale => locale !== DEFAULT_LOCALE).map(locale => (
+                        <div key={locale} className="space-y-2">
+                            <label className="block text-sm font-medium text-gray-700">{t('editor.translatedTitle', LOCALE_NAMES[locale])} <span className="font-normal text-gray-400">{t('editor.optional')}</span></label>
+                            <Input lang={locale} value={album.translations?.[locale]?.title || ''} onChange={(e) => setTranslation(locale, { title: e.target.value || null })} />
+                            <label className="block text-sm font-medium text-gray-700">{t('editor.translatedDescription', LOCALE_NAMES[locale])} <span className="font-normal text-gray-400">{t('editor.optional')}</span></label>
+                            <Textarea lang={locale} rows={3} value={album.translations?.[locale]?.description || ''} onChange={(e) => setTranslation(locale, { description: e.target.value || null })} />
+                            <p className="mt-1 text-xs text-gray-500">{t('editor.translationHint', LOCALE_NAMES[locale])}</p>
+                        </div>
+                     ))}
+                     <div>
+                        <label className="block text-sm font-medium text-gray-700">{t('dashboard.eventDate')}</label>
+                        <Input type="date" value={album.event_date || ''} onChange={(e) => setAlbum({...album, event_date: e.target.value})} />
+                        <p className="mt-1 text-xs text-gray-500">{t('editor.eventDateHint')}</p>
+                     </div>
+                     <div>
+                        <label className="block text-sm font-medium text-gray-700">{t('field.location')} <span className="font-normal text-gray-400">{t('editor.optional')}</span></label>
+                        <Input value={album.location || ''} onChange={(e) => setAlbum({...album, location: e.target.value})} placeholder={t('editor.locationPlaceholder')} />
+                     </div>
+                     <div>
+                        <label className="block text-sm font-medium text-gray-700">{t('field.status')}</label>
+                        <select
+                            value={album.status ?? 'draft'}
+                            disabled={!canPublish}
+                            onChange={(e) => setAlbum({...album, status: e.target.value as AlbumStatus})}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white focus:outline-none focus:ring-brand-blue-500 focus:border-brand-blue-500 sm:text-sm"
+                        >
+                            {(['draft', 'published', 'archived'] as const).map(status => (
+                                <option key={status} value={status}>{albumStatusLabel(status)}</option>
+                            ))}
+                        </select>
+                        <p className="mt-1 text-xs text-gray-500">{t('editor.statusHint')}</p>
+                     </div>
+                     {album.status === 'published' && (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700">{t('editor.publishAt')} <span className="font-normal text-gray-400">{t('editor.optional')}</span></label>
+                            <Input
+                                type="datetime-local"
+                                value={toDateTimeLocal(album.publish_at ?? null)}
+                                onChange={(e) => setAlbum({...album, publish_at: fromDateTimeLocal(e.target.value)})}
+                            />
+                            <p className="mt-1 text-xs text-gray-500">{t('editor.publishAtHint')}</p>
+                        </div>
+                     )}
+                     <label className="flex items-start gap-2 text-sm text-gray-700">
+                        <input
+                            type="checkbox"
+                            checked={album.allow_download ?? true}
+                            onChange={(e) => setAlbum({...album, allow_download: e.target.checked})}
+                            className="mt-0.5 rounded border-gray-300 text-brand-blue-600 focus:ring-brand-blue-500"
+                        />
+                        <span>
+                            {t('editor.allowDownload')}
+                            <span className="block text-xs text-gray-500">{t('editor.allowDownloadHint')}</span>
+                        </span>
+                     </label>
+                     <TagEditor
+                        allTags={allTags}
+                        selected={album.tags ?? []}
+                        onChange={(tags) => setAlbum(prev => ({ ...prev, tags }))}
+                        onCreate={handleCreateTag}
+                     />
+                     </fieldset>
+                     {!canEditDetails && <p className="text-xs text-gray-500">{t('editor.contributorNote')}</p>}
                 </div>
 
                 {/* Photo Management */}
                 <div className="lg:col-span-2 bg-white p-6 rounded-lg shadow">
-                    <h2 className="text-xl font-semibold mb-4">Manajemen Foto</h2>
+                    <h2 className="text-xl font-semibold mb-4">{t('editor.photos')}</h2>
                     {!isNew ? (
                         <>
-                        <div 
+                        {canUpload && <div 
                           className={`border-2 border-dashed rounded-lg p-6 text-center mb-6 transition-colors ${isDragging ? 'border-brand-blue-500 bg-brand-blue-50' : 'border-gray-300'}`}
                           onDragOver={handleDragOver}
                           onDragLeave={handleDragLeave}
@@ -510,54 +1269,187 @@ export const AdminAlbumEditorPage: React.FC = () => {
                             <input type="file" multiple onChange={(e) => handleFileSelect(e.target.files)} ref={fileInputRef} className="hidden" id="photo-upload" accept="image/*" />
                             <label htmlFor="photo-upload" className="cursor-pointer text-brand-blue-600 font-semibold flex flex-col items-center justify-center space-y-2">
                                 <CameraIcon className="w-12 h-12 text-gray-400" />
-                                <span>{isDragging ? 'Jatuhkan file di sini' : 'Pilih file atau jatuhkan ke sini'}</span>
-                                <span className="text-xs text-gray-500">Maks 5MB per file</span>
+                                <span>{isDragging ? t('upload.dropHere') : t('upload.choose')}</span>
+                                <span className="text-xs text-gray-500">{t('upload.compressionNote', formatMegabytes(getConfig().maxUploadBytes))}</span>
                             </label>
-                        </div>
+                        </div>}
                         
                         {/* Upload Queue */}
                         {filesToUpload.length > 0 && (
                           <div className="mb-6">
-                            <h3 className="font-semibold text-lg mb-2">Antrean Unggah ({filesToUpload.filter(f => f.status === 'queued').length})</h3>
+                            <div className="flex items-center justify-between mb-2">
+                              <h3 className="font-semibold text-lg">{t('upload.queue', queuedCount)}</h3>
+                              <div className="flex items-center space-x-3 text-sm">
+                                {duplicateCount > 0 && <button onClick={skipAllDuplicates} className="font-semibold text-amber-700 hover:text-amber-900">{t('upload.skipDuplicates', duplicateCount)}</button>}
+                                {retryableCount > 0 && <button onClick={retryAllFailed} className="font-semibold text-brand-blue-600 hover:text-brand-blue-800">{t('upload.retryFailed', retryableCount)}</button>}
+                                {isUploading && <button onClick={cancelAllUploads} className="font-semibold text-red-600 hover:text-red-800">{t('upload.cancelAll')}</button>}
+                              </div>
+                            </div>
                             <div className="space-y-2 max-h-60 overflow-y-auto pr-2">
                               {filesToUpload.map(f => (
-                                <div key={f.id} className="flex items-center p-2 bg-gray-50 rounded-md">
+                                <div key={f.id} className={`p-2 rounded-md ${f.status === 'duplicate' ? 'bg-amber-50 border border-amber-200' : 'bg-gray-50'}`}>
+                                <div className="flex items-center">
                                   <img src={f.previewUrl} alt={f.file.name} className="w-12 h-12 object-cover rounded-md mr-3" />
-                                  <div className="flex-grow">
+                                  <div className="flex-grow min-w-0">
                                     <p className="text-sm font-medium truncate">{f.file.name}</p>
-                                    <p className="text-xs text-gray-500">{(f.file.size / 1024 / 1024).toFixed(2)} MB</p>
-                                    {f.status === 'error' && <p className="text-xs text-red-500 truncate" title={f.error}>{f.error}</p>}
+                                    <p className="text-xs text-gray-500">
+                                      {f.status === 'processing' || f.file.size === f.originalSize
+                                        ? `${(f.originalSize / 1024 / 1024).toFixed(2)} MB`
+                                        : <>{(f.originalSize / 1024 / 1024).toFixed(2)} MB → <span className="font-semibold text-green-600">{(f.file.size / 1024 / 1024).toFixed(2)} MB</span></>}
+                                    </p>
+                                    {(f.status === 'uploading' || f.status === 'success') && (
+                                      <div className="mt-1 h-1.5 bg-gray-200 rounded-full overflow-hidden" role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(f.uploadedBytes / totalBytes(f) * 100)}>
+                                        <div className={`h-full transition-all ${f.status === 'success' ? 'bg-green-500' : 'bg-brand-blue-500'}`} style={{ width: `${Math.min(100, f.uploadedBytes / totalBytes(f) * 100)}%` }} />
+                                      </div>
+                                    )}
+                                    {(f.status === 'error' || f.status === 'cancelled') && <p className="text-xs text-red-500 truncate" title={f.error}>{f.error}</p>}
                                   </div>
                                   <div className="flex items-center space-x-2 ml-2">
-                                    {f.status === 'queued' && <span className="text-xs font-semibold text-gray-500">Menunggu</span>}
-                                    {f.status === 'uploading' && <Spinner />}
-                                    {f.status === 'success' && <span className="text-xs font-semibold text-green-500">Berhasil</span>}
-                                    {f.status === 'error' && <span className="text-xs font-semibold text-red-500">Gagal</span>}
-                                    <button onClick={() => removeFileFromQueue(f.id)} disabled={f.status === 'uploading'} className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-50"><CloseIcon className="w-4 h-4" /></button>
+                                    {f.status === 'processing' && <span className="text-xs font-semibold text-gray-500">{t('upload.status.compressing')}</span>}
+                                    {f.status === 'queued' && <span className="text-xs font-semibold text-gray-500">{t('upload.status.queued')}</span>}
+                                    {f.status === 'duplicate' && <span className="text-xs font-semibold text-amber-700">{t('upload.status.duplicate')}</span>}
+                                    {f.status === 'pending' && <span className="text-xs font-semibold text-gray-500">{t('upload.status.pending')}</span>}
+                                    {f.status === 'uploading' && <span className="text-xs font-semibold text-brand-blue-600">{Math.round(f.uploadedBytes / totalBytes(f) * 100)}%</span>}
+                                    {f.status === 'success' && <span className="text-xs font-semibold text-green-500">{t('upload.status.success')}</span>}
+                                    {f.status === 'error' && <span className="text-xs font-semibold text-red-500">{t('upload.status.error')}</span>}
+                                    {f.status === 'cancelled' && <span className="text-xs font-semibold text-gray-500">{t('upload.status.cancelled')}</span>}
+                                    {canRetry(f) && <button onClick={() => retryUpload(f.id)} title={t('upload.retry')} className="p-1 text-gray-500 hover:text-brand-blue-600"><RetryIcon className="w-4 h-4" /></button>}
+                                    {f.status === 'uploading' || f.status === 'pending'
+                                      ? <button onClick={() => cancelUpload(f.id)} title={t('common.cancel')} className="p-1 text-gray-500 hover:text-red-600"><CloseIcon className="w-4 h-4" /></button>
+                                      : <button onClick={() => removeFileFromQueue(f.id)} title={t('upload.remove')} className="p-1 text-gray-500 hover:text-red-600"><TrashIcon className="w-4 h-4" /></button>}
                                   </div>
                                 </div>
+                                {f.status === 'duplicate' && f.duplicate && (
+                                  <div className="mt-2 flex flex-wrap items-end gap-3">
+                                    <figure className="text-center">
+                                      <img src={f.previewUrl} alt={f.file.name} className="w-24 h-24 object-cover rounded-md" />
+                                      <figcaption className="mt-1 text-xs text-gray-600">{t('upload.new')}</figcaption>
+                                    </figure>
+                                    <figure className="text-center">
+                                      <img src={f.duplicate.previewUrl} alt={f.duplicate.label} className="w-24 h-24 object-cover rounded-md" />
+                                      <figcaption className="mt-1 text-xs text-gray-600 max-w-[6rem] truncate" title={f.duplicate.label}>{f.duplicate.label}</figcaption>
+                                    </figure>
+                                    <div className="flex-grow min-w-[10rem]">
+                                      <p className="text-xs text-amber-800 mb-2">
+                                        {f.duplicate.similarity === 'identical' ? t('upload.identical', f.duplicate.label) : t('upload.similar', f.duplicate.label)}
+                                      </p>
+                                      <div className="flex gap-2">
+                                        <button onClick={() => removeFileFromQueue(f.id)} className="px-3 py-1 text-xs font-semibold rounded-md bg-white border border-gray-300 text-gray-700 hover:bg-gray-100">{t('upload.skip')}</button>
+                                        <button onClick={() => keepDuplicate(f.id)} className="px-3 py-1 text-xs font-semibold rounded-md bg-amber-600 text-white hover:bg-amber-700">{t('upload.keep')}</button>
+                                      </div>
+                                    </div>
+                                  </div>
+                                )}
+                                </div>
                               ))}
                             </div>
-                            <Button onClick={handleUploadAll} disabled={isUploading || filesToUpload.filter(f => f.status === 'queued').length === 0} className="w-full mt-4">
-                              {isUploading ? <Spinner/> : `Unggah ${filesToUpload.filter(f => f.status === 'queued').length} Foto`}
+                            <Button onClick={handleUploadAll} disabled={queuedCount === 0} className="w-full mt-4">
+                              {t('upload.submit', queuedCount)}
                             </Button>
                           </div>
                         )}
 
-                        <h3 className="font-semibold text-lg mb-2 mt-4">Foto Tersimpan</h3>
+                        <div className="flex items-baseline justify-between mb-2 mt-4">
+                            <div className="flex items-center gap-3">
+                                <h3 className="font-semibold text-lg">{t('editor.savedPhotos')}</h3>
+                                {photos.length > 0 && (
+                                    <label className="flex items-center gap-1.5 text-sm text-gray-600 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={photos.length > 0 && selectedIds.size === photos.length}
+                                            ref={el => { if (el) el.indeterminate = selectedIds.size > 0 && selectedIds.size < photos.length; }}
+                                            onChange={toggleSelectAll}
+                                            className="rounded border-gray-300 text-brand-blue-600 focus:ring-brand-blue-500"
+                                        />
+                                        {t('editor.selectAll')}
+                                    </label>
+                                )}
+                                {photos.filter(p => p.taken_at).length > 1 && (
+                                    <button onClick={sortByTakenAt} className="text-sm font-medium text-brand-blue-600 hover:text-brand-blue-800">{t('editor.sortByTakenAt')}</button>
+                                )}
+                            </div>
+                            {orderChanged
+                                ? <span className="text-xs font-semibold text-yellow-600">{t('editor.orderChanged')}</span>
+                                : photos.length > 1 && <span className="text-xs text-gray-500">{t('editor.reorderHint')}</span>}
+                        </div>
+                        {selectedIds.size > 0 && (
+                            <div className="mb-4 p-4 bg-brand-blue-50 border border-brand-blue-200 rounded-md space-y-3">
+                                <div className="flex flex-wrap items-center justify-between gap-2">
+                                    <span className="text-sm font-semibold text-brand-blue-800">{t('editor.selected', selectedIds.size)} <span className="font-normal text-gray-500">· {t('editor.rangeHint')}</span></span>
+                                    <div className="flex items-center gap-3 text-sm">
+                                        {batchProgress && <span className="text-gray-600">{t('batch.progress', batchProgress.done, batchProgress.total)}</span>}
+                                        {canEditPhotos && <button onClick={() => setTransferMode('move')} disabled={!!batchProgress} className="font-semibold text-brand-blue-600 hover:text-brand-blue-800 disabled:opacity-50">{t('batch.move')}</button>}
+                                        {canEditPhotos && can('album.create') && <button onClick={handleSplit} disabled={!!batchProgress || saving} className="font-semibold text-brand-blue-600 hover:text-brand-blue-800 disabled:opacity-50">{t('batch.splitAction')}</button>}
+                                        {canEditPhotos && <button onClick={() => setTransferMode('copy')} disabled={!!batchProgress} className="font-semibold text-brand-blue-600 hover:text-brand-blue-800 disabled:opacity-50">{t('batch.copy')}</button>}
+                                        {can('photo.delete') && <button onClick={handleBatchDelete} disabled={!!batchProgress} className="font-semibold text-red-600 hover:text-red-800 disabled:opacity-50">{t('batch.trash')}</button>}
+                                        <button onClick={() => setSelectedIds(new Set())} disabled={!!batchProgress} className="font-semibold text-gray-600 hover:text-gray-800 disabled:opacity-50">{t('admin.clearSelection')}</button>
+                                    </div>
+                                </div>
+                                {canEditPhotos && (
+                                    <>
+                                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                            <div>
+                                                <label className="block text-sm font-medium text-gray-700">{t('field.caption')}</label>
+                                                <div className="flex gap-2">
+                                                    <Input value={batchCaption} onChange={(e) => setBatchCaption(e.target.value)} placeholder={t('batch.captionPlaceholder')} />
+                                                    <Button variant="secondary" onClick={() => handleBatchText('caption')} disabled={!!batchProgress}>{t('batch.apply')}</Button>
+                                                </div>
+                                            </div>
+                                            <div>
+                                                <label className="block text-sm font-medium text-gray-700">{t('batch.altText')}</label>
+                                                <div className="flex gap-2">
+                                                    <Input value={batchAltText} onChange={(e) => setBatchAltText(e.target.value)} placeholder={t('batch.altTextPlaceholder')} />
+                                                    <Button variant="secondary" onClick={() => handleBatchText('alt_text')} disabled={!!batchProgress}>{t('batch.apply')}</Button>
+                                                </div>
+                                            </div>
+                                        </div>
+                                        <p className="text-xs text-gray-500">{t('batch.templateHint')}</p>
+                                    </>
+                                )}
+                            </div>
+                        )}
                         <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
-                            {photos.map(photo => (
-                                <div key={photo.id} className="relative group bg-gray-100 rounded-md overflow-hidden">
-                                    <img src={`${photo.image_url}?width=200&height=200`} alt={photo.caption || ''} className="w-full h-32 object-cover" />
-                                    <div className="absolute top-1 right-1 flex flex-col space-y-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                                        <button onClick={() => handleDeletePhoto(photo)} className="p-1.5 bg-red-600 text-white rounded-full shadow-md hover:bg-red-700"><TrashIcon className="w-4 h-4" /></button>
-                                        <button onClick={() => handleSetCover(photo.image_url)} className="p-1.5 bg-yellow-500 text-white rounded-full shadow-md hover:bg-yellow-600">
-                                            <StarIcon className="w-4 h-4" solid={album.cover_image_url === photo.image_url} />
-                                        </button>
+                            {photos.map((photo, index) => (
+                                <div
+                                    key={photo.id}
+                                    draggable
+                                    tabIndex={0}
+                                    aria-label={t('editor.photoLabel', index + 1, photos.length, photo.caption ?? null)}
+                                    onDragStart={(e) => handlePhotoDragStart(e, photo.id)}
+                                    onDragOver={(e) => handlePhotoDragOver(e, index)}
+                                    onDrop={handlePhotoDrop}
+                                    onDragEnd={() => setDraggedPhotoId(null)}
+                                    onKeyDown={(e) => handlePhotoKeyDown(e, index)}
+                                    onClick={(e) => { if (e.target === e.currentTarget && (selectedIds.size > 0 || e.shiftKey)) toggleSelected(index, e.shiftKey); }}
+                                    className={`relative group bg-gray-100 rounded-md overflow-hidden cursor-move focus:outline-none focus:ring-2 focus:ring-brand-blue-500 ${draggedPhotoId === photo.id ? 'opacity-50' : ''} ${selectedIds.has(photo.id) ? 'ring-2 ring-brand-blue-500' : ''}`}
+                                >
+                                    <ResponsiveImage src={photo.image_url} variants={photo.variants} sizes="200px" alt={photo.alt_text || photo.caption || ''} className="w-full h-32 object-cover pointer-events-none" />
+                                    <span className="absolute top-1 left-1 flex items-center gap-1 px-1.5 py-0.5 text-xs font-semibold bg-black bg-opacity-50 text-white rounded">
+                                        <input
+                                            type="checkbox"
+                                            readOnly
+                                            checked={selectedIds.has(photo.id)}
+                                            onClick={(e) => toggleSelected(index, e.shiftKey)}
+                                            aria-label={t('editor.selectPhoto', index + 1)}
+                                            className="rounded border-gray-300 text-brand-blue-600 focus:ring-brand-blue-500"
+                                        />
+                                        {index + 1}
+                                    </span>
+                                    <div className="absolute bottom-9 left-1 flex space-x-1 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">
+                                        <button onClick={() => movePhoto(index, index - 1)} disabled={index === 0} aria-label={t('editor.moveEarlier')} className="p-1 bg-white text-gray-700 rounded-full shadow-md hover:bg-gray-200 disabled:opacity-40"><ChevronLeftIcon className="w-4 h-4" /></button>
+                                        <button onClick={() => movePhoto(index, index + 1)} disabled={index === photos.length - 1} aria-label={t('editor.moveLater')} className="p-1 bg-white text-gray-700 rounded-full shadow-md hover:bg-gray-200 disabled:opacity-40"><ChevronRightIcon className="w-4 h-4" /></button>
+                                    </div>
+                                    <div className="absolute top-1 right-1 flex flex-col space-y-1 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">
+                                        {can('photo.delete') && <button onClick={() => handleDeletePhoto(photo)} className="p-1.5 bg-red-600 text-white rounded-full shadow-md hover:bg-red-700"><TrashIcon className="w-4 h-4" /></button>}
+                                        {can('photo.setCover') && (
+                                            <button onClick={() => handleSetCover(photo.image_url)} className="p-1.5 bg-yellow-500 text-white rounded-full shadow-md hover:bg-yellow-600">
+                                                <StarIcon className="w-4 h-4" solid={album.cover_image_url === photo.image_url} />
+                                            </button>
+                                        )}
                                     </div>
                                     <input 
                                         type="text"
-                                        placeholder="Tambah caption..."
+                                        placeholder={t('editor.captionPlaceholder')}
                                         value={captions[photo.id] || ''}
                                         onChange={(e) => setCaptions({...captions, [photo.id]: e.target.value})}
                                         className="w-full text-xs p-1 border-t"
@@ -567,10 +1459,509 @@ export const AdminAlbumEditorPage: React.FC = () => {
                         </div>
                         </>
                     ) : (
-                        <p className="text-gray-500 text-center p-8">Simpan album terlebih dahulu untuk dapat mengunggah foto.</p>
+                        <p className="text-gray-500 text-center p-8">{t('editor.saveFirst')}</p>
                     )}
                 </div>
             </div>
+            {transferMode && (
+                <AlbumPicker
+                    title={transferMode === 'move' ? t('batch.moveTitle', selectedIds.size) : t('batch.copyTitle', selectedIds.size)}
+                    excludeId={albumId as string}
+                    onPick={handleTransfer}
+                    onClose={closeAlbumPicker}
+                />
+            )}
         </AdminLayout>
     );
-};
\ No newline at end of file
+};
+
+// --- Admin Users Page ---
+const ROLES: UserRole[] = ['admin', 'editor', 'contributor'];
+
+export const AdminUsersPage: React.FC = () => {
+    const repository = useRepository();
+    const addToast = useToast();
+    const { user } = useAuth();
+    const { t } = useI18n();
+    const [staff, setStaff] = useState<StaffMember[]>([]);
+    const [albums, setAlbums] = useState<Album[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [invite, setInvite] = useState({ email: '', password: '', role: 'contributor' as UserRole });
+    const [inviting, setInviting] = useState(false);
+    const [expandedEmail, setExpandedEmail] = useState<string | null>(null);
+
+    const fetchStaff = useCallback(async () => {
+        setLoading(true);
+        const [staffResult, albumsResult] = await Promise.allSettled([
+            repository.staff.list(),
+            repository.albums.listWithPhotoCount({ status: 'all' }),
+        ]);
+        if (staffResult.status === 'rejected') {
+            addToast(t('users.loadFailed', staffResult.reason.message), 'error');
+        } else {
+            setStaff(staffResult.value);
+        }
+        if (albumsResult.status === 'rejected') {
+            addToast(t('admin.albumsLoadFailed', albumsResult.reason.message), 'error');
+        } else {
+            setAlbums(albumsResult.value);
+        }
+        setLoading(false);
+    }, [repository, addToast, t]);
+
+    useEffect(() => {
+        fetchStaff();
+    }, [fetchStaff]);
+
+    const handleInvite = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (invite.password.length < 6) {
+            addToast(t('users.passwordTooShort'), 'error');
+            return;
+        }
+        setInviting(true);
+        try {
+            const member = await repository.staff.invite(invite.email, invite.password, invite.role);
+            setStaff(prev => [...prev, member].sort((a, b) => a.email.localeCompare(b.email)));
+            setInvite({ email: '', password: '', role: invite.role });
+            addToast(t('users.invited', member.email, roleLabel(member.role)), 'success');
+        } catch (error: any) {
+            addToast(t('users.inviteFailed', error.message), 'error');
+        }
+        setInviting(false);
+    };
+
+    const updateMember = async (member: StaffMember, changes: Partial<Pick<StaffMember, 'role' | 'album_ids'>>) => {
+        setStaff(prev => prev.map(s => (s.email === member.email ? { ...s, ...changes } : s)));
+        try {
+            await repository.staff.update(member.email, changes);
+        } catch (error: any) {
+            setStaff(prev => prev.map(s => (s.email === member.email ? member : s)));
+            addToast(t('users.updateFailed', member.email, error.message), 'error');
+        }
+    };
+
+    const toggleAlbum = (member: StaffMember, albumId: string) => {
+        const albumIds = member.album_ids.includes(albumId)
+            ? member.album_ids.filter(id => id !== albumId)
+            : [...member.album_ids, albumId];
+        updateMember(member, { album_ids: albumIds });
+    };
+
+    const handleRemove = async (member: StaffMember) => {
+        if (!window.confirm(t('users.revokeConfirm', member.email))) return;
+        try {
+            await repository.staff.remove(member.email);
+            setStaff(prev => prev.filter(s => s.email !== member.email));
+            addToast(t('users.revoked', member.email), 'success');
+        } catch (error: any) {
+            addToast(t('users.revokeFailed', error.message), 'error');
+        }
+    };
+
+    return (
+        <AdminLayout>
+            <h1 className="text-3xl font-bold text-gray-900 mb-6">{t('users.title')}</h1>
+
+            <form onSubmit={handleInvite} className="bg-white rounded-lg shadow p-6 mb-8 grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                <div className="md:col-span-4"><h2 className="text-xl font-semibold">{t('users.invite')}</h2></div>
+                <div>
+                    <label htmlFor="invite-email" className="block text-sm font-medium text-gray-700">{t('users.email')}</label>
+                    <Input id="invite-email" type="email" required value={invite.email} onChange={(e) => setInvite({ ...invite, email: e.target.value })} />
+                </div>
+                <div>
+                    <label htmlFor="invite-password" className="block text-sm font-medium text-gray-700">{t('users.initialPassword')}</label>
+                    <Input id="invite-password" type="text" required minLength={6} value={invite.password} onChange={(e) => setInvite({ ...invite, password: e.target.value })} />
+                </div>
+                <div>
+                    <label htmlFor="invite-role" className="block text-sm font-medium text-gray-700">{t('users.role')}</label>
+                    <select
+                        id="invite-role"
+                        value={invite.role}
+                        onChange={(e) => setInvite({ ...invite, role: e.target.value as UserRole })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white focus:outline-none focus:ring-brand-blue-500 focus:border-brand-blue-500 sm:text-sm"
+                    >
+                        {ROLES.map(role => <option key={role} value={role}>{roleLabel(role)}</option>)}
+                    </select>
+                </div>
+                <Button type="submit" disabled={inviting}>{inviting ? t('users.inviting') : t('users.inviteSubmit')}</Button>
+                <p className="md:col-span-4 text-xs text-gray-500">{t(`users.roleDescription.${invite.role}`)} {t('users.passwordHint')}</p>
+            </form>
+
+            <div className="bg-white rounded-lg shadow overflow-hidden">
+                {loading ? <div className="p-6 flex justify-center"><Spinner /></div> :
+                <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                        <tr>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('users.email')}</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('users.role')}</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('users.albums')}</th>
+                            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t('admin.actions')}</th>
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                        {staff.map(member => {
+                            const isSelf = member.email === user?.email?.toLowerCase();
+                            return (
+                                <React.Fragment key={member.email}>
+                                    <tr>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{member.email}{isSelf && <span className="ml-2 text-xs text-gray-400">{t('users.you')}</span>}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                            <select
+                                                value={member.role}
+                                                disabled={isSelf}
+                                                onChange={(e) => updateMember(member, { role: e.target.value as UserRole })}
+                                                aria-label={t('users.roleOf', member.email)}
+                                                className="px-2 py-1 border border-gray-300 rounded-md bg-white text-sm disabled:opacity-50"
+                                            >
+                                                {ROLES.map(role => <option key={role} value={role}>{roleLabel(role)}</option>)}
+                                            </select>
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                            {member.role === 'contributor' ? (
+                                                <button onClick={() => setExpandedEmail(expandedEmail === member.email ? null : member.email)} className="font-semibold text-brand-blue-600 hover:text-brand-blue-800">
+                                                    {t('users.albumCount', member.album_ids.length)} {expandedEmail === member.email ? '▲' : '▼'}
+                                                </button>
+                                            ) : t('users.allAlbums')}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                                            {!isSelf && <Button variant="danger" onClick={() => handleRemove(member)} aria-label={t('users.revoke', member.email)}><TrashIcon className="w-4 h-4" /></Button>}
+                                        </td>
+                                    </tr>
+                                    {member.role === 'contributor' && expandedEmail === member.email && (
+                                        <tr>
+                                            <td colSpan={4} className="px-6 py-4 bg-gray-50">
+                                                {albums.length === 0 ? <p className="text-sm text-gray-500">{t('public.noAlbums')}</p> : (
+                                                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                                                        {albums.map(album => (
+                                                            <label key={album.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                                                                <input type="checkbox" checked={member.album_ids.includes(album.id)} onChange={() => toggleAlbum(member, album.id)} />
+                                                                <span className="truncate">{album.title}</span>
+                                                            </label>
+                                                        ))}
+                                                    </div>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    )}
+                                </React.Fragment>
+                            );
+                        })}
+                    </tbody>
+                </table>}
+            </div>
+        </AdminLayout>
+    );
+};
+
+
+// --- Admin Activity Page ---
+const AuditValue: React.FC<{ field: string; value: unknown }> = ({ field, value }) => {
+    const { t } = useI18n();
+    if (value === null || value === undefined || value === '') return <span className="text-gray-400">—</span>;
+    if ((field === 'cover_image_url' || field === 'image_url') && typeof value === 'string') {
+        return <img src={value} alt="" className="inline-block w-10 h-10 object-cover rounded" />;
+    }
+    if (field === 'status' && (['draft', 'published', 'archived'] as unknown[]).includes(value)) {
+        return <>{albumStatusLabel(value as AlbumStatus)}</>;
+    }
+    if (field === 'publish_at' && typeof value === 'string') return <>{formatDateTime(value)}</>;
+    if (field === 'translations' && typeof value === 'object') {
+        const texts = Object.entries(value as AlbumTranslations)
+            .map(([locale, translation]) => [locale.toUpperCase(), [translation?.title, translation?.description].filter(Boolean).join(' — ')])
+            .filter(([, text]) => text);
+        if (texts.length === 0) return <span className="text-gray-400">—</span>;
+        return <span className="break-words">{texts.map(([locale, text]) => `${locale}: ${text}`).join('; ')}</span>;
+    }
+    if (typeof value === 'boolean') return <>{value ? t('activity.yes') : t('activity.no')}</>;
+    return <span className="break-words">{String(value)}</span>;
+};
+
+// Filters live in the query string (?user=&album=&action=) so a filtered view can be linked to.
+export const AdminActivityPage: React.FC = () => {
+    const repository = useRepository();
+    const addToast = useToast();
+    const { t } = useI18n();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const actorEmail = searchParams.get('user') || undefined;
+    const albumId = searchParams.get('album') || undefined;
+    const action = (searchParams.get('action') || undefined) as AuditAction | undefined;
+    const [entries, setEntries] = useState<AuditEntry[]>([]);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [staff, setStaff] = useState<StaffMember[]>([]);
+    const [albums, setAlbums] = useState<Album[]>([]);
+
+    useEffect(() => {
+        Promise.allSettled([repository.staff.list(), repository.albums.listWithPhotoCount({ status: 'all' })])
+            .then(([staffResult, albumsResult]) => {
+                if (staffResult.status === 'fulfilled') setStaff(staffResult.value);
+                if (albumsResult.status === 'fulfilled') setAlbums(albumsResult.value);
+            });
+    }, [repository]);
+
+    useEffect(() => {
+        let cancelled = false;
+        const fetchEntries = async () => {
+            setLoading(true);
+            try {
+                const page = await repository.audit.list({ actorEmail, albumId, action }, { limit: AUDIT_PAGE_SIZE });
+                if (cancelled) return;
+                setEntries(page.items);
+                setNextCursor(page.nextCursor);
+            } catch (error: any) {
+                if (cancelled) return;
+                addToast(t('activity.loadFailed', error.message), 'error');
+            }
+            setLoading(false);
+        };
+        fetchEntries();
+        return () => { cancelled = true; };
+    }, [repository, addToast, t, actorEmail, albumId, action]);
+
+    const loadMore = async () => {
+        if (!nextCursor) return;
+        setLoadingMore(true);
+        try {
+            const page = await repository.audit.list({ actorEmail, albumId, action }, { cursor: nextCursor, limit: AUDIT_PAGE_SIZE });
+            setEntries(prev => [...prev, ...page.items]);
+            setNextCursor(page.nextCursor);
+        } catch (error: any) {
+            addToast(t('activity.loadFailed', error.message), 'error');
+        }
+        setLoadingMore(false);
+    };
+
+    const setFilter = (key: 'user' | 'album' | 'action', value: string) => {
+        const next = new URLSearchParams(searchParams);
+        if (value) next.set(key, value); else next.delete(key);
+        setSearchParams(next);
+    };
+
+    const selectClassName = "w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white focus:outline-none focus:ring-brand-blue-500 focus:border-brand-blue-500 sm:text-sm";
+
+    return (
+        <AdminLayout>
+            <h1 className="text-3xl font-bold text-gray-900 mb-6">{t('activity.title')}</h1>
+
+            <div className="bg-white rounded-lg shadow p-6 mb-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                    <label htmlFor="filter-user" className="block text-sm font-medium text-gray-700">{t('activity.user')}</label>
+                    <select id="filter-user" value={actorEmail ?? ''} onChange={(e) => setFilter('user', e.target.value)} className={selectClassName}>
+                        <option value="">{t('activity.allUsers')}</option>
+                        {staff.map(member => <option key={member.email} value={member.email}>{member.email}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="filter-album" className="block text-sm font-medium text-gray-700">{t('field.album')}</label>
+                    <select id="filter-album" value={albumId ?? ''} onChange={(e) => setFilter('album', e.target.value)} className={selectClassName}>
+                        <option value="">{t('users.allAlbums')}</option>
+                        {albumId && !albums.some(a => a.id === albumId) && <option value={albumId}>{entries.find(e => e.album_id === albumId)?.album_title ?? t('activity.deletedAlbum')}</option>}
+                        {albums.map(album => <option key={album.id} value={album.id}>{album.title}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="filter-action" className="block text-sm font-medium text-gray-700">{t('activity.action')}</label>
+                    <select id="filter-action" value={action ?? ''} onChange={(e) => setFilter('action', e.target.value)} className={selectClassName}>
+                        <option value="">{t('activity.allActions')}</option>
+                        {AUDIT_ACTIONS.map(a => <option key={a} value={a}>{auditActionLabel(a)}</option>)}
+                    </select>
+                </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow overflow-hidden">
+                {loading ? <div className="p-6 flex justify-center"><Spinner /></div> : entries.length === 0 ? (
+                    <p className="p-6 text-center text-gray-500">{t('activity.empty')}</p>
+                ) : (
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('activity.time')}</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('activity.user')}</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('admin.actions')}</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('field.album')}</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('activity.changes')}</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {entries.map(entry => (
+                                <tr key={entry.id} className="align-top">
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDateTime(entry.created_at)}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{entry.actor_email ?? <span className="text-gray-400">{t('activity.system')}</span>}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{auditActionLabel(entry.action) ?? entry.action}</td>
+                                    <td className="px-6 py-4 text-sm">
+                                        {entry.album_id && entry.action !== 'album.delete' && albums.some(a => a.id === entry.album_id)
+                                            ? <Link to={`/admin/album/${entry.album_id}`} className="text-brand-blue-600 hover:text-brand-blue-800">{entry.album_title}</Link>
+                                            : <span className="text-gray-700">{entry.album_title}</span>}
+                                    </td>
+                                    <td className="px-6 py-4 text-sm text-gray-700">
+                                        <ul className="space-y-1">
+                                            {describeChanges(entry).map(change => (
+                                                <li key={change.field} className="flex flex-wrap items-center gap-1">
+                                                    <span className="font-medium text-gray-500">{change.label}:</span>
+                                                    {change.before !== undefined && change.after !== undefined ? (
+                                                        <><AuditValue field={change.field} value={change.before} /> <span className="text-gray-400">→</span> <AuditValue field={change.field} value={change.after} /></>
+                                                    ) : (
+                                                        <AuditValue field={change.field} value={change.after ?? change.before} />
+                                                    )}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                )}
+                {nextCursor && !loading && (
+                    <div className="p-4 flex justify-center border-t border-gray-200">
+                        <Button variant="secondary" onClick={loadMore} disabled={loadingMore}>{loadingMore ? t('activity.loading') : t('common.loadMore')}</Button>
+                    </div>
+                )}
+            </div>
+        </AdminLayout>
+    );
+};
+
+
+// --- Admin Trash Page ---
+export const AdminTrashPage: React.FC = () => {
+    const repository = useRepository();
+    const addToast = useToast();
+    const { can } = useAuth();
+    const { t } = useI18n();
+    const canPurge = can('trash.purge');
+    const retentionDays = getConfig().trashRetentionDays;
+    const [albums, setAlbums] = useState<Album[]>([]);
+    const [photos, setPhotos] = useState<TrashedPhoto[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [busy, setBusy] = useState(false);
+
+    const fetchTrash = useCallback(async () => {
+        setLoading(true);
+        // Let a running automatic purge finish first, so nothing listed is about to disappear.
+        if (canPurge) await purgeExpiredTrash(repository, retentionDays).catch(() => 0);
+
+        const [albumsResult, photosResult] = await Promise.allSettled([
+            repository.albums.listTrashed(),
+            repository.photos.listTrashed(),
+        ]);
+        if (albumsResult.status === 'rejected') {
+            addToast(t('trash.albumsLoadFailed', albumsResult.reason.message), 'error');
+        } else {
+            setAlbums(albumsResult.value);
+        }
+        if (photosResult.status === 'rejected') {
+            addToast(t('trash.photosLoadFailed', photosResult.reason.message), 'error');
+        } else {
+            setPhotos(photosResult.value);
+        }
+        setLoading(false);
+    }, [repository, addToast, t, canPurge, retentionDays]);
+
+    useEffect(() => {
+        fetchTrash();
+    }, [fetchTrash]);
+
+    // Runs one trash action with the buttons disabled, then reloads the lists.
+    const run = async (action: () => Promise<void>, success: string, failure: string) => {
+        setBusy(true);
+        try {
+            await action();
+            addToast(success, 'success');
+        } catch (error: any) {
+            addToast(`${failure}: ${error.message}`, 'error');
+        }
+        setBusy(false);
+        fetchTrash();
+    };
+
+    const handlePurgeAlbum = (album: Album) => {
+        if (!window.confirm(t('trash.purgeAlbumConfirm', album.title))) return;
+        run(() => purgeAlbum(repository, album.id), t('trash.albumPurged', album.title), t('trash.purgeAlbumFailed'));
+    };
+
+    const handlePurgePhoto = (photo: TrashedPhoto) => {
+        if (!window.confirm(t('trash.purgePhotoConfirm'))) return;
+        run(() => purgePhoto(repository, photo), t('trash.photoPurged'), t('trash.purgePhotoFailed'));
+    };
+
+    const handleEmptyTrash = () => {
+        if (!window.confirm(t('trash.emptyConfirm', albums.length, photos.length))) return;
+        const albumIds = new Set(albums.map(a => a.id));
+        run(async () => {
+            const results = await Promise.allSettled([
+                ...albums.map(a => purgeAlbum(repository, a.id)),
+                // Photos inside a purged album go with it.
+                ...photos.filter(p => !albumIds.has(p.album_id)).map(p => purgePhoto(repository, p)),
+            ]);
+            const failed = results.filter(r => r.status === 'rejected').length;
+            if (failed > 0) throw new Error(t('trash.itemsNotPurged', failed));
+        }, t('trash.emptied'), t('trash.emptyFailed'));
+    };
+
+    const purgeNote = (deletedAt: string) => {
+        const days = daysUntilPurge(deletedAt, retentionDays);
+        return `${t('trash.deletedOn', formatDate(deletedAt, { dateStyle: 'medium' }))} · ${days > 0 ? t('trash.purgedIn', days) : t('trash.purgedSoon')}`;
+    };
+
+    return (
+        <AdminLayout>
+            <div className="flex flex-wrap gap-4 justify-between items-center mb-2">
+                <h1 className="text-3xl font-bold text-gray-900">{t('trash.title')}</h1>
+                {canPurge && (albums.length > 0 || photos.length > 0) && (
+                    <Button variant="danger" onClick={handleEmptyTrash} disabled={busy}>{t('trash.empty')}</Button>
+                )}
+            </div>
+            <p className="text-sm text-gray-500 mb-6">{t('trash.retention', retentionDays)}</p>
+
+            {loading ? <div className="flex justify-center"><Spinner /></div> : (
+                <>
+                    <section className="bg-white rounded-lg shadow overflow-hidden mb-8">
+                        <h2 className="text-xl font-semibold p-6">{t('trash.albums', albums.length)}</h2>
+                        {albums.length === 0 ? <p className="px-6 pb-6 text-gray-500">{t('trash.noAlbums')}</p> : (
+                            <ul className="divide-y divide-gray-200">
+                                {albums.map(album => (
+                                    <li key={album.id} className="px-6 py-4 flex flex-wrap gap-4 items-center justify-between">
+                                        <div>
+                                            <p className="text-sm font-medium text-gray-900">{album.title}</p>
+                                            <p className="text-xs text-gray-500">{purgeNote(album.deleted_at!)}</p>
+                                        </div>
+                                        <div className="space-x-2">
+                                            <Button variant="secondary" disabled={busy} onClick={() => run(() => repository.albums.restore(album.id), t('trash.albumRestored', album.title), t('trash.restoreAlbumFailed'))}>{t('trash.restore')}</Button>
+                                            {canPurge && <Button variant="danger" disabled={busy} onClick={() => handlePurgeAlbum(album)}>{t('trash.purge')}</Button>}
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </section>
+
+                    <section className="bg-white rounded-lg shadow p-6">
+                        <h2 className="text-xl font-semibold mb-4">{t('trash.photos', photos.length)}</h2>
+                        {photos.length === 0 ? <p className="text-gray-500">{t('trash.noPhotos')}</p> : (
+                            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+                                {photos.map(photo => (
+                                    <div key={photo.id} className="bg-gray-50 rounded-md overflow-hidden">
+                                        <ResponsiveImage src={photo.image_url} variants={photo.variants} sizes="200px" alt={photo.alt_text || photo.caption || ''} className="w-full h-32 object-cover" />
+                                        <div className="p-2 space-y-1">
+                                            <p className="text-xs font-medium text-gray-900 truncate">{photo.album_title}</p>
+                                            <p className="text-xs text-gray-500">{purgeNote(photo.deleted_at)}</p>
+                                            <div className="flex gap-2 pt-1">
+                                                <button disabled={busy} onClick={() => run(() => repository.photos.restore(photo.id), t('trash.photoRestored'), t('trash.restorePhotoFailed'))} className="text-xs font-semibold text-brand-blue-600 hover:text-brand-blue-800 disabled:opacity-50">{t('trash.restore')}</button>
+                                                {canPurge && <button disabled={busy} onClick={() => handlePurgePhoto(photo)} className="text-xs font-semibold text-red-600 hover:text-red-800 disabled:opacity-50">{t('trash.purge')}</button>}
+                                            </div>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </section>
+                </>
+            )}
+        </AdminLayout>
+    );
+};
@@ -1,26 +1,89 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { useParams, Link } from 'react-router-dom';
-import { supabase } from '../lib/supabase';
-import { Album, Photo } from '../types';
-import { Modal, Spinner, ChevronLeftIcon, ChevronRightIcon, CameraIcon } from '../components/ui';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useParams, useNavigate, useSearchParams, useLocation, Link } from 'react-router-dom';
+import { Album, Photo, PhotoSearchResult, Tag } from '../types';
+import { useRepository, useAuth, useToast, useI18n } from '../App';
+import { Page } from '../lib/repository';
+import { getConfig } from '../lib/config';
+import { ALBUM_PAGE_SIZE, PHOTO_PAGE_SIZE } from '../lib/pagination';
+import { isAlbumPublic, displayStatus, albumStatusLabel } from '../lib/albumStatus';
+import { searchTerms } from '../lib/search';
+import { albumPath, photoPath } from '../lib/routes';
+import { pageTitle } from '../lib/seo';
+import { formatDate, formatDateTime, localizeAlbum } from '../lib/i18n';
+import { offlineSupported, isAlbumSaved, saveAlbumForOffline, removeSavedAlbum } from '../lib/offline';
+import { variantSrcSet } from '../lib/renditions';
+import { Point, ZoomState, NO_ZOOM, DOUBLE_TAP_SCALE, distance, midpoint, zoomAround, clampPan } from '../lib/zoom';
+import { albumDate, groupBySchoolYear, schoolYearLabel } from '../lib/schoolYear';
+import { Modal, Button, Spinner, ResponsiveImage, Highlight, LoadMoreTrigger, DownloadAlbumButton, LanguageSwitcher, InfoIcon, ShareIcon, PlayIcon, PauseIcon, FullscreenIcon, ChevronLeftIcon, ChevronRightIcon, CameraIcon, SearchIcon } from '../components/ui';
 
 // --- Reusable Layout Components ---
-const PublicHeader = () => (
-    <header className="bg-brand-blue-800 text-white shadow-md">
-        <nav className="container mx-auto px-6 py-4 flex justify-between items-center">
-            <Link to="/" className="text-xl md:text-2xl font-bold">SMK LPPMRI 2 KEDUNGREJA</Link>
-            <Link to="/" className="text-lg hover:text-brand-blue-200 transition-colors">Galeri</Link>
-        </nav>
-    </header>
-);
+const useOnlineStatus = () => {
+    const [online, setOnline] = useState(navigator.onLine);
+    useEffect(() => {
+        const update = () => setOnline(navigator.onLine);
+        window.addEventListener('online', update);
+        window.addEventListener('offline', update);
+        return () => {
+            window.removeEventListener('online', update);
+            window.removeEventListener('offline', update);
+        };
+    }, []);
+    return online;
+};
 
-const PublicFooter = () => (
-    <footer className="bg-gray-800 text-white mt-auto">
-        <div className="container mx-auto px-6 py-4 text-center">
-            <p>&copy; {new Date().getFullYear()} SMK LPPMRI 2 KEDUNGREJA. Seluruh hak cipta dilindungi.</p>
-        </div>
-    </footer>
-);
+const PublicHeader = () => {
+    const [searchParams] = useSearchParams();
+    const [query, setQuery] = useState(searchParams.get('q') ?? '');
+    const navigate = useNavigate();
+    const online = useOnlineStatus();
+    const { locale, setLocale, t } = useI18n();
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (query.trim()) navigate(`/search?q=${encodeURIComponent(query.trim())}`);
+    };
+
+    return (
+        <header className="bg-brand-blue-800 text-white shadow-md">
+            <nav className="container mx-auto px-6 py-4 flex flex-wrap gap-4 justify-between items-center">
+                <div className="flex items-center gap-3">
+                    <Link to="/" className="text-xl md:text-2xl font-bold">{getConfig().siteName}</Link>
+                    {!online && (
+                        <span role="status" title={t('public.offlineHint')} className="px-2 py-0.5 rounded-full bg-amber-400 text-amber-950 text-xs font-semibold">
+                            {t('public.offline')}
+                        </span>
+                    )}
+                </div>
+                <div className="flex items-center gap-4">
+                    <form onSubmit={handleSearch} role="search" className="relative">
+                        <SearchIcon className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-brand-blue-200" />
+                        <input
+                            type="search"
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                            placeholder={t('public.searchPlaceholder')}
+                            aria-label={t('public.searchLabel')}
+                            className="w-48 md:w-64 pl-9 pr-3 py-1.5 rounded-full bg-brand-blue-900 text-white placeholder-brand-blue-200 text-sm focus:outline-none focus:ring-2 focus:ring-brand-blue-300"
+                        />
+                    </form>
+                    <Link to="/" className="text-lg hover:text-brand-blue-200 transition-colors">{t('public.galleryLink')}</Link>
+                    <LanguageSwitcher locale={locale} onChange={setLocale} inverted />
+                </div>
+            </nav>
+        </header>
+    );
+};
+
+const PublicFooter = () => {
+    const { t } = useI18n();
+    return (
+        <footer className="bg-gray-800 text-white mt-auto">
+            <div className="container mx-auto px-6 py-4 text-center">
+                <p>&copy; {new Date().getFullYear()} {getConfig().siteName}. {t('public.rightsReserved')}</p>
+            </div>
+        </footer>
+    );
+};
 
 const PageLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => (
     <div className="min-h-screen flex flex-col bg-gray-50 text-gray-800">
@@ -32,175 +95,844 @@ const PageLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => (
     </div>
 );
 
+// --- Infinite List ---
+// Loads the first page whenever `fetchPage` changes and appends further pages on demand.
+// `loadMore` resolves to whether any items were added.
+const useInfiniteList = <T,>(fetchPage: (cursor: string | null) => Promise<Page<T>>) => {
+    const [items, setItems] = useState<T[]>([]);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [loadingMore, setLoadingMore] = useState(false);
+    // Bumped on every reset so pages requested for the previous list are dropped.
+    const generationRef = useRef(0);
+    const pendingRef = useRef<Promise<boolean> | null>(null);
+
+    useEffect(() => {
+        const generation = ++generationRef.current;
+        pendingRef.current = null;
+        const fetchFirstPage = async () => {
+            setLoading(true);
+            setLoadingMore(false);
+            try {
+                const page = await fetchPage(null);
+                if (generation !== generationRef.current) return;
+                setItems(page.items);
+                setNextCursor(page.nextCursor);
+            } catch (error: any) {
+                if (generation !== generationRef.current) return;
+                console.error('Error fetching page:', error.message, error);
+                setItems([]);
+                setNextCursor(null);
+            }
+            setLoading(false);
+        };
+        fetchFirstPage();
+    }, [fetchPage]);
+
+    const loadMore = useCallback((): Promise<boolean> => {
+        if (!nextCursor) return Promise.resolve(false);
+        if (pendingRef.current) return pendingRef.current;
+        const generation = generationRef.current;
+        const fetchNextPage = async () => {
+            setLoadingMore(true);
+            try {
+                const page = await fetchPage(nextCursor);
+                if (generation !== generationRef.current) return false;
+                setItems(prev => [...prev, ...page.items]);
+                setNextCursor(page.nextCursor);
+                return page.items.length > 0;
+            } catch (error: any) {
+                console.error('Error fetching next page:', error.message, error);
+                return false;
+            } finally {
+                if (generation === generationRef.current) {
+                    pendingRef.current = null;
+                    setLoadingMore(false);
+                }
+            }
+        };
+        pendingRef.current = fetchNextPage();
+        return pendingRef.current;
+    }, [fetchPage, nextCursor]);
+
+    return { items, loading, loadingMore, hasMore: nextCursor !== null, loadMore };
+};
+
+// --- Lightbox gestures ---
+// Pixels a finger must travel before a touch counts as a drag rather than a tap.
+const TAP_SLOP = 10;
+const SWIPE_DISTANCE = 60;
+const CLOSE_DISTANCE = 120;
+const DOUBLE_TAP_MS = 300;
+
+interface Gesture {
+    start: Point;
+    // Zoom when the gesture began; pinches and pans are relative to it.
+    zoom: ZoomState;
+    moved: boolean;
+    // Set for two-finger pinches.
+    pinch?: { distance: number; center: Point };
+    // Set once a one-finger swipe has picked a direction.
+    axis?: 'x' | 'y';
+}
+
+interface GestureActions {
+    onPrevious: () => void;
+    onNext: () => void;
+    onClose: () => void;
+}
+
+// Swipe sideways to page, swipe down to close, pinch or double-tap to zoom and drag to
+// pan while zoomed. Pointer events cover touch, pen and mouse alike. Zoom resets when
+// `resetKey` (the photo shown) changes.
+const useLightboxGestures = (resetKey: string, { onPrevious, onNext, onClose }: GestureActions) => {
+    const stageRef = useRef<HTMLDivElement>(null);
+    const [zoom, setZoom] = useState<ZoomState>(NO_ZOOM);
+    // How far the photo follows the finger during a swipe.
+    const [swipe, setSwipe] = useState<Point | null>(null);
+    const [active, setActive] = useState(false);
+    const zoomRef = useRef(zoom);
+    zoomRef.current = zoom;
+    const pointersRef = useRef(new Map<number, Point>());
+    const gestureRef = useRef<Gesture | null>(null);
+    const lastTapRef = useRef<{ at: number; point: Point } | null>(null);
+
+    useEffect(() => {
+        setZoom(NO_ZOOM);
+        setSwipe(null);
+    }, [resetKey]);
+
+    // Pointer position relative to the centre of the stage.
+    const toStage = (e: React.PointerEvent): Point => {
+        const rect = stageRef.current!.getBoundingClientRect();
+        return { x: e.clientX - rect.left - rect.width / 2, y: e.clientY - rect.top - rect.height / 2 };
+    };
+
+    const fitToStage = (next: ZoomState) => {
+        const rect = stageRef.current?.getBoundingClientRect();
+        return rect ? clampPan(next, rect.width, rect.height) : next;
+    };
+
+    // Restarts from the current zoom whenever a finger is added or lifted, so the
+    // remaining fingers carry on smoothly.
+    const beginGesture = (moved: boolean) => {
+        const [a, b] = [...pointersRef.current.values()];
+        gestureRef.current = b
+            ? { start: a, zoom: zoomRef.current, moved: true, pinch: { distance: distance(a, b), center: midpoint(a, b) } }
+            : { start: a, zoom: zoomRef.current, moved };
+    };
+
+    const onPointerDown = (e: React.PointerEvent) => {
+        if (e.pointerType === 'mouse' && e.button !== 0) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        pointersRef.current.set(e.pointerId, toStage(e));
+        if (pointersRef.current.size > 2) return;
+        setSwipe(null);
+        setActive(true);
+        beginGesture(false);
+    };
+
+    const onPointerMove = (e: React.PointerEvent) => {
+        if (!pointersRef.current.has(e.pointerId)) return;
+        const point = toStage(e);
+        pointersRef.current.set(e.pointerId, point);
+        const gesture = gestureRef.current;
+        if (!gesture) return;
+
+        if (gesture.pinch) {
+            const [a, b] = [...pointersRef.current.values()];
+            const scale = gesture.zoom.scale * distance(a, b) / gesture.pinch.distance;
+            setZoom(fitToStage(zoomAround(gesture.zoom, scale, gesture.pinch.center, midpoint(a, b))));
+            return;
+        }
+        const dx = point.x - gesture.start.x;
+        const dy = point.y - gesture.start.y;
+        if (!gesture.moved && Math.hypot(dx, dy) < TAP_SLOP) return;
+        gesture.moved = true;
+        if (gesture.zoom.scale > 1) {
+            setZoom(fitToStage({ ...gesture.zoom, x: gesture.zoom.x + dx, y: gesture.zoom.y + dy }));
+            return;
+        }
+        gesture.axis ??= Math.abs(dx) > Math.abs(dy) ? 'x' : 'y';
+        setSwipe(gesture.axis === 'x' ? { x: dx, y: 0 } : { x: 0, y: Math.max(0, dy) });
+    };
+
+    const onPointerUp = (e: React.PointerEvent) => {
+        if (!pointersRef.current.has(e.pointerId)) return;
+        pointersRef.current.delete(e.pointerId);
+        const gesture = gestureRef.current;
+        if (pointersRef.current.size > 0) {
+            beginGesture(true);
+            return;
+        }
+        gestureRef.current = null;
+        setActive(false);
+        setSwipe(null);
+        // A pinch let go of just above 1× snaps back rather than leaving a sliver of zoom.
+        if (zoomRef.current.scale < 1.05) setZoom(NO_ZOOM);
+        if (!gesture || e.type === 'pointercancel') return;
+
+        const point = toStage(e);
+        if (!gesture.moved) {
+            const lastTap = lastTapRef.current;
+            if (lastTap && Date.now() - lastTap.at < DOUBLE_TAP_MS && distance(lastTap.point, point) < TAP_SLOP * 3) {
+                lastTapRef.current = null;
+                setZoom(zoomRef.current.scale > 1 ? NO_ZOOM : fitToStage(zoomAround(NO_ZOOM, DOUBLE_TAP_SCALE, point)));
+            } else {
+                lastTapRef.current = { at: Date.now(), point };
+            }
+            return;
+        }
+        if (gesture.zoom.scale > 1) return;
+        const dx = point.x - gesture.start.x;
+        const dy = point.y - gesture.start.y;
+        if (gesture.axis === 'x' && Math.abs(dx) > SWIPE_DISTANCE) {
+            if (dx < 0) onNext(); else onPrevious();
+        } else if (gesture.axis === 'y' && dy > CLOSE_DISTANCE) {
+            onClose();
+        }
+    };
+
+    const transform = swipe
+        ? `translate(${swipe.x}px, ${swipe.y}px)`
+        : `translate(${zoom.x}px, ${zoom.y}px) scale(${zoom.scale})`;
+
+    return {
+        stageRef,
+        handlers: { onPointerDown, onPointerMove, onPointerUp, onPointerCancel: onPointerUp },
+        zoomed: zoom.scale > 1,
+        style: {
+            transform,
+            // Follow the finger exactly; animate only the snap back or the double-tap zoom.
+            transition: active ? 'none' : 'transform 200ms ease-out',
+            opacity: swipe ? 1 - Math.min(swipe.y / 400, 0.6) : 1,
+        } as React.CSSProperties,
+    };
+};
+
 // --- Photo Lightbox Component ---
+// A link that works outside the app.
+const absoluteUrl = (path: string) => `${window.location.origin}${path}`;
+
 interface PhotoLightboxProps {
     photos: Photo[];
-    startIndex: number;
+    // The photo shown; the parent owns it so it can mirror it in the URL.
+    index: number;
+    onNavigate: (index: number) => void;
     onClose: () => void;
+    // Set when `photos` is only the loaded part of a longer list.
+    hasMore?: boolean;
+    onLoadMore?: () => Promise<boolean>;
 }
-const PhotoLightbox: React.FC<PhotoLightboxProps> = ({ photos, startIndex, onClose }) => {
-    const [currentIndex, setCurrentIndex] = useState(startIndex);
+// Camera details of the photo shown in the lightbox.
+const PhotoInfoPanel: React.FC<{ photo: Photo }> = ({ photo }) => {
+    const { t } = useI18n();
+    const metadata = photo.metadata ?? {};
+    // Photos uploaded without EXIF dimensions fall back to the stored large rendition.
+    const width = metadata.width ?? photo.variants?.large?.width;
+    const height = metadata.height ?? photo.variants?.large?.height;
+    const rows: [string, React.ReactNode][] = [];
+    if (photo.taken_at) rows.push([t('lightbox.taken'), formatDateTime(photo.taken_at, { dateStyle: 'full', timeStyle: 'short' })]);
+    if (metadata.camera) rows.push([t('lightbox.camera'), metadata.camera]);
+    if (width && height) rows.push([t('lightbox.dimensions'), `${width} × ${height} px`]);
+
+    return (
+        <div className="mt-3 bg-black bg-opacity-50 p-3 rounded-md text-sm text-gray-200">
+            {rows.length === 0 ? <p>{t('lightbox.noCameraInfo')}</p> : (
+                <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1">
+                    {rows.map(([label, value]) => (
+                        <React.Fragment key={label}>
+                            <dt className="text-gray-400">{label}</dt>
+                            <dd>{value}</dd>
+                        </React.Fragment>
+                    ))}
+                </dl>
+            )}
+        </div>
+    );
+};
+
+const LIGHTBOX_SIZES = '(min-width: 896px) 896px, 100vw';
+const SLIDESHOW_SECONDS = [3, 5, 10, 20];
+
+// Pages in more photos as the viewer nears the end of what is loaded, so browsing is
+// never limited to the current page. Wrapping around only happens once everything is loaded.
+const PhotoLightbox: React.FC<PhotoLightboxProps> = ({ photos, index: currentIndex, onNavigate, onClose, hasMore = false, onLoadMore }) => {
+    const addToast = useToast();
+    const { t } = useI18n();
+    // Stays open while paging, so details can be compared photo to photo.
+    const [showInfo, setShowInfo] = useState(false);
+    // "Next" past the loaded photos: the new page only reaches `photos` on a later render.
+    const [awaitedIndex, setAwaitedIndex] = useState<number | null>(null);
+    const [playing, setPlaying] = useState(false);
+    const [slideSeconds, setSlideSeconds] = useState(5);
+    const [fullscreen, setFullscreen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const filmstripRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (hasMore && onLoadMore && currentIndex >= photos.length - 3) onLoadMore();
+    }, [currentIndex, photos.length, hasMore, onLoadMore]);
+
+    useEffect(() => {
+        if (awaitedIndex === null || awaitedIndex >= photos.length) return;
+        setAwaitedIndex(null);
+        onNavigate(awaitedIndex);
+    }, [awaitedIndex, photos.length, onNavigate]);
 
     const goToPrevious = useCallback(() => {
-        setCurrentIndex((prevIndex) => (prevIndex === 0 ? photos.length - 1 : prevIndex - 1));
-    }, [photos.length]);
+        onNavigate(currentIndex > 0 ? currentIndex - 1 : hasMore ? 0 : photos.length - 1);
+    }, [currentIndex, photos.length, hasMore, onNavigate]);
+
+    const goToNext = useCallback(async () => {
+        if (currentIndex < photos.length - 1) {
+            onNavigate(currentIndex + 1);
+        } else if (hasMore && onLoadMore) {
+            if (await onLoadMore()) setAwaitedIndex(currentIndex + 1);
+        } else {
+            onNavigate(0);
+        }
+    }, [currentIndex, photos.length, hasMore, onLoadMore, onNavigate]);
+
+    const photo = photos[currentIndex];
+    const gestures = useLightboxGestures(photo?.id ?? '', { onPrevious: goToPrevious, onNext: goToNext, onClose });
+
+    // The timer restarts on every photo, so paging by hand never cuts a slide short.
+    const goToNextRef = useRef(goToNext);
+    goToNextRef.current = goToNext;
+    useEffect(() => {
+        if (!playing || gestures.zoomed) return;
+        const timer = setTimeout(() => goToNextRef.current(), slideSeconds * 1000);
+        return () => clearTimeout(timer);
+    }, [playing, gestures.zoomed, slideSeconds, currentIndex]);
+
+    // Fetch the neighbours now so paging shows them without a blank moment.
+    useEffect(() => {
+        for (const neighbour of [photos[currentIndex + 1], photos[currentIndex - 1]]) {
+            if (!neighbour) continue;
+            const image = new Image();
+            const srcSet = variantSrcSet(neighbour.variants);
+            if (srcSet) {
+                image.sizes = fullscreen ? '100vw' : LIGHTBOX_SIZES;
+                image.srcset = srcSet;
+            }
+            image.src = neighbour.variants?.medium?.url ?? neighbour.image_url;
+        }
+    }, [currentIndex, photos, fullscreen]);
+
+    useEffect(() => {
+        filmstripRef.current
+            ?.querySelector<HTMLElement>('[aria-current="true"]')
+            ?.scrollIntoView({ block: 'nearest', inline: 'center', behavior: 'smooth' });
+    }, [currentIndex]);
+
+    // Also catches leaving fullscreen with the browser's own Esc.
+    useEffect(() => {
+        const handleChange = () => setFullscreen(document.fullscreenElement === containerRef.current);
+        document.addEventListener('fullscreenchange', handleChange);
+        return () => {
+            document.removeEventListener('fullscreenchange', handleChange);
+            if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+        };
+    }, []);
+
+    const toggleFullscreen = useCallback(() => {
+        if (document.fullscreenElement) {
+            document.exitFullscreen().catch(() => {});
+        } else {
+            containerRef.current?.requestFullscreen().catch((error) => console.warn('Fullscreen refused:', error));
+        }
+    }, []);
 
-    const goToNext = useCallback(() => {
-        setCurrentIndex((prevIndex) => (prevIndex === photos.length - 1 ? 0 : prevIndex + 1));
-    }, [photos.length]);
-    
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.target instanceof HTMLSelectElement) return;
             if (e.key === 'ArrowLeft') goToPrevious();
             if (e.key === 'ArrowRight') goToNext();
             if (e.key === 'Escape') onClose();
+            if (e.key === 'i') setShowInfo(show => !show);
+            if (e.key === 'f' && document.fullscreenEnabled) toggleFullscreen();
+            if (e.key === ' ') {
+                e.preventDefault();
+                setPlaying(play => !play);
+            }
         };
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [goToPrevious, goToNext, onClose]);
+    }, [goToPrevious, goToNext, onClose, toggleFullscreen]);
 
-    const photo = photos[currentIndex];
     if (!photo) return null;
 
+    // The share sheet where the browser has one (mostly phones), otherwise the clipboard.
+    const handleShare = async () => {
+        const url = absoluteUrl(photoPath(photo.album_id, photo.id));
+        if (navigator.share) {
+            try {
+                await navigator.share({ title: photo.caption || t('lightbox.photoFallback'), url });
+                return;
+            } catch (error: any) {
+                if (error.name === 'AbortError') return;
+            }
+        }
+        try {
+            await navigator.clipboard.writeText(url);
+            addToast(t('lightbox.linkCopied'), 'success');
+        } catch {
+            window.prompt(t('lightbox.copyLinkPrompt'), url);
+        }
+    };
+
+    const toolbarButton = "bg-black bg-opacity-50 text-white p-2 rounded-full hover:bg-opacity-75 transition-all";
+
     return (
         <Modal isOpen={true} onClose={onClose}>
-            <div className="relative">
-                <img src={photo.image_url} alt={photo.caption || 'Foto kegiatan'} className="max-h-[75vh] w-full object-contain rounded-md" />
+            <div ref={containerRef} className={fullscreen ? 'h-full flex flex-col justify-center bg-black p-4' : ''}>
+                <div className="relative overflow-hidden rounded-md">
+                    <div
+                        ref={gestures.stageRef}
+                        {...gestures.handlers}
+                        className={`touch-none select-none ${gestures.zoomed ? 'cursor-grab' : ''}`}
+                    >
+                        <ResponsiveImage
+                            key={photo.id}
+                            src={photo.image_url}
+                            variants={photo.variants}
+                            sizes={fullscreen ? '100vw' : LIGHTBOX_SIZES}
+                            loading="eager"
+                            draggable={false}
+                            alt={photo.alt_text || photo.caption || t('lightbox.photoFallback')}
+                            style={gestures.style}
+                            className={`${fullscreen ? 'max-h-[calc(100vh-7rem)]' : 'max-h-[65vh]'} w-full object-contain`}
+                        />
+                    </div>
+
+                    <button onClick={goToPrevious} aria-label={t('lightbox.previous')} className={`absolute left-2 top-1/2 -translate-y-1/2 ${toolbarButton}`}>
+                        <ChevronLeftIcon className="w-6 h-6" />
+                    </button>
+                    <button onClick={goToNext} aria-label={t('lightbox.next')} className={`absolute right-2 top-1/2 -translate-y-1/2 ${toolbarButton}`}>
+                        <ChevronRightIcon className="w-6 h-6" />
+                    </button>
+                </div>
                 {photo.caption && <p className="text-center text-white mt-3 bg-black bg-opacity-50 p-2 rounded-md">{photo.caption}</p>}
-                
-                <button onClick={goToPrevious} className="absolute left-2 top-1/2 -translate-y-1/2 bg-black bg-opacity-50 text-white p-2 rounded-full hover:bg-opacity-75 transition-all">
-                    <ChevronLeftIcon className="w-6 h-6" />
+
+                <div className="mt-3 flex flex-wrap items-center justify-between gap-2 text-sm text-gray-300">
+                    <span>{currentIndex + 1} / {hasMore ? `${photos.length}+` : photos.length}</span>
+                    <div className="flex items-center gap-2">
+                        <button onClick={() => setPlaying(play => !play)} aria-pressed={playing} aria-label={playing ? t('lightbox.pause') : t('lightbox.play')} title={t('lightbox.slideshowHint')} className={toolbarButton}>
+                            {playing ? <PauseIcon className="w-5 h-5" /> : <PlayIcon className="w-5 h-5" />}
+                        </button>
+                        <select
+                            value={slideSeconds}
+                            onChange={(e) => setSlideSeconds(Number(e.target.value))}
+                            aria-label={t('lightbox.interval')}
+                            className="bg-gray-800 text-gray-200 border border-gray-700 rounded-md px-2 py-1 text-sm"
+                        >
+                            {SLIDESHOW_SECONDS.map(seconds => <option key={seconds} value={seconds}>{t('lightbox.seconds', seconds)}</option>)}
+                        </select>
+                        {document.fullscreenEnabled && (
+                            <button onClick={toggleFullscreen} aria-pressed={fullscreen} aria-label={t('lightbox.fullscreen')} title={t('lightbox.fullscreenHint')} className={toolbarButton}>
+                                <FullscreenIcon exit={fullscreen} className="w-5 h-5" />
+                            </button>
+                        )}
+                        <button onClick={handleShare} aria-label={t('lightbox.share')} title={t('lightbox.share')} className={toolbarButton}>
+                            <ShareIcon className="w-5 h-5" />
+                        </button>
+                        <button onClick={() => setShowInfo(show => !show)} aria-pressed={showInfo} aria-label={t('lightbox.info')} title={t('lightbox.infoHint')} className={toolbarButton}>
+                            <InfoIcon className="w-5 h-5" />
+                        </button>
+                    </div>
+                </div>
+                {showInfo && <PhotoInfoPanel photo={photo} />}
+
+                {!fullscreen && photos.length > 1 && (
+                    <div ref={filmstripRef} className="mt-3 flex gap-2 overflow-x-auto pb-1">
+                        {photos.map((item, index) => (
+                            <button
+                                key={item.id}
+                                onClick={() => onNavigate(index)}
+                                aria-label={t('public.photoAlt', index + 1)}
+                                aria-current={index === currentIndex}
+                                className={`flex-shrink-0 w-14 h-14 rounded overflow-hidden border-2 transition-opacity ${index === currentIndex ? 'border-white' : 'border-transparent opacity-60 hover:opacity-100'}`}
+                            >
+                                <img src={item.variants?.small?.url ?? item.image_url} alt="" loading="lazy" className="w-full h-full object-cover" />
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </Modal>
+    );
+};
+
+// --- Album Card ---
+// `terms` highlights search matches in the title.
+const AlbumCard: React.FC<{ album: Album; terms?: string[] }> = ({ album: original, terms = [] }) => {
+    const { t } = useI18n();
+    const album = localizeAlbum(original);
+    return (
+        <Link to={albumPath(album.id)} className="group block bg-white rounded-lg shadow-md overflow-hidden transform hover:-translate-y-1 transition-all duration-300">
+           <div className="relative pb-[75%]">
+                {album.cover_image_url ? (
+                    <ResponsiveImage
+                        src={album.cover_image_url}
+                        variants={album.cover_variants}
+                        sizes="(min-width: 1280px) 25vw, (min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
+                        alt={album.title}
+                        className="absolute h-full w-full object-cover transition-transform duration-300 group-hover:scale-105"
+                    />
+                ) : (
+                    <div className="absolute h-full w-full bg-gray-200 flex items-center justify-center">
+                        <CameraIcon className="w-16 h-16 text-gray-400" />
+                    </div>
+                )}
+           </div>
+           <div className="p-4">
+                <h3 className="font-bold text-lg text-gray-900 truncate"><Highlight text={album.title} terms={terms} /></h3>
+                {album.tags && album.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                        {album.tags.map(tag => <span key={tag.id} className="px-2 py-0.5 text-xs rounded-full bg-brand-blue-50 text-brand-blue-700">{tag.name}</span>)}
+                    </div>
+                )}
+                {terms.length > 0 && album.description && (
+                    <p className="text-sm text-gray-600 mt-1 line-clamp-2"><Highlight text={album.description} terms={terms} /></p>
+                )}
+                <div className="text-sm text-gray-500 mt-2 flex justify-between">
+                    <span>{formatDate(albumDate(album))}</span>
+                    <span>{t('public.cardPhotoCount', album.photo_count ?? 0)}</span>
+                </div>
+           </div>
+        </Link>
+    );
+};
+
+// --- Tag Filter Chips ---
+const TagChips: React.FC<{ tags: Tag[]; activeSlug?: string }> = ({ tags, activeSlug }) => {
+    const { t } = useI18n();
+    const chipClass = (active: boolean) =>
+        `px-4 py-1.5 rounded-full text-sm font-medium transition-colors ${active ? 'bg-brand-blue-700 text-white' : 'bg-white text-gray-700 shadow-sm hover:bg-brand-blue-50'}`;
+    return (
+        <nav aria-label={t('public.categories')} className="flex flex-wrap justify-center gap-2 mb-10">
+            <Link to="/" className={chipClass(!activeSlug)} aria-current={!activeSlug ? 'page' : undefined}>{t('common.all')}</Link>
+            {tags.map(tag => (
+                <Link key={tag.id} to={`/tag/${tag.slug}`} className={chipClass(tag.slug === activeSlug)} aria-current={tag.slug === activeSlug ? 'page' : undefined}>
+                    {tag.name}
+                </Link>
+            ))}
+        </nav>
+    );
+};
+
+// --- Archive View ---
+// Albums grouped by school year (Juli–Juni) and month, one school year at a time.
+const ArchiveView: React.FC<{ albums: Album[]; selectedYear: number | null; onSelectYear: (year: number) => void }> = ({ albums, selectedYear, onSelectYear }) => {
+    const { t } = useI18n();
+    const schoolYears = groupBySchoolYear(albums);
+    if (schoolYears.length === 0) return null;
+
+    const index = Math.max(0, schoolYears.findIndex(y => y.startYear === selectedYear));
+    const current = schoolYears[index];
+    const newer = schoolYears[index - 1];
+    const older = schoolYears[index + 1];
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-6 bg-white rounded-lg shadow-sm p-3">
+                <button onClick={() => older && onSelectYear(older.startYear)} disabled={!older} className="flex items-center space-x-1 px-3 py-1.5 rounded-md text-sm font-medium text-brand-blue-700 hover:bg-brand-blue-50 disabled:opacity-40 disabled:hover:bg-transparent">
+                    <ChevronLeftIcon className="w-4 h-4" /><span>{older ? schoolYearLabel(older.startYear) : t('public.archivePrevious')}</span>
                 </button>
-                <button onClick={goToNext} className="absolute right-2 top-1/2 -translate-y-1/2 bg-black bg-opacity-50 text-white p-2 rounded-full hover:bg-opacity-75 transition-all">
-                    <ChevronRightIcon className="w-6 h-6" />
+                <div className="flex flex-wrap justify-center gap-2">
+                    {schoolYears.map(y => (
+                        <button
+                            key={y.startYear}
+                            onClick={() => onSelectYear(y.startYear)}
+                            aria-current={y === current ? 'true' : undefined}
+                            className={`px-3 py-1 rounded-full text-sm font-semibold ${y === current ? 'bg-brand-blue-700 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+                        >
+                            {schoolYearLabel(y.startYear)}
+                        </button>
+                    ))}
+                </div>
+                <button onClick={() => newer && onSelectYear(newer.startYear)} disabled={!newer} className="flex items-center space-x-1 px-3 py-1.5 rounded-md text-sm font-medium text-brand-blue-700 hover:bg-brand-blue-50 disabled:opacity-40 disabled:hover:bg-transparent">
+                    <span>{newer ? schoolYearLabel(newer.startYear) : t('public.archiveNext')}</span><ChevronRightIcon className="w-4 h-4" />
                 </button>
             </div>
-        </Modal>
+
+            <h2 className="text-2xl font-bold text-gray-900 mb-6">{t('public.schoolYear', schoolYearLabel(current.startYear))}</h2>
+            <div className="space-y-10">
+                {current.months.map(month => (
+                    <section key={`${month.year}-${month.month}`}>
+                        <h3 className="text-lg font-semibold text-brand-blue-800 border-b border-gray-200 pb-2 mb-4">{formatDate(new Date(month.year, month.month), { month: 'long', year: 'numeric' })}</h3>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-8">
+                            {month.albums.map(album => <AlbumCard key={album.id} album={album} />)}
+                        </div>
+                    </section>
+                ))}
+            </div>
+        </div>
     );
 };
 
 // --- Home Page ---
+// Also serves /tag/:slug, showing only albums with that tag.
 export const PublicHomePage: React.FC = () => {
-    const [albums, setAlbums] = useState<Album[]>([]);
-    const [loading, setLoading] = useState(true);
+    const { slug } = useParams<{ slug?: string }>();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const viewMode = searchParams.get('view') === 'archive' ? 'archive' : 'grid';
+    const selectedYear = searchParams.get('year') ? Number(searchParams.get('year')) : null;
+    const repository = useRepository();
+    const { t } = useI18n();
+    const [archiveAlbums, setArchiveAlbums] = useState<Album[]>([]);
+    const [archiveLoading, setArchiveLoading] = useState(true);
+    const [tags, setTags] = useState<Tag[]>([]);
+
+    const fetchAlbumPage = useCallback(
+        (cursor: string | null) => repository.albums.listPage({ tagSlug: slug }, { cursor, limit: ALBUM_PAGE_SIZE }),
+        [repository, slug]
+    );
+    const grid = useInfiniteList(fetchAlbumPage);
 
     useEffect(() => {
+        repository.tags.list()
+            .then(setTags)
+            .catch((error) => console.error('Error fetching tags:', error.message, error));
+    }, [repository]);
+
+    // The archive groups every album by school year, so it still needs the full list.
+    useEffect(() => {
+        if (viewMode !== 'archive') return;
         const fetchAlbums = async () => {
-            setLoading(true);
-            const { data, error } = await supabase.rpc('get_albums_with_photo_count');
-            
-            if (error) {
+            setArchiveLoading(true);
+            try {
+                setArchiveAlbums(await repository.albums.listWithPhotoCount({ tagSlug: slug }));
+            } catch (error: any) {
                 console.error('Error fetching albums:', error.message, error);
-            } else if (data) {
-                setAlbums(data as Album[]);
             }
-            setLoading(false);
+            setArchiveLoading(false);
         };
         fetchAlbums();
-    }, []);
+    }, [repository, slug, viewMode]);
+
+    const albums = viewMode === 'archive' ? archiveAlbums : grid.items;
+    const loading = viewMode === 'archive' ? archiveLoading : grid.loading;
+
+    const activeTag = tags.find(tag => tag.slug === slug);
 
     return (
         <PageLayout>
-            <section className="text-center mb-12">
-                <h1 className="text-4xl md:text-5xl font-extrabold text-brand-blue-800">Galeri Kegiatan Kami</h1>
-                <p className="mt-4 text-lg text-gray-600">Dokumentasi momen-momen berharga di SMK LPPMRI 2 KEDUNGREJA.</p>
+            <section className="text-center mb-8">
+                <h1 className="text-4xl md:text-5xl font-extrabold text-brand-blue-800">{activeTag ? activeTag.name : t('public.homeTitle')}</h1>
+                <p className="mt-4 text-lg text-gray-600">
+                    {activeTag ? t('public.tagIntro', activeTag.name, getConfig().siteName) : t('public.homeIntro', getConfig().siteName)}
+                </p>
             </section>
+
+            {tags.length > 0 && <TagChips tags={tags} activeSlug={slug} />}
+
+            <div className="flex justify-end mb-6">
+                <div role="group" aria-label={t('public.viewLabel')} className="inline-flex rounded-md shadow-sm">
+                    {(['grid', 'archive'] as const).map(mode => (
+                        <button
+                            key={mode}
+                            onClick={() => setSearchParams(mode === 'archive' ? { view: 'archive' } : {})}
+                            aria-pressed={viewMode === mode}
+                            className={`px-4 py-1.5 text-sm font-medium border first:rounded-l-md last:rounded-r-md ${viewMode === mode ? 'bg-brand-blue-700 border-brand-blue-700 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+                        >
+                            {mode === 'grid' ? t('public.viewGrid') : t('public.viewArchive')}
+                        </button>
+                    ))}
+                </div>
+            </div>
             
             {loading ? (
                 <div className="flex justify-center"><Spinner /></div>
+            ) : albums.length === 0 ? (
+                <p className="text-center text-gray-500">{slug ? t('public.noAlbumsInTag') : t('public.noAlbums')}</p>
+            ) : viewMode === 'archive' ? (
+                <ArchiveView
+                    albums={albums}
+                    selectedYear={selectedYear}
+                    onSelectYear={(year) => setSearchParams({ view: 'archive', year: String(year) })}
+                />
             ) : (
-                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-8">
-                    {albums.map((album) => (
-                        <Link key={album.id} to={`/gallery/${album.id}`} className="group block bg-white rounded-lg shadow-md overflow-hidden transform hover:-translate-y-1 transition-all duration-300">
-                           <div className="relative pb-[75%]">
-                                {album.cover_image_url ? (
-                                    <img src={`${album.cover_image_url}?width=400&height=300`} alt={album.title} className="absolute h-full w-full object-cover transition-transform duration-300 group-hover:scale-105" />
-                                ) : (
-                                    <div className="absolute h-full w-full bg-gray-200 flex items-center justify-center">
-                                        <CameraIcon className="w-16 h-16 text-gray-400" />
-                                    </div>
-                                )}
-                           </div>
-                           <div className="p-4">
-                                <h3 className="font-bold text-lg text-gray-900 truncate">{album.title}</h3>
-                                <div className="text-sm text-gray-500 mt-2 flex justify-between">
-                                    <span>{new Date(album.created_at).toLocaleDateString('id-ID', { year: 'numeric', month: 'long', day: 'numeric' })}</span>
-                                    <span>{album.photo_count} Foto</span>
-                                </div>
-                           </div>
-                        </Link>
-                    ))}
-                </div>
+                <>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-8">
+                        {albums.map((album) => (
+                            <AlbumCard key={album.id} album={album} />
+                        ))}
+                    </div>
+                    {grid.hasMore && <LoadMoreTrigger onLoadMore={grid.loadMore} loading={grid.loadingMore} />}
+                </>
             )}
         </PageLayout>
     );
 };
 
 // --- Album Detail Page ---
+// "Simpan untuk offline": keeps the album's data and images on the device.
+const SaveOfflineButton: React.FC<{ albumId: string }> = ({ albumId }) => {
+    const repository = useRepository();
+    const addToast = useToast();
+    const { t } = useI18n();
+    const [saved, setSaved] = useState(false);
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+    useEffect(() => {
+        isAlbumSaved(albumId).then(setSaved);
+    }, [albumId]);
+
+    const handleSave = async () => {
+        setProgress({ done: 0, total: 0 });
+        try {
+            await saveAlbumForOffline(repository, albumId, (done, total) => setProgress({ done, total }));
+            setSaved(true);
+            addToast(t('offline.savedToast'), 'success');
+        } catch (error: any) {
+            addToast(t('offline.failed', error.message), 'error');
+        }
+        setProgress(null);
+    };
+
+    const handleRemove = async () => {
+        await removeSavedAlbum(albumId);
+        setSaved(false);
+        addToast(t('offline.removedToast'), 'info');
+    };
+
+    if (progress) {
+        return <span className="text-sm text-gray-600">{progress.total > 0 ? t('offline.progress', progress.done, progress.total) : t('common.preparing')}</span>;
+    }
+    if (saved) {
+        return (
+            <span className="inline-flex items-center gap-2 text-sm text-green-700">
+                {t('offline.saved')}
+                <button onClick={handleRemove} className="font-semibold text-gray-500 hover:text-red-600">{t('common.delete')}</button>
+            </span>
+        );
+    }
+    return <Button variant="secondary" onClick={handleSave}>{t('offline.save')}</Button>;
+};
+
+// `/gallery/:albumId/photo/:photoId` is the same page with that photo open in the lightbox.
 export const AlbumDetailPage: React.FC = () => {
-    const { albumId } = useParams<{ albumId: string }>();
+    const { albumId, photoId } = useParams<{ albumId: string; photoId?: string }>();
+    const repository = useRepository();
+    const { staff } = useAuth();
+    const addToast = useToast();
+    const navigate = useNavigate();
+    const location = useLocation();
+    const { t } = useI18n();
     const [album, setAlbum] = useState<Album | null>(null);
-    const [photos, setPhotos] = useState<Photo[]>([]);
-    const [loading, setLoading] = useState(true);
-    const [lightboxOpen, setLightboxOpen] = useState(false);
-    const [selectedPhotoIndex, setSelectedPhotoIndex] = useState(0);
+    const [albumLoading, setAlbumLoading] = useState(true);
+
+    const fetchPhotoPage = useCallback(
+        (cursor: string | null) => repository.photos.listPageByAlbum(albumId!, { cursor, limit: PHOTO_PAGE_SIZE }),
+        [albumId, repository]
+    );
+    const { items: photos, loading: photosLoading, loadingMore, hasMore, loadMore } = useInfiniteList(fetchPhotoPage);
+    const loading = albumLoading || photosLoading;
 
     useEffect(() => {
         const fetchAlbumDetails = async () => {
             if (!albumId) return;
-            setLoading(true);
-
-            // Fetch album details
-            const { data: albumData, error: albumError } = await supabase
-                .from('albums')
-                .select('*')
-                .eq('id', albumId)
-                .single();
-
-            if (albumError) console.error('Error fetching album:', albumError.message, albumError);
-            else setAlbum(albumData);
-
-            // Fetch photos
-            const { data: photosData, error: photosError } = await supabase
-                .from('photos')
-                .select('*')
-                .eq('album_id', albumId)
-                .order('created_at', { ascending: true });
-            
-            if (photosError) console.error('Error fetching photos:', photosError.message, photosError);
-            else setPhotos(photosData);
-
-            setLoading(false);
+            setAlbumLoading(true);
+            try {
+                setAlbum(await repository.albums.get(albumId));
+            } catch (error: any) {
+                console.error('Error fetching album:', error.message, error);
+            }
+            setAlbumLoading(false);
         };
         fetchAlbumDetails();
-    }, [albumId]);
+    }, [albumId, repository]);
+
+    // Matches the <title> of the prerendered page, and keeps it for SPA navigation.
+    const title = album && localizeAlbum(album).title;
+    useEffect(() => {
+        if (!title) return;
+        document.title = pageTitle(getConfig().siteName, title);
+        return () => { document.title = pageTitle(getConfig().siteName); };
+    }, [title]);
+
+    const lightboxIndex = photoId ? photos.findIndex(photo => photo.id === photoId) : -1;
+
+    // A shared link may name a photo beyond the first page: keep paging until it turns up.
+    useEffect(() => {
+        if (!photoId || photosLoading || lightboxIndex !== -1) return;
+        if (hasMore) {
+            loadMore();
+            return;
+        }
+        addToast(t('public.photoNotFound'), 'error');
+        navigate(albumPath(albumId!), { replace: true });
+    }, [photoId, photosLoading, lightboxIndex, hasMore, loadMore, albumId, navigate, addToast]);
 
+    // Opening adds one history entry and paging replaces it, so Back closes the lightbox.
     const openLightbox = (index: number) => {
-        setSelectedPhotoIndex(index);
-        setLightboxOpen(true);
+        navigate(photoPath(albumId!, photos[index].id), { state: { fromAlbum: true } });
+    };
+
+    const showPhoto = useCallback((index: number) => {
+        navigate(photoPath(albumId!, photos[index].id), { replace: true, state: location.state });
+    }, [albumId, photos, navigate, location.state]);
+
+    const closeLightbox = () => {
+        if ((location.state as { fromAlbum?: boolean } | null)?.fromAlbum) navigate(-1);
+        else navigate(albumPath(albumId!), { replace: true });
     };
 
     if (loading) {
         return <PageLayout><div className="flex justify-center"><Spinner /></div></PageLayout>;
     }
 
-    if (!album) {
-        return <PageLayout><p>Album tidak ditemukan.</p></PageLayout>;
+    // Signed-in staff may preview albums that are not public yet; visitors get a not-found.
+    if (!album || (!isAlbumPublic(album) && !staff)) {
+        return <PageLayout><p>{t('public.albumNotFound')}</p></PageLayout>;
     }
+    const localized = localizeAlbum(album);
 
     return (
         <PageLayout>
+            {!isAlbumPublic(album) && (
+                <div className="mb-6 p-3 rounded-md bg-amber-50 border border-amber-200 text-sm text-amber-800">
+                    {t('public.previewNoticeBefore')} <strong>{albumStatusLabel(displayStatus(album))}</strong> {t('public.previewNoticeAfter')}
+                </div>
+            )}
             <section className="mb-10">
-                <h1 className="text-3xl md:text-4xl font-bold text-gray-900">{album.title}</h1>
-                {album.description && <p className="mt-2 text-gray-600 max-w-3xl">{album.description}</p>}
+                <div className="flex flex-wrap gap-4 justify-between items-start">
+                    <h1 className="text-3xl md:text-4xl font-bold text-gray-900">{localized.title}</h1>
+                    <div className="flex flex-wrap items-center gap-3">
+                        {offlineSupported() && photos.length > 0 && <SaveOfflineButton albumId={album.id} />}
+                        {album.allow_download !== false && photos.length > 0 && (
+                            <DownloadAlbumButton
+                                albumTitle={localized.title}
+                                loadPhotos={() => repository.photos.listByAlbum(album.id)}
+                                onError={(message) => addToast(message, 'error')}
+                            />
+                        )}
+                    </div>
+                </div>
+                <p className="mt-1 text-sm text-gray-500">
+                    {formatDate(albumDate(album), { dateStyle: 'full' })}
+                    {album.location && <> · {album.location}</>}
+                </p>
+                {localized.description && <p className="mt-2 text-gray-600 max-w-3xl">{localized.description}</p>}
+                {album.tags && album.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-3">
+                        {album.tags.map(tag => (
+                            <Link key={tag.id} to={`/tag/${tag.slug}`} className="px-3 py-1 text-sm rounded-full bg-brand-blue-50 text-brand-blue-700 hover:bg-brand-blue-100">{tag.name}</Link>
+                        ))}
+                    </div>
+                )}
             </section>
 
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
                 {photos.map((photo, index) => (
                     <div key={photo.id} className="cursor-pointer group relative" onClick={() => openLightbox(index)}>
-                       <img 
-                            src={`${photo.image_url}?width=400&height=400`}
-                            alt={photo.caption || `Foto ${index + 1}`}
+                       <ResponsiveImage
+                            src={photo.image_url}
+                            variants={photo.variants}
+                            sizes="(min-width: 1024px) 25vw, (min-width: 768px) 33vw, 50vw"
+                            alt={photo.alt_text || photo.caption || t('public.photoAlt', index + 1)}
                             className="w-full h-full object-cover rounded-lg shadow-md aspect-square"
                         />
                        <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-40 transition-all duration-300 flex items-center justify-center">
@@ -209,14 +941,116 @@ export const AlbumDetailPage: React.FC = () => {
                     </div>
                 ))}
             </div>
+            {hasMore && <LoadMoreTrigger onLoadMore={loadMore} loading={loadingMore} />}
 
-            {lightboxOpen && (
+            {lightboxIndex !== -1 && (
                 <PhotoLightbox
                     photos={photos}
-                    startIndex={selectedPhotoIndex}
-                    onClose={() => setLightboxOpen(false)}
+                    index={lightboxIndex}
+                    onNavigate={showPhoto}
+                    onClose={closeLightbox}
+                    hasMore={hasMore}
+                    onLoadMore={loadMore}
                 />
             )}
         </PageLayout>
     );
-};
\ No newline at end of file
+};
+
+// --- Search Page ---
+export const SearchPage: React.FC = () => {
+    const [searchParams] = useSearchParams();
+    const query = (searchParams.get('q') ?? '').trim();
+    const repository = useRepository();
+    const [albums, setAlbums] = useState<Album[]>([]);
+    const [photos, setPhotos] = useState<PhotoSearchResult[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+    const { t } = useI18n();
+    const terms = searchTerms(query);
+
+    useEffect(() => {
+        if (!query) {
+            setAlbums([]);
+            setPhotos([]);
+            return;
+        }
+        let cancelled = false;
+        const runSearch = async () => {
+            setLoading(true);
+            const [albumResult, photoResult] = await Promise.allSettled([
+                repository.albums.search(query),
+                repository.photos.search(query),
+            ]);
+            if (cancelled) return;
+            if (albumResult.status === 'fulfilled') setAlbums(albumResult.value);
+            else console.error('Error searching albums:', albumResult.reason);
+            if (photoResult.status === 'fulfilled') setPhotos(photoResult.value);
+            else console.error('Error searching photos:', photoResult.reason);
+            setLoading(false);
+        };
+        runSearch();
+        // A newer query supersedes results still in flight.
+        return () => { cancelled = true; };
+    }, [query, repository]);
+
+    return (
+        <PageLayout>
+            <section className="mb-8">
+                <h1 className="text-3xl md:text-4xl font-bold text-gray-900">{t('public.searchTitle')}</h1>
+                {query
+                    ? <p className="mt-2 text-gray-600">{t('public.searchShowing')} "<span className="font-semibold">{query}</span>"</p>
+                    : <p className="mt-2 text-gray-600">{t('public.searchHint')}</p>}
+            </section>
+
+            {loading ? (
+                <div className="flex justify-center"><Spinner /></div>
+            ) : query && (
+                <>
+                    <section className="mb-12">
+                        <h2 className="text-xl font-semibold text-gray-900 mb-4">{t('public.searchAlbums', albums.length)}</h2>
+                        {albums.length === 0 ? (
+                            <p className="text-gray-500">{t('public.searchNoAlbums')}</p>
+                        ) : (
+                            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-8">
+                                {albums.map((album) => <AlbumCard key={album.id} album={album} terms={terms} />)}
+                            </div>
+                        )}
+                    </section>
+
+                    <section>
+                        <h2 className="text-xl font-semibold text-gray-900 mb-4">{t('public.searchPhotos', photos.length)}</h2>
+                        {photos.length === 0 ? (
+                            <p className="text-gray-500">{t('public.searchNoPhotos')}</p>
+                        ) : (
+                            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                                {photos.map((photo, index) => (
+                                    <button key={photo.id} onClick={() => setLightboxIndex(index)} className="text-left group">
+                                        <ResponsiveImage
+                                            src={photo.image_url}
+                                            variants={photo.variants}
+                                            sizes="(min-width: 1024px) 25vw, (min-width: 768px) 33vw, 50vw"
+                                            alt={photo.alt_text || photo.caption || t('public.photoAlt', index + 1)}
+                                            className="w-full object-cover rounded-lg shadow-md aspect-square group-hover:opacity-90 transition-opacity"
+                                        />
+                                        <p className="mt-2 text-sm text-gray-800 line-clamp-2">{photo.caption && <Highlight text={photo.caption} terms={terms} />}</p>
+                                        <p className="text-xs text-gray-500 truncate">{photo.album_title}</p>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </section>
+                </>
+            )}
+
+            {lightboxIndex !== null && (
+                <PhotoLightbox
+                    photos={photos}
+                    index={lightboxIndex}
+                    onNavigate={setLightboxIndex}
+                    onClose={() => setLightboxIndex(null)}
+                />
+            )}
+        </PageLayout>
+    );
+};
@@ -0,0 +1,160 @@
+// Service worker for the public gallery. Plain JavaScript: it is copied to the site
+// root as-is, not bundled. Cache names are shared with lib/offline.ts.
+//
+// - App shell (index.html, built assets, the Tailwind CDN script): cached on install
+//   and again whenever a page turns out to use assets from a newer deploy.
+// - Gallery data (anonymous Supabase REST reads and RPCs): network first, cached
+//   copy when offline. Recent responses live in a capped cache.
+// - Images: cache first. Recently viewed ones live in a capped cache.
+// Albums saved with "Simpan untuk offline" get a `galeri-album-<id>` cache that is never
+// trimmed, holding their images and every data response that mentions the album.
+
+const VERSION = 'v2';
+const SHELL_CACHE = `galeri-shell-${VERSION}`;
+const DATA_CACHE = 'galeri-data';
+const IMAGE_CACHE = 'galeri-images';
+const SAVED_ALBUM_CACHE_PREFIX = 'galeri-album-';
+const MAX_DATA_ENTRIES = 200;
+const MAX_RECENT_IMAGES = 400;
+
+// Every src and href in the page: built scripts and styles, CDN scripts, icons, the manifest.
+const referencedUrls = (html) =>
+  [...html.matchAll(/\s(?:src|href)="([^"]+)"/g)].map((match) => new URL(match[1], self.location.origin).href);
+
+const builtAssets = (html) => referencedUrls(html).filter((url) => url.startsWith(`${self.location.origin}/assets/`));
+
+// Caches index.html and everything it references, then drops built assets of older deploys.
+// index.html goes in last so the cached copy never points at assets that are not there.
+const cacheShell = async () => {
+  const cache = await caches.open(SHELL_CACHE);
+  const response = await fetch('/index.html', { cache: 'no-cache' });
+  if (!response.ok) throw new Error(`index.html: HTTP ${response.status}`);
+  const urls = referencedUrls(await response.clone().text());
+  await Promise.all(urls.map(async (url) => {
+    if (await cache.match(url)) return;
+    const sameOrigin = url.startsWith(self.location.origin);
+    const asset = await fetch(url, sameOrigin ? {} : { mode: 'no-cors' });
+    if (asset.ok || asset.type === 'opaque') await cache.put(url, asset);
+  }));
+  await cache.put('/index.html', response);
+  for (const request of await cache.keys()) {
+    if (request.url.startsWith(`${self.location.origin}/assets/`) && !urls.includes(request.url)) await cache.delete(request);
+  }
+};
+
+const shellIsCurrent = async (html) => {
+  const cache = await caches.open(SHELL_CACHE);
+  for (const url of builtAssets(html)) {
+    if (!(await cache.match(url))) return false;
+  }
+  return true;
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(cacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter((name) => name.startsWith('galeri-shell-') && name !== SHELL_CACHE)
+      .map((name) => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// Drops the oldest entries first, in the order they were added.
+const trimCache = async (name, maxEntries) => {
+  const cache = await caches.open(name);
+  const keys = await cache.keys();
+  for (const request of keys.slice(0, Math.max(0, keys.length - maxEntries))) await cache.delete(request);
+};
+
+// Signed-in staff send their own token; only anonymous reads are public and safe to keep.
+const isAnonymous = (request) =>
+  request.headers.get('apikey') !== null &&
+  request.headers.get('authorization') === `Bearer ${request.headers.get('apikey')}`;
+
+// The Cache API only stores GET requests, so an RPC call is keyed by its URL plus body.
+const dataCacheKey = async (request) => {
+  if (request.method === 'GET') return request.url;
+  const body = await request.clone().text();
+  return `${request.url}${request.url.includes('?') ? '&' : '?'}__body=${encodeURIComponent(body)}`;
+};
+
+// Every page and filter is a separate entry, so the shared cache is trimmed. A copy goes
+// into the cache of each saved album whose id is in the request, so trimming never
+// takes a saved album's data away.
+const putData = async (key, response) => {
+  const text = decodeURIComponent(key);
+  const savedAlbums = (await caches.keys()).filter((name) =>
+    name.startsWith(SAVED_ALBUM_CACHE_PREFIX) && text.includes(name.slice(SAVED_ALBUM_CACHE_PREFIX.length)));
+  await Promise.all([DATA_CACHE, ...savedAlbums].map(async (name) => (await caches.open(name)).put(key, response.clone())));
+  trimCache(DATA_CACHE, MAX_DATA_ENTRIES);
+};
+
+const networkFirst = async (request, key) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) await putData(key, response);
+    return response;
+  } catch (error) {
+    const cached = await caches.match(key, { ignoreVary: true });
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// <img> requests are no-cors, and their opaque responses cannot be checked and take up
+// far more quota than their size. Asking with CORS instead works for Supabase Storage.
+const cacheFirst = async (request, cacheName, maxEntries) => {
+  const cached = await caches.match(request, { ignoreVary: true });
+  if (cached) return cached;
+  const response = await fetch(request.url, { mode: 'cors', credentials: 'omit' }).catch(() => fetch(request));
+  if (response.ok) {
+    await (await caches.open(cacheName)).put(request, response.clone());
+    trimCache(cacheName, maxEntries);
+  }
+  return response;
+};
+
+// Every page is the same app; prerendered album pages only differ in their head.
+const handleNavigation = async (event) => {
+  try {
+    const response = await fetch(event.request);
+    if (response.ok) {
+      event.waitUntil(response.clone().text()
+        .then(async (html) => { if (!(await shellIsCurrent(html))) await cacheShell(); })
+        .catch((error) => console.warn('Refreshing the offline shell failed:', error)));
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match('/index.html');
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(event));
+    return;
+  }
+  if (url.pathname.startsWith('/rest/v1/')) {
+    const isRead = request.method === 'GET' || (request.method === 'POST' && url.pathname.startsWith('/rest/v1/rpc/'));
+    if (isRead && isAnonymous(request)) {
+      event.respondWith(dataCacheKey(request).then((key) => networkFirst(request, key)));
+    }
+    return;
+  }
+  if (request.method !== 'GET') return;
+  if (request.destination === 'image') {
+    event.respondWith(cacheFirst(request, IMAGE_CACHE, MAX_RECENT_IMAGES));
+  } else if (url.origin === self.location.origin ? url.pathname.startsWith('/assets/') : request.destination === 'script' || request.destination === 'style') {
+    event.respondWith(caches.match(request).then((cached) => cached || fetch(request)));
+  }
+});
@@ -0,0 +1,140 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { Plugin } from 'vite';
+import { createClient } from '@supabase/supabase-js';
+import { Album, Photo } from '../types';
+import { AppConfig, ConfigError, parseConfig } from '../lib/config';
+import { GalleryRepository } from '../lib/repository';
+import { createSupabaseRepository } from '../lib/supabaseRepository';
+import { createMemoryRepository } from '../lib/memoryRepository';
+import { albumDate } from '../lib/schoolYear';
+import { albumPath, photoPath } from '../lib/routes';
+import { PageMeta, SitemapEntry, albumDescription, albumJsonLd, escapeHtml, pageTitle, renderHead, renderSitemap, summarize } from '../lib/seo';
+
+// Reads data with the anon key: the album listing returns only published, live albums,
+// and row-level security keeps drafts and trashed photos out of every other read.
+const createRepository = (config: AppConfig): GalleryRepository =>
+  config.dataSource === 'memory'
+    ? createMemoryRepository()
+    : createSupabaseRepository({
+        client: createClient(config.supabaseUrl, config.supabaseAnonKey, { auth: { persistSession: false } }),
+        bucket: config.storageBucket,
+        url: config.supabaseUrl,
+        anonKey: config.supabaseAnonKey,
+      });
+
+// The built index.html with its head meta and #root content swapped for the page's.
+const renderPage = (template: string, meta: PageMeta, body = '') => {
+  if (!/<title>[\s\S]*?<\/title>/.test(template) || !template.includes('<div id="root"></div>')) {
+    throw new Error('index.html tidak memuat <title> atau <div id="root"></div>.');
+  }
+  return template
+    .replace(/<title>[\s\S]*?<\/title>/, () => renderHead(meta))
+    .replace('<div id="root"></div>', () => `<div id="root">${body}</div>`);
+};
+
+const formatDate = (album: Album) =>
+  albumDate(album).toLocaleDateString('id-ID', { year: 'numeric', month: 'long', day: 'numeric' });
+
+// Plain markup for crawlers and link checkers; the app replaces it on load.
+const albumBody = (album: Album, photos: Photo[]) => `
+    <main>
+      <h1>${escapeHtml(album.title)}</h1>
+      <p>${escapeHtml([formatDate(album), album.location].filter(Boolean).join(' · '))}</p>
+      ${album.description ? `<p>${escapeHtml(album.description)}</p>` : ''}
+      <ul>
+        ${photos.map(photo => `<li><a href="${photoPath(album.id, photo.id)}"><img src="${escapeHtml(photo.variants?.small?.url ?? photo.image_url)}" alt="${escapeHtml(photo.alt_text || photo.caption || album.title)}" loading="lazy" /></a></li>`).join('\n        ')}
+      </ul>
+    </main>`;
+
+const photoBody = (album: Album, photo: Photo) => `
+    <main>
+      <p><a href="${albumPath(album.id)}">${escapeHtml(album.title)}</a></p>
+      <img src="${escapeHtml(photo.variants?.large?.url ?? photo.image_url)}" alt="${escapeHtml(photo.alt_text || photo.caption || album.title)}" />
+      ${photo.caption ? `<p>${escapeHtml(photo.caption)}</p>` : ''}
+    </main>`;
+
+const writePage = async (outDir: string, urlPath: string, html: string) => {
+  const dir = path.join(outDir, urlPath);
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, 'index.html'), html);
+};
+
+/**
+ * After a production build, writes static HTML for every public album and photo
+ * (title, description, Open Graph and Twitter tags, JSON-LD) plus sitemap.xml, so link
+ * previews and search engines see real content. The host serves these files for their
+ * paths and falls back to index.html for everything else.
+ */
+export const prerender = (env: Record<string, string>): Plugin => ({
+  name: 'galeri-prerender',
+  apply: 'build',
+  async writeBundle({ dir }) {
+    let config: AppConfig;
+    try {
+      config = parseConfig(env);
+    } catch (error) {
+      if (!(error instanceof ConfigError)) throw error;
+      this.warn(`Prerender dilewati: ${error.problems.join(' ')}`);
+      return;
+    }
+    if (!config.siteUrl) {
+      this.warn('Prerender dilewati: VITE_SITE_URL belum diisi.');
+      return;
+    }
+
+    const outDir = dir ?? 'dist';
+    const template = await fs.readFile(path.join(outDir, 'index.html'), 'utf8');
+    const { siteName, siteUrl } = config;
+    const repository = createRepository(config);
+    const albums = await repository.albums.listWithPhotoCount();
+    const sitemap: SitemapEntry[] = [{ url: `${siteUrl}/` }];
+    let photoCount = 0;
+
+    for (const album of albums) {
+      const photos = await repository.photos.listByAlbum(album.id);
+      const url = `${siteUrl}${albumPath(album.id)}`;
+      const photoUrl = (photo: Photo) => `${siteUrl}${photoPath(album.id, photo.id)}`;
+      const cover = album.cover_image_url ?? photos[0]?.image_url;
+
+      await writePage(outDir, albumPath(album.id), renderPage(template, {
+        title: pageTitle(siteName, album.title),
+        description: albumDescription(album, siteName),
+        siteName,
+        url,
+        image: cover ? { url: cover, alt: album.title } : null,
+        type: 'article',
+        jsonLd: albumJsonLd(album, photos, url, photoUrl),
+      }, albumBody(album, photos)));
+
+      for (const photo of photos) {
+        const image = photo.variants?.large ?? { url: photo.image_url };
+        await writePage(outDir, photoPath(album.id, photo.id), renderPage(template, {
+          title: pageTitle(siteName, photo.caption ? `${summarize(photo.caption)} · ${album.title}` : album.title),
+          description: photo.caption ? summarize(photo.caption) : albumDescription(album, siteName),
+          siteName,
+          url: photoUrl(photo),
+          image: { ...image, alt: photo.alt_text || photo.caption || album.title },
+          type: 'article',
+        }, photoBody(album, photo)));
+      }
+      photoCount += photos.length;
+
+      const lastModified = [album.publish_at, album.created_at, ...photos.map(photo => photo.created_at)]
+        .filter((date): date is string => !!date)
+        .reduce((latest, date) => (date > latest ? date : latest));
+      sitemap.push({ url, lastModified });
+    }
+
+    // index.html doubles as the fallback for every other path, so it gets the site's
+    // description and preview but no canonical URL.
+    await fs.writeFile(path.join(outDir, 'index.html'), renderPage(template, {
+      title: pageTitle(siteName),
+      description: `Dokumentasi momen-momen berharga di ${siteName}.`,
+      siteName,
+      image: albums[0]?.cover_image_url ? { url: albums[0].cover_image_url, alt: albums[0].title } : null,
+    }));
+    await fs.writeFile(path.join(outDir, 'sitemap.xml'), renderSitemap(sitemap));
+    this.info(`Prerender: ${albums.length} album, ${photoCount} foto, sitemap.xml.`);
+  },
+});
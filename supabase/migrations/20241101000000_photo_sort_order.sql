@@ -0,0 +1,25 @@
+-- Manual photo ordering within an album.
+
+alter table public.photos add column if not exists sort_order integer not null default 0;
+
+-- Existing photos keep their upload order.
+update public.photos p
+set sort_order = ranked.position
+from (
+  select id, row_number() over (partition by album_id order by created_at) - 1 as position
+  from public.photos
+) ranked
+where ranked.id = p.id;
+
+create index if not exists photos_album_sort_order_idx on public.photos (album_id, sort_order);
+
+-- Saves a whole album's order in one call; p_photo_ids lists the album's photos in their new order.
+create or replace function public.reorder_photos(p_album_id uuid, p_photo_ids uuid[])
+returns void
+language sql
+as $$
+  update public.photos p
+  set sort_order = ordered.position - 1
+  from unnest(p_photo_ids) with ordinality as ordered(id, position)
+  where p.id = ordered.id and p.album_id = p_album_id;
+$$;
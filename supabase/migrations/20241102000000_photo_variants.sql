@@ -0,0 +1,31 @@
+-- Resized renditions of each photo, keyed by size name:
+-- {"small": {"url": ..., "width": ..., "height": ...}, "medium": {...}, "large": {...}}
+
+alter table public.photos add column if not exists variants jsonb;
+
+-- The album list also returns the cover photo's renditions so the home grid can use srcset.
+drop function if exists public.get_albums_with_photo_count();
+create function public.get_albums_with_photo_count()
+returns table (
+  id uuid,
+  title text,
+  description text,
+  cover_image_url text,
+  created_at timestamptz,
+  photo_count bigint,
+  cover_variants jsonb
+)
+language sql
+stable
+as $$
+  select
+    a.id,
+    a.title,
+    a.description,
+    a.cover_image_url,
+    a.created_at,
+    (select count(*) from public.photos p where p.album_id = a.id) as photo_count,
+    (select p.variants from public.photos p where p.album_id = a.id and p.image_url = a.cover_image_url limit 1) as cover_variants
+  from public.albums a
+  order by a.created_at desc;
+$$;
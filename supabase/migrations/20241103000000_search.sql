@@ -0,0 +1,61 @@
+-- Public search over album titles/descriptions and photo captions.
+-- Every whitespace-separated term must appear (case-insensitively) somewhere in the searched text.
+
+create extension if not exists pg_trgm;
+
+create index if not exists albums_search_trgm_idx
+  on public.albums using gin ((lower(title || ' ' || coalesce(description, ''))) gin_trgm_ops);
+create index if not exists photos_caption_trgm_idx
+  on public.photos using gin ((lower(coalesce(caption, ''))) gin_trgm_ops);
+
+create or replace function public.matches_all_terms(haystack text, q text)
+returns boolean
+language sql
+immutable
+as $$
+  select coalesce(bool_and(position(term in lower(haystack)) > 0), false)
+  from unnest(regexp_split_to_array(lower(trim(q)), '\s+')) as term
+  where term <> '';
+$$;
+
+create or replace function public.search_albums(q text)
+returns table (
+  id uuid,
+  title text,
+  description text,
+  cover_image_url text,
+  created_at timestamptz,
+  photo_count bigint,
+  cover_variants jsonb
+)
+language sql
+stable
+as $$
+  select a.id, a.title, a.description, a.cover_image_url, a.created_at, a.photo_count, a.cover_variants
+  from public.get_albums_with_photo_count() a
+  where public.matches_all_terms(a.title || ' ' || coalesce(a.description, ''), q)
+  order by a.created_at desc
+  limit 50;
+$$;
+
+create or replace function public.search_photos(q text)
+returns table (
+  id uuid,
+  album_id uuid,
+  image_url text,
+  caption text,
+  variants jsonb,
+  sort_order integer,
+  created_at timestamptz,
+  album_title text
+)
+language sql
+stable
+as $$
+  select p.id, p.album_id, p.image_url, p.caption, p.variants, p.sort_order, p.created_at, a.title as album_title
+  from public.photos p
+  join public.albums a on a.id = p.album_id
+  where p.caption is not null and public.matches_all_terms(p.caption, q)
+  order by a.created_at desc, p.sort_order, p.created_at
+  limit 100;
+$$;
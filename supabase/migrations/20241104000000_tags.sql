@@ -0,0 +1,73 @@
+-- Categories for albums (many-to-many).
+
+create table if not exists public.tags (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  slug text not null unique,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.album_tags (
+  album_id uuid not null references public.albums (id) on delete cascade,
+  tag_id uuid not null references public.tags (id) on delete cascade,
+  primary key (album_id, tag_id)
+);
+
+create index if not exists album_tags_tag_id_idx on public.album_tags (tag_id);
+
+alter table public.tags enable row level security;
+alter table public.album_tags enable row level security;
+create policy "Tags are public" on public.tags for select using (true);
+create policy "Album tags are public" on public.album_tags for select using (true);
+create policy "Signed-in users manage tags" on public.tags for all to authenticated using (true) with check (true);
+create policy "Signed-in users manage album tags" on public.album_tags for all to authenticated using (true) with check (true);
+
+-- Replaces an album's tags in one transaction.
+create or replace function public.set_album_tags(p_album_id uuid, p_tag_ids uuid[])
+returns void
+language sql
+as $$
+  delete from public.album_tags where album_id = p_album_id and tag_id <> all (p_tag_ids);
+  insert into public.album_tags (album_id, tag_id)
+  select p_album_id, unnest(p_tag_ids)
+  on conflict do nothing;
+$$;
+
+-- The album list now carries each album's tags and can be narrowed to one tag.
+drop function if exists public.get_albums_with_photo_count();
+create function public.get_albums_with_photo_count(p_tag_slug text default null)
+returns table (
+  id uuid,
+  title text,
+  description text,
+  cover_image_url text,
+  created_at timestamptz,
+  photo_count bigint,
+  cover_variants jsonb,
+  tags jsonb
+)
+language sql
+stable
+as $$
+  select
+    a.id,
+    a.title,
+    a.description,
+    a.cover_image_url,
+    a.created_at,
+    (select count(*) from public.photos p where p.album_id = a.id) as photo_count,
+    (select p.variants from public.photos p where p.album_id = a.id and p.image_url = a.cover_image_url limit 1) as cover_variants,
+    (
+      select coalesce(jsonb_agg(jsonb_build_object('id', t.id, 'name', t.name, 'slug', t.slug) order by t.name), '[]'::jsonb)
+      from public.album_tags at
+      join public.tags t on t.id = at.tag_id
+      where at.album_id = a.id
+    ) as tags
+  from public.albums a
+  where p_tag_slug is null or exists (
+    select 1 from public.album_tags at
+    join public.tags t on t.id = at.tag_id
+    where at.album_id = a.id and t.slug = p_tag_slug
+  )
+  order by a.created_at desc;
+$$;
@@ -0,0 +1,73 @@
+-- The day the activity happened (not the upload day) and where.
+
+alter table public.albums add column if not exists event_date date;
+alter table public.albums add column if not exists location text;
+
+create index if not exists albums_event_date_idx on public.albums (event_date desc);
+
+-- Albums are listed by event date, falling back to creation time for undated ones.
+drop function if exists public.get_albums_with_photo_count(text);
+create function public.get_albums_with_photo_count(p_tag_slug text default null)
+returns table (
+  id uuid,
+  title text,
+  description text,
+  cover_image_url text,
+  created_at timestamptz,
+  event_date date,
+  location text,
+  photo_count bigint,
+  cover_variants jsonb,
+  tags jsonb
+)
+language sql
+stable
+as $$
+  select
+    a.id,
+    a.title,
+    a.description,
+    a.cover_image_url,
+    a.created_at,
+    a.event_date,
+    a.location,
+    (select count(*) from public.photos p where p.album_id = a.id) as photo_count,
+    (select p.variants from public.photos p where p.album_id = a.id and p.image_url = a.cover_image_url limit 1) as cover_variants,
+    (
+      select coalesce(jsonb_agg(jsonb_build_object('id', t.id, 'name', t.name, 'slug', t.slug) order by t.name), '[]'::jsonb)
+      from public.album_tags at
+      join public.tags t on t.id = at.tag_id
+      where at.album_id = a.id
+    ) as tags
+  from public.albums a
+  where p_tag_slug is null or exists (
+    select 1 from public.album_tags at
+    join public.tags t on t.id = at.tag_id
+    where at.album_id = a.id and t.slug = p_tag_slug
+  )
+  order by coalesce(a.event_date, a.created_at::date) desc, a.created_at desc;
+$$;
+
+-- Search results carry the same columns, and also match on location.
+drop function if exists public.search_albums(text);
+create function public.search_albums(q text)
+returns table (
+  id uuid,
+  title text,
+  description text,
+  cover_image_url text,
+  created_at timestamptz,
+  event_date date,
+  location text,
+  photo_count bigint,
+  cover_variants jsonb,
+  tags jsonb
+)
+language sql
+stable
+as $$
+  select a.*
+  from public.get_albums_with_photo_count() a
+  where public.matches_all_terms(a.title || ' ' || coalesce(a.description, '') || ' ' || coalesce(a.location, ''), q)
+  limit 50;
+$$;
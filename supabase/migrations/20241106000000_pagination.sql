@@ -0,0 +1,44 @@
+-- Keyset pagination for the public album list and album photos.
+-- Cursors are "|"-joined sort keys of the last row on the previous page; see lib/pagination.ts.
+
+create or replace function public.get_albums_page(p_limit integer, p_cursor text default null, p_tag_slug text default null)
+returns table (
+  id uuid,
+  title text,
+  description text,
+  cover_image_url text,
+  created_at timestamptz,
+  event_date date,
+  location text,
+  photo_count bigint,
+  cover_variants jsonb,
+  tags jsonb
+)
+language sql
+stable
+as $$
+  select a.*
+  from public.get_albums_with_photo_count(p_tag_slug) a
+  where p_cursor is null
+     or (coalesce(a.event_date, a.created_at::date), a.created_at, a.id)
+      < (split_part(p_cursor, '|', 1)::date, split_part(p_cursor, '|', 2)::timestamptz, split_part(p_cursor, '|', 3)::uuid)
+  order by coalesce(a.event_date, a.created_at::date) desc, a.created_at desc, a.id desc
+  limit p_limit;
+$$;
+
+create or replace function public.get_photos_page(p_album_id uuid, p_limit integer, p_cursor text default null)
+returns setof public.photos
+language sql
+stable
+as $$
+  select p.*
+  from public.photos p
+  where p.album_id = p_album_id
+    and (
+      p_cursor is null
+      or (p.sort_order, p.created_at, p.id)
+       > (split_part(p_cursor, '|', 1)::integer, split_part(p_cursor, '|', 2)::timestamptz, split_part(p_cursor, '|', 3)::uuid)
+    )
+  order by p.sort_order, p.created_at, p.id
+  limit p_limit;
+$$;
@@ -0,0 +1,147 @@
+-- Albums start as drafts and only reach the public pages once published. A published
+-- album with a future publish_at stays hidden until that moment.
+
+alter table public.albums add column if not exists status text not null default 'published'
+  check (status in ('draft', 'published', 'archived'));
+alter table public.albums add column if not exists publish_at timestamptz;
+-- Existing albums were already public; new ones start as drafts.
+alter table public.albums alter column status set default 'draft';
+
+create index if not exists albums_status_idx on public.albums (status);
+
+create or replace function public.is_album_public(p_status text, p_publish_at timestamptz)
+returns boolean
+language sql
+stable
+as $$
+  select p_status = 'published' and (p_publish_at is null or p_publish_at <= now());
+$$;
+
+-- p_status: null for public listings (published and live only), 'all', or one status.
+drop function if exists public.get_albums_page(integer, text, text);
+drop function if exists public.search_albums(text);
+drop function if exists public.get_albums_with_photo_count(text);
+create function public.get_albums_with_photo_count(p_tag_slug text default null, p_status text default null)
+returns table (
+  id uuid,
+  title text,
+  description text,
+  cover_image_url text,
+  created_at timestamptz,
+  event_date date,
+  location text,
+  status text,
+  publish_at timestamptz,
+  photo_count bigint,
+  cover_variants jsonb,
+  tags jsonb
+)
+language sql
+stable
+as $$
+  select
+    a.id,
+    a.title,
+    a.description,
+    a.cover_image_url,
+    a.created_at,
+    a.event_date,
+    a.location,
+    a.status,
+    a.publish_at,
+    (select count(*) from public.photos p where p.album_id = a.id) as photo_count,
+    (select p.variants from public.photos p where p.album_id = a.id and p.image_url = a.cover_image_url limit 1) as cover_variants,
+    (
+      select coalesce(jsonb_agg(jsonb_build_object('id', t.id, 'name', t.name, 'slug', t.slug) order by t.name), '[]'::jsonb)
+      from public.album_tags at
+      join public.tags t on t.id = at.tag_id
+      where at.album_id = a.id
+    ) as tags
+  from public.albums a
+  where (p_tag_slug is null or exists (
+    select 1 from public.album_tags at
+    join public.tags t on t.id = at.tag_id
+    where at.album_id = a.id and t.slug = p_tag_slug
+  ))
+  and case
+    when p_status is null then public.is_album_public(a.status, a.publish_at)
+    when p_status = 'all' then true
+    else a.status = p_status
+  end
+  order by coalesce(a.event_date, a.created_at::date) desc, a.created_at desc;
+$$;
+
+create function public.get_albums_page(p_limit integer, p_cursor text default null, p_tag_slug text default null, p_status text default null)
+returns table (
+  id uuid,
+  title text,
+  description text,
+  cover_image_url text,
+  created_at timestamptz,
+  event_date date,
+  location text,
+  status text,
+  publish_at timestamptz,
+  photo_count bigint,
+  cover_variants jsonb,
+  tags jsonb
+)
+language sql
+stable
+as $$
+  select a.*
+  from public.get_albums_with_photo_count(p_tag_slug, p_status) a
+  where p_cursor is null
+     or (coalesce(a.event_date, a.created_at::date), a.created_at, a.id)
+      < (split_part(p_cursor, '|', 1)::date, split_part(p_cursor, '|', 2)::timestamptz, split_part(p_cursor, '|', 3)::uuid)
+  order by coalesce(a.event_date, a.created_at::date) desc, a.created_at desc, a.id desc
+  limit p_limit;
+$$;
+
+create function public.search_albums(q text)
+returns table (
+  id uuid,
+  title text,
+  description text,
+  cover_image_url text,
+  created_at timestamptz,
+  event_date date,
+  location text,
+  status text,
+  publish_at timestamptz,
+  photo_count bigint,
+  cover_variants jsonb,
+  tags jsonb
+)
+language sql
+stable
+as $$
+  select a.*
+  from public.get_albums_with_photo_count() a
+  where public.matches_all_terms(a.title || ' ' || coalesce(a.description, '') || ' ' || coalesce(a.location, ''), q)
+  limit 50;
+$$;
+
+create or replace function public.search_photos(q text)
+returns table (
+  id uuid,
+  album_id uuid,
+  image_url text,
+  caption text,
+  variants jsonb,
+  sort_order integer,
+  created_at timestamptz,
+  album_title text
+)
+language sql
+stable
+as $$
+  select p.id, p.album_id, p.image_url, p.caption, p.variants, p.sort_order, p.created_at, a.title as album_title
+  from public.photos p
+  join public.albums a on a.id = p.album_id
+  where p.caption is not null
+    and public.is_album_public(a.status, a.publish_at)
+    and public.matches_all_terms(p.caption, q)
+  order by a.created_at desc, p.sort_order, p.created_at
+  limit 100;
+$$;
@@ -0,0 +1,89 @@
+-- Staff roles. Accounts are matched by email so a row can exist before the person
+-- first signs in. Signed-in users without a staff row have no admin access.
+--
+-- Seed the first admin by hand after applying this migration:
+--   insert into public.staff (email, role) values ('admin@sekolah.sch.id', 'admin');
+
+create table if not exists public.staff (
+  email text primary key check (email = lower(email)),
+  role text not null check (role in ('admin', 'editor', 'contributor')),
+  created_at timestamptz not null default now()
+);
+
+-- Albums a contributor may upload to.
+create table if not exists public.staff_albums (
+  email text not null references public.staff (email) on update cascade on delete cascade,
+  album_id uuid not null references public.albums (id) on delete cascade,
+  primary key (email, album_id)
+);
+
+alter table public.staff enable row level security;
+alter table public.staff_albums enable row level security;
+
+create or replace function public.staff_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.staff where email = lower(auth.jwt() ->> 'email');
+$$;
+
+create or replace function public.can_edit_album_photos(p_album_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.staff_role() in ('admin', 'editor')
+    or exists (
+      select 1 from public.staff_albums
+      where email = lower(auth.jwt() ->> 'email') and album_id = p_album_id
+    );
+$$;
+
+create policy "Staff read their own row, admins read all" on public.staff
+  for select to authenticated
+  using (email = lower(auth.jwt() ->> 'email') or public.staff_role() = 'admin');
+create policy "Admins manage staff" on public.staff
+  for all to authenticated
+  using (public.staff_role() = 'admin') with check (public.staff_role() = 'admin');
+
+create policy "Staff read their own assignments, admins read all" on public.staff_albums
+  for select to authenticated
+  using (email = lower(auth.jwt() ->> 'email') or public.staff_role() = 'admin');
+create policy "Admins manage assignments" on public.staff_albums
+  for all to authenticated
+  using (public.staff_role() = 'admin') with check (public.staff_role() = 'admin');
+
+-- Restrictive policies narrow whatever permissive write policies already exist.
+create policy "Editors create albums" on public.albums as restrictive
+  for insert to authenticated with check (public.staff_role() in ('admin', 'editor'));
+create policy "Editors update albums" on public.albums as restrictive
+  for update to authenticated using (public.staff_role() in ('admin', 'editor'));
+create policy "Admins delete albums" on public.albums as restrictive
+  for delete to authenticated using (public.staff_role() = 'admin');
+
+create policy "Assigned staff add photos" on public.photos as restrictive
+  for insert to authenticated with check (public.can_edit_album_photos(album_id));
+create policy "Assigned staff update photos" on public.photos as restrictive
+  for update to authenticated using (public.can_edit_album_photos(album_id));
+create policy "Editors delete photos" on public.photos as restrictive
+  for delete to authenticated using (public.staff_role() in ('admin', 'editor'));
+
+create policy "Editors tag albums" on public.album_tags as restrictive
+  for all to authenticated
+  using (public.staff_role() in ('admin', 'editor')) with check (public.staff_role() in ('admin', 'editor'));
+
+create or replace function public.set_staff_albums(p_email text, p_album_ids uuid[])
+returns void
+language plpgsql
+as $$
+begin
+  delete from public.staff_albums where email = p_email;
+  insert into public.staff_albums (email, album_id)
+  select p_email, unnest(p_album_ids);
+end;
+$$;
@@ -0,0 +1,145 @@
+-- Who changed what. Rows are written by triggers, so every client path is covered and
+-- the actor is always the signed-in account. album_id/photo_id are plain columns rather
+-- than foreign keys, and titles are copied in, so entries outlive what they describe.
+
+create table if not exists public.audit_log (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  actor_email text default lower(auth.jwt() ->> 'email'),
+  action text not null check (action in (
+    'album.create', 'album.update', 'album.delete', 'album.cover',
+    'photo.upload', 'photo.delete', 'photo.caption'
+  )),
+  album_id uuid,
+  album_title text,
+  photo_id uuid,
+  -- Only the fields that changed, before and after.
+  before jsonb,
+  after jsonb
+);
+
+create index if not exists audit_log_created_at_idx on public.audit_log (created_at desc, id desc);
+create index if not exists audit_log_album_idx on public.audit_log (album_id);
+create index if not exists audit_log_actor_idx on public.audit_log (actor_email);
+
+alter table public.audit_log enable row level security;
+
+create policy "Admins read the audit log" on public.audit_log
+  for select to authenticated using (public.staff_role() = 'admin');
+
+-- The subset of `fields` whose value differs between two rows, as {"before": ..., "after": ...}.
+create or replace function public.audit_diff(p_old jsonb, p_new jsonb, p_fields text[])
+returns jsonb
+language sql
+immutable
+as $$
+  select jsonb_build_object(
+    'before', coalesce(jsonb_object_agg(f, p_old -> f) filter (where p_old -> f is distinct from p_new -> f), '{}'::jsonb),
+    'after', coalesce(jsonb_object_agg(f, p_new -> f) filter (where p_old -> f is distinct from p_new -> f), '{}'::jsonb)
+  )
+  from unnest(p_fields) f;
+$$;
+
+create or replace function public.audit_albums()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  diff jsonb;
+begin
+  if tg_op = 'INSERT' then
+    insert into audit_log (action, album_id, album_title, after)
+    values ('album.create', new.id, new.title, jsonb_build_object('title', new.title, 'status', new.status));
+  elsif tg_op = 'DELETE' then
+    insert into audit_log (action, album_id, album_title, before)
+    values ('album.delete', old.id, old.title, jsonb_build_object(
+      'title', old.title,
+      'photo_count', (select count(*) from photos where album_id = old.id)
+    ));
+  else
+    if old.cover_image_url is distinct from new.cover_image_url then
+      insert into audit_log (action, album_id, album_title, before, after)
+      values ('album.cover', new.id, new.title,
+        jsonb_build_object('cover_image_url', old.cover_image_url),
+        jsonb_build_object('cover_image_url', new.cover_image_url));
+    end if;
+    diff := audit_diff(to_jsonb(old), to_jsonb(new), array['title', 'description', 'event_date', 'location', 'status', 'publish_at']);
+    if diff -> 'after' <> '{}'::jsonb then
+      insert into audit_log (action, album_id, album_title, before, after)
+      values ('album.update', new.id, new.title, diff -> 'before', diff -> 'after');
+    end if;
+  end if;
+  -- Deletes are logged before the row goes, so the photo count is taken before the cascade.
+  return case when tg_op = 'DELETE' then old else null end;
+end;
+$$;
+
+create or replace function public.audit_photos()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  photo photos;
+  title text;
+begin
+  photo := case when tg_op = 'DELETE' then old else new end;
+  select a.title into title from albums a where a.id = photo.album_id;
+  -- Photos removed along with their album are covered by the album.delete entry.
+  if title is null then
+    return null;
+  end if;
+
+  if tg_op = 'INSERT' then
+    insert into audit_log (action, album_id, album_title, photo_id, after)
+    values ('photo.upload', new.album_id, title, new.id, jsonb_build_object('image_url', new.image_url, 'caption', new.caption));
+  elsif tg_op = 'DELETE' then
+    insert into audit_log (action, album_id, album_title, photo_id, before)
+    values ('photo.delete', old.album_id, title, old.id, jsonb_build_object('image_url', old.image_url, 'caption', old.caption));
+  elsif old.caption is distinct from new.caption then
+    insert into audit_log (action, album_id, album_title, photo_id, before, after)
+    values ('photo.caption', new.album_id, title, new.id,
+      jsonb_build_object('caption', old.caption), jsonb_build_object('caption', new.caption));
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists audit_albums on public.albums;
+create trigger audit_albums after insert or update on public.albums
+  for each row execute function public.audit_albums();
+drop trigger if exists audit_albums_delete on public.albums;
+create trigger audit_albums_delete before delete on public.albums
+  for each row execute function public.audit_albums();
+
+drop trigger if exists audit_photos on public.photos;
+create trigger audit_photos after insert or update or delete on public.photos
+  for each row execute function public.audit_photos();
+
+-- Newest first; p_cursor is "created_at|id" of the last row on the previous page.
+create or replace function public.get_audit_log(
+  p_limit integer,
+  p_cursor text default null,
+  p_actor_email text default null,
+  p_album_id uuid default null,
+  p_action text default null
+)
+returns setof public.audit_log
+language sql
+stable
+as $$
+  select l.*
+  from public.audit_log l
+  where (p_actor_email is null or l.actor_email = p_actor_email)
+    and (p_album_id is null or l.album_id = p_album_id)
+    and (p_action is null or l.action = p_action)
+    and (
+      p_cursor is null
+      or (l.created_at, l.id) < (split_part(p_cursor, '|', 1)::timestamptz, split_part(p_cursor, '|', 2)::uuid)
+    )
+  order by l.created_at desc, l.id desc
+  limit p_limit;
+$$;
@@ -0,0 +1,186 @@
+-- Soft delete. Trashed albums and photos keep their rows and files until they are
+-- restored or purged; the admin app purges them for good after VITE_TRASH_RETENTION_DAYS.
+
+alter table public.albums add column if not exists deleted_at timestamptz;
+alter table public.photos add column if not exists deleted_at timestamptz;
+
+create index if not exists albums_deleted_at_idx on public.albums (deleted_at) where deleted_at is not null;
+create index if not exists photos_deleted_at_idx on public.photos (deleted_at) where deleted_at is not null;
+
+-- Every listing, public or admin, leaves trashed albums and photos out.
+create or replace function public.get_albums_with_photo_count(p_tag_slug text default null, p_status text default null)
+returns table (
+  id uuid,
+  title text,
+  description text,
+  cover_image_url text,
+  created_at timestamptz,
+  event_date date,
+  location text,
+  status text,
+  publish_at timestamptz,
+  photo_count bigint,
+  cover_variants jsonb,
+  tags jsonb
+)
+language sql
+stable
+as $$
+  select
+    a.id,
+    a.title,
+    a.description,
+    a.cover_image_url,
+    a.created_at,
+    a.event_date,
+    a.location,
+    a.status,
+    a.publish_at,
+    (select count(*) from public.photos p where p.album_id = a.id and p.deleted_at is null) as photo_count,
+    (select p.variants from public.photos p where p.album_id = a.id and p.image_url = a.cover_image_url and p.deleted_at is null limit 1) as cover_variants,
+    (
+      select coalesce(jsonb_agg(jsonb_build_object('id', t.id, 'name', t.name, 'slug', t.slug) order by t.name), '[]'::jsonb)
+      from public.album_tags at
+      join public.tags t on t.id = at.tag_id
+      where at.album_id = a.id
+    ) as tags
+  from public.albums a
+  where a.deleted_at is null
+  and (p_tag_slug is null or exists (
+    select 1 from public.album_tags at
+    join public.tags t on t.id = at.tag_id
+    where at.album_id = a.id and t.slug = p_tag_slug
+  ))
+  and case
+    when p_status is null then public.is_album_public(a.status, a.publish_at)
+    when p_status = 'all' then true
+    else a.status = p_status
+  end
+  order by coalesce(a.event_date, a.created_at::date) desc, a.created_at desc;
+$$;
+
+create or replace function public.get_photos_page(p_album_id uuid, p_limit integer, p_cursor text default null)
+returns setof public.photos
+language sql
+stable
+as $$
+  select p.*
+  from public.photos p
+  where p.album_id = p_album_id
+    and p.deleted_at is null
+    and (
+      p_cursor is null
+      or (p.sort_order, p.created_at, p.id)
+       > (split_part(p_cursor, '|', 1)::integer, split_part(p_cursor, '|', 2)::timestamptz, split_part(p_cursor, '|', 3)::uuid)
+    )
+  order by p.sort_order, p.created_at, p.id
+  limit p_limit;
+$$;
+
+create or replace function public.search_photos(q text)
+returns table (
+  id uuid,
+  album_id uuid,
+  image_url text,
+  caption text,
+  variants jsonb,
+  sort_order integer,
+  created_at timestamptz,
+  album_title text
+)
+language sql
+stable
+as $$
+  select p.id, p.album_id, p.image_url, p.caption, p.variants, p.sort_order, p.created_at, a.title as album_title
+  from public.photos p
+  join public.albums a on a.id = p.album_id
+  where p.caption is not null
+    and p.deleted_at is null
+    and a.deleted_at is null
+    and public.is_album_public(a.status, a.publish_at)
+    and public.matches_all_terms(p.caption, q)
+  order by a.created_at desc, p.sort_order, p.created_at
+  limit 100;
+$$;
+
+-- Moving to and out of the trash is logged too.
+alter table public.audit_log drop constraint if exists audit_log_action_check;
+alter table public.audit_log add constraint audit_log_action_check check (action in (
+  'album.create', 'album.update', 'album.delete', 'album.cover', 'album.trash', 'album.restore',
+  'photo.upload', 'photo.delete', 'photo.caption', 'photo.trash', 'photo.restore'
+));
+
+create or replace function public.audit_albums()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  diff jsonb;
+begin
+  if tg_op = 'INSERT' then
+    insert into audit_log (action, album_id, album_title, after)
+    values ('album.create', new.id, new.title, jsonb_build_object('title', new.title, 'status', new.status));
+  elsif tg_op = 'DELETE' then
+    insert into audit_log (action, album_id, album_title, before)
+    values ('album.delete', old.id, old.title, jsonb_build_object(
+      'title', old.title,
+      'photo_count', (select count(*) from photos where album_id = old.id)
+    ));
+  elsif old.deleted_at is distinct from new.deleted_at then
+    insert into audit_log (action, album_id, album_title)
+    values (case when new.deleted_at is null then 'album.restore' else 'album.trash' end, new.id, new.title);
+  else
+    if old.cover_image_url is distinct from new.cover_image_url then
+      insert into audit_log (action, album_id, album_title, before, after)
+      values ('album.cover', new.id, new.title,
+        jsonb_build_object('cover_image_url', old.cover_image_url),
+        jsonb_build_object('cover_image_url', new.cover_image_url));
+    end if;
+    diff := audit_diff(to_jsonb(old), to_jsonb(new), array['title', 'description', 'event_date', 'location', 'status', 'publish_at']);
+    if diff -> 'after' <> '{}'::jsonb then
+      insert into audit_log (action, album_id, album_title, before, after)
+      values ('album.update', new.id, new.title, diff -> 'before', diff -> 'after');
+    end if;
+  end if;
+  -- Deletes are logged before the row goes, so the photo count is taken before the cascade.
+  return case when tg_op = 'DELETE' then old else null end;
+end;
+$$;
+
+create or replace function public.audit_photos()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  photo photos;
+  title text;
+begin
+  photo := case when tg_op = 'DELETE' then old else new end;
+  select a.title into title from albums a where a.id = photo.album_id;
+  -- Photos removed along with their album are covered by the album.delete entry.
+  if title is null then
+    return null;
+  end if;
+
+  if tg_op = 'INSERT' then
+    insert into audit_log (action, album_id, album_title, photo_id, after)
+    values ('photo.upload', new.album_id, title, new.id, jsonb_build_object('image_url', new.image_url, 'caption', new.caption));
+  elsif tg_op = 'DELETE' then
+    insert into audit_log (action, album_id, album_title, photo_id, before)
+    values ('photo.delete', old.album_id, title, old.id, jsonb_build_object('image_url', old.image_url, 'caption', old.caption));
+  elsif old.deleted_at is distinct from new.deleted_at then
+    insert into audit_log (action, album_id, album_title, photo_id, before)
+    values (case when new.deleted_at is null then 'photo.restore' else 'photo.trash' end, new.album_id, title, new.id,
+      jsonb_build_object('image_url', new.image_url));
+  elsif old.caption is distinct from new.caption then
+    insert into audit_log (action, album_id, album_title, photo_id, before, after)
+    values ('photo.caption', new.album_id, title, new.id,
+      jsonb_build_object('caption', old.caption), jsonb_build_object('caption', new.caption));
+  end if;
+  return null;
+end;
+$$;
@@ -0,0 +1,73 @@
+-- Alt text describes a photo for screen readers; the caption is shown to everyone.
+-- Photos without it fall back to their caption.
+alter table public.photos add column if not exists alt_text text;
+
+-- The result columns change, so the function has to be dropped first.
+drop function if exists public.search_photos(text);
+
+create function public.search_photos(q text)
+returns table (
+  id uuid,
+  album_id uuid,
+  image_url text,
+  caption text,
+  alt_text text,
+  variants jsonb,
+  sort_order integer,
+  created_at timestamptz,
+  album_title text
+)
+language sql
+stable
+as $$
+  select p.id, p.album_id, p.image_url, p.caption, p.alt_text, p.variants, p.sort_order, p.created_at, a.title as album_title
+  from public.photos p
+  join public.albums a on a.id = p.album_id
+  where p.caption is not null
+    and p.deleted_at is null
+    and a.deleted_at is null
+    and public.is_album_public(a.status, a.publish_at)
+    and public.matches_all_terms(p.caption, q)
+  order by a.created_at desc, p.sort_order, p.created_at
+  limit 100;
+$$;
+
+-- Alt text edits are logged with caption edits.
+create or replace function public.audit_photos()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  photo photos;
+  title text;
+  diff jsonb;
+begin
+  photo := case when tg_op = 'DELETE' then old else new end;
+  select a.title into title from albums a where a.id = photo.album_id;
+  -- Photos removed along with their album are covered by the album.delete entry.
+  if title is null then
+    return null;
+  end if;
+
+  if tg_op = 'INSERT' then
+    insert into audit_log (action, album_id, album_title, photo_id, after)
+    values ('photo.upload', new.album_id, title, new.id, jsonb_build_object('image_url', new.image_url, 'caption', new.caption));
+  elsif tg_op = 'DELETE' then
+    insert into audit_log (action, album_id, album_title, photo_id, before)
+    values ('photo.delete', old.album_id, title, old.id, jsonb_build_object('image_url', old.image_url, 'caption', old.caption));
+  elsif old.deleted_at is distinct from new.deleted_at then
+    insert into audit_log (action, album_id, album_title, photo_id, before)
+    values (case when new.deleted_at is null then 'photo.restore' else 'photo.trash' end, new.album_id, title, new.id,
+      jsonb_build_object('image_url', new.image_url));
+  else
+    diff := audit_diff(to_jsonb(old), to_jsonb(new), array['caption', 'alt_text']);
+    if diff -> 'after' <> '{}'::jsonb then
+      insert into audit_log (action, album_id, album_title, photo_id, before, after)
+      values ('photo.caption', new.album_id, title, new.id, diff -> 'before', diff -> 'after');
+    end if;
+  end if;
+  return null;
+end;
+$$;
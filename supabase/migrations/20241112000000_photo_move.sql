@@ -0,0 +1,92 @@
+-- Moving a photo to another album. Copies are plain inserts with their own storage
+-- files, so they need nothing here.
+
+-- Appends the photo to the end of the target album and, when it was the source album's
+-- cover, hands the cover to the first photo left behind. Security definer so
+-- contributors can fix the cover too; access to both albums is checked explicitly.
+create or replace function public.move_photo(p_photo_id uuid, p_album_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  moved photos;
+begin
+  select * into moved from photos where id = p_photo_id and deleted_at is null;
+  if not found then
+    raise exception 'Photo % not found', p_photo_id;
+  end if;
+  if not can_edit_album_photos(moved.album_id) or not can_edit_album_photos(p_album_id) then
+    raise exception 'Not allowed to move photos between these albums';
+  end if;
+  if moved.album_id = p_album_id then
+    return;
+  end if;
+
+  update photos
+  set album_id = p_album_id,
+      sort_order = (select coalesce(max(sort_order) + 1, 0) from photos where album_id = p_album_id)
+  where id = p_photo_id;
+
+  update albums
+  set cover_image_url = (
+    select image_url from photos
+    where album_id = moved.album_id and deleted_at is null
+    order by sort_order, created_at
+    limit 1
+  )
+  where id = moved.album_id and cover_image_url = moved.image_url;
+end;
+$$;
+
+alter table public.audit_log drop constraint if exists audit_log_action_check;
+alter table public.audit_log add constraint audit_log_action_check check (action in (
+  'album.create', 'album.update', 'album.delete', 'album.cover', 'album.trash', 'album.restore',
+  'photo.upload', 'photo.delete', 'photo.caption', 'photo.trash', 'photo.restore', 'photo.move'
+));
+
+-- Moves are logged under the album the photo went to.
+create or replace function public.audit_photos()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  photo photos;
+  title text;
+  diff jsonb;
+begin
+  photo := case when tg_op = 'DELETE' then old else new end;
+  select a.title into title from albums a where a.id = photo.album_id;
+  -- Photos removed along with their album are covered by the album.delete entry.
+  if title is null then
+    return null;
+  end if;
+
+  if tg_op = 'INSERT' then
+    insert into audit_log (action, album_id, album_title, photo_id, after)
+    values ('photo.upload', new.album_id, title, new.id, jsonb_build_object('image_url', new.image_url, 'caption', new.caption));
+  elsif tg_op = 'DELETE' then
+    insert into audit_log (action, album_id, album_title, photo_id, before)
+    values ('photo.delete', old.album_id, title, old.id, jsonb_build_object('image_url', old.image_url, 'caption', old.caption));
+  elsif old.deleted_at is distinct from new.deleted_at then
+    insert into audit_log (action, album_id, album_title, photo_id, before)
+    values (case when new.deleted_at is null then 'photo.restore' else 'photo.trash' end, new.album_id, title, new.id,
+      jsonb_build_object('image_url', new.image_url));
+  elsif old.album_id is distinct from new.album_id then
+    insert into audit_log (action, album_id, album_title, photo_id, before, after)
+    values ('photo.move', new.album_id, title, new.id,
+      jsonb_build_object('album', (select a.title from albums a where a.id = old.album_id)),
+      jsonb_build_object('album', title));
+  else
+    diff := audit_diff(to_jsonb(old), to_jsonb(new), array['caption', 'alt_text']);
+    if diff -> 'after' <> '{}'::jsonb then
+      insert into audit_log (action, album_id, album_title, photo_id, before, after)
+      values ('photo.caption', new.album_id, title, new.id, diff -> 'before', diff -> 'after');
+    end if;
+  end if;
+  return null;
+end;
+$$;
@@ -0,0 +1,43 @@
+-- Per-album switch for the public "Unduh Semua" button. The photos themselves stay
+-- public files; this only decides whether the gallery offers the whole album as a ZIP.
+alter table public.albums add column if not exists allow_download boolean not null default true;
+
+-- Toggling it is logged like any other album detail.
+create or replace function public.audit_albums()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  diff jsonb;
+begin
+  if tg_op = 'INSERT' then
+    insert into audit_log (action, album_id, album_title, after)
+    values ('album.create', new.id, new.title, jsonb_build_object('title', new.title, 'status', new.status));
+  elsif tg_op = 'DELETE' then
+    insert into audit_log (action, album_id, album_title, before)
+    values ('album.delete', old.id, old.title, jsonb_build_object(
+      'title', old.title,
+      'photo_count', (select count(*) from photos where album_id = old.id)
+    ));
+  elsif old.deleted_at is distinct from new.deleted_at then
+    insert into audit_log (action, album_id, album_title)
+    values (case when new.deleted_at is null then 'album.restore' else 'album.trash' end, new.id, new.title);
+  else
+    if old.cover_image_url is distinct from new.cover_image_url then
+      insert into audit_log (action, album_id, album_title, before, after)
+      values ('album.cover', new.id, new.title,
+        jsonb_build_object('cover_image_url', old.cover_image_url),
+        jsonb_build_object('cover_image_url', new.cover_image_url));
+    end if;
+    diff := audit_diff(to_jsonb(old), to_jsonb(new), array['title', 'description', 'event_date', 'location', 'status', 'publish_at', 'allow_download']);
+    if diff -> 'after' <> '{}'::jsonb then
+      insert into audit_log (action, album_id, album_title, before, after)
+      values ('album.update', new.id, new.title, diff -> 'before', diff -> 'after');
+    end if;
+  end if;
+  -- Deletes are logged before the row goes, so the photo count is taken before the cascade.
+  return case when tg_op = 'DELETE' then old else null end;
+end;
+$$;
@@ -0,0 +1,37 @@
+-- Camera metadata read from each photo's EXIF in the browser before upload.
+-- taken_at is its own column so it can be sorted on; the rest is informational.
+alter table public.photos add column if not exists taken_at timestamptz;
+alter table public.photos add column if not exists metadata jsonb;
+
+-- The result columns change, so the function has to be dropped first.
+drop function if exists public.search_photos(text);
+
+create function public.search_photos(q text)
+returns table (
+  id uuid,
+  album_id uuid,
+  image_url text,
+  caption text,
+  alt_text text,
+  variants jsonb,
+  taken_at timestamptz,
+  metadata jsonb,
+  sort_order integer,
+  created_at timestamptz,
+  album_title text
+)
+language sql
+stable
+as $$
+  select p.id, p.album_id, p.image_url, p.caption, p.alt_text, p.variants, p.taken_at, p.metadata,
+    p.sort_order, p.created_at, a.title as album_title
+  from public.photos p
+  join public.albums a on a.id = p.album_id
+  where p.caption is not null
+    and p.deleted_at is null
+    and a.deleted_at is null
+    and public.is_album_public(a.status, a.publish_at)
+    and public.matches_all_terms(p.caption, q)
+  order by a.created_at desc, p.sort_order, p.created_at
+  limit 100;
+$$;
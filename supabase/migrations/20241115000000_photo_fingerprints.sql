@@ -0,0 +1,7 @@
+-- Fingerprints computed in the browser before upload, so the editor can warn about
+-- duplicates: a SHA-256 of the original file and a 64-bit perceptual hash as hex.
+alter table public.photos add column if not exists content_hash text;
+alter table public.photos add column if not exists perceptual_hash text;
+
+create index if not exists photos_album_content_hash_idx on public.photos (album_id, content_hash)
+  where content_hash is not null;
@@ -0,0 +1,160 @@
+-- Optional titles and descriptions in other languages, keyed by locale:
+-- {"en": {"title": "...", "description": "..."}}. The title and description columns
+-- stay the Indonesian originals that every missing translation falls back to.
+alter table public.albums add column if not exists translations jsonb not null default '{}'::jsonb;
+
+-- The listings return the translations too, which changes their row type.
+drop function if exists public.get_albums_page(integer, text, text, text);
+drop function if exists public.search_albums(text);
+drop function if exists public.get_albums_with_photo_count(text, text);
+
+create function public.get_albums_with_photo_count(p_tag_slug text default null, p_status text default null)
+returns table (
+  id uuid,
+  title text,
+  description text,
+  cover_image_url text,
+  created_at timestamptz,
+  event_date date,
+  location text,
+  status text,
+  publish_at timestamptz,
+  translations jsonb,
+  photo_count bigint,
+  cover_variants jsonb,
+  tags jsonb
+)
+language sql
+stable
+as $$
+  select
+    a.id,
+    a.title,
+    a.description,
+    a.cover_image_url,
+    a.created_at,
+    a.event_date,
+    a.location,
+    a.status,
+    a.publish_at,
+    a.translations,
+    (select count(*) from public.photos p where p.album_id = a.id and p.deleted_at is null) as photo_count,
+    (select p.variants from public.photos p where p.album_id = a.id and p.image_url = a.cover_image_url and p.deleted_at is null limit 1) as cover_variants,
+    (
+      select coalesce(jsonb_agg(jsonb_build_object('id', t.id, 'name', t.name, 'slug', t.slug) order by t.name), '[]'::jsonb)
+      from public.album_tags at
+      join public.tags t on t.id = at.tag_id
+      where at.album_id = a.id
+    ) as tags
+  from public.albums a
+  where a.deleted_at is null
+  and (p_tag_slug is null or exists (
+    select 1 from public.album_tags at
+    join public.tags t on t.id = at.tag_id
+    where at.album_id = a.id and t.slug = p_tag_slug
+  ))
+  and case
+    when p_status is null then public.is_album_public(a.status, a.publish_at)
+    when p_status = 'all' then true
+    else a.status = p_status
+  end
+  order by coalesce(a.event_date, a.created_at::date) desc, a.created_at desc;
+$$;
+
+create function public.get_albums_page(p_limit integer, p_cursor text default null, p_tag_slug text default null, p_status text default null)
+returns table (
+  id uuid,
+  title text,
+  description text,
+  cover_image_url text,
+  created_at timestamptz,
+  event_date date,
+  location text,
+  status text,
+  publish_at timestamptz,
+  translations jsonb,
+  photo_count bigint,
+  cover_variants jsonb,
+  tags jsonb
+)
+language sql
+stable
+as $$
+  select a.*
+  from public.get_albums_with_photo_count(p_tag_slug, p_status) a
+  where p_cursor is null
+     or (coalesce(a.event_date, a.created_at::date), a.created_at, a.id)
+      < (split_part(p_cursor, '|', 1)::date, split_part(p_cursor, '|', 2)::timestamptz, split_part(p_cursor, '|', 3)::uuid)
+  order by coalesce(a.event_date, a.created_at::date) desc, a.created_at desc, a.id desc
+  limit p_limit;
+$$;
+
+-- Visitors reading in English find albums by their English title and description as well.
+create function public.search_albums(q text)
+returns table (
+  id uuid,
+  title text,
+  description text,
+  cover_image_url text,
+  created_at timestamptz,
+  event_date date,
+  location text,
+  status text,
+  publish_at timestamptz,
+  translations jsonb,
+  photo_count bigint,
+  cover_variants jsonb,
+  tags jsonb
+)
+language sql
+stable
+as $$
+  select a.*
+  from public.get_albums_with_photo_count() a
+  where public.matches_all_terms(
+    a.title || ' ' || coalesce(a.description, '') || ' ' || coalesce(a.location, '') || ' ' ||
+    coalesce(a.translations #>> '{en,title}', '') || ' ' || coalesce(a.translations #>> '{en,description}', ''),
+    q
+  )
+  limit 50;
+$$;
+
+-- Editing a translation is logged like any other album detail.
+create or replace function public.audit_albums()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  diff jsonb;
+begin
+  if tg_op = 'INSERT' then
+    insert into audit_log (action, album_id, album_title, after)
+    values ('album.create', new.id, new.title, jsonb_build_object('title', new.title, 'status', new.status));
+  elsif tg_op = 'DELETE' then
+    insert into audit_log (action, album_id, album_title, before)
+    values ('album.delete', old.id, old.title, jsonb_build_object(
+      'title', old.title,
+      'photo_count', (select count(*) from photos where album_id = old.id)
+    ));
+  elsif old.deleted_at is distinct from new.deleted_at then
+    insert into audit_log (action, album_id, album_title)
+    values (case when new.deleted_at is null then 'album.restore' else 'album.trash' end, new.id, new.title);
+  else
+    if old.cover_image_url is distinct from new.cover_image_url then
+      insert into audit_log (action, album_id, album_title, before, after)
+      values ('album.cover', new.id, new.title,
+        jsonb_build_object('cover_image_url', old.cover_image_url),
+        jsonb_build_object('cover_image_url', new.cover_image_url));
+    end if;
+    diff := audit_diff(to_jsonb(old), to_jsonb(new), array['title', 'description', 'event_date', 'location', 'status', 'publish_at', 'allow_download', 'translations']);
+    if diff -> 'after' <> '{}'::jsonb then
+      insert into audit_log (action, album_id, album_title, before, after)
+      values ('album.update', new.id, new.title, diff -> 'before', diff -> 'after');
+    end if;
+  end if;
+  -- Deletes are logged before the row goes, so the photo count is taken before the cascade.
+  return case when tg_op = 'DELETE' then old else null end;
+end;
+$$;
@@ -0,0 +1,43 @@
+-- move_photo is security definer, so its own access check is all that stands between
+-- the API and the photos table. can_edit_album_photos is null rather than false for
+-- anonymous callers and accounts without a staff row, which let the check pass.
+
+create or replace function public.move_photo(p_photo_id uuid, p_album_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  moved photos;
+begin
+  select * into moved from photos where id = p_photo_id and deleted_at is null;
+  if not found then
+    raise exception 'Photo % not found', p_photo_id;
+  end if;
+  if not coalesce(can_edit_album_photos(moved.album_id), false)
+    or not coalesce(can_edit_album_photos(p_album_id), false) then
+    raise exception 'Not allowed to move photos between these albums';
+  end if;
+  if moved.album_id = p_album_id then
+    return;
+  end if;
+
+  update photos
+  set album_id = p_album_id,
+      sort_order = (select coalesce(max(sort_order) + 1, 0) from photos where album_id = p_album_id)
+  where id = p_photo_id;
+
+  update albums
+  set cover_image_url = (
+    select image_url from photos
+    where album_id = moved.album_id and deleted_at is null
+    order by sort_order, created_at
+    limit 1
+  )
+  where id = moved.album_id and cover_image_url = moved.image_url;
+end;
+$$;
+
+revoke execute on function public.move_photo(uuid, uuid) from public, anon;
+grant execute on function public.move_photo(uuid, uuid) to authenticated;
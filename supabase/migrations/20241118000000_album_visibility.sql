@@ -0,0 +1,43 @@
+-- Drafts, scheduled, archived and trashed albums were hidden only by the listing and
+-- search functions; the tables themselves stayed readable by anyone. These policies
+-- narrow the existing public read access to what the public pages show. Staff, including
+-- contributors, keep reading everything the admin panel lists.
+
+create policy "Visitors read public albums only" on public.albums as restrictive
+  for select
+  using (
+    public.staff_role() is not null
+    or (public.is_album_public(status, publish_at) and deleted_at is null)
+  );
+
+create policy "Visitors read photos of public albums only" on public.photos as restrictive
+  for select
+  using (
+    public.staff_role() is not null
+    or (deleted_at is null and exists (
+      select 1 from public.albums a
+      where a.id = album_id and public.is_album_public(a.status, a.publish_at) and a.deleted_at is null
+    ))
+  );
+
+-- The policies already apply here; the same check in the query keeps the function
+-- safe should it ever become security definer.
+create or replace function public.get_photos_page(p_album_id uuid, p_limit integer, p_cursor text default null)
+returns setof public.photos
+language sql
+stable
+as $$
+  select p.*
+  from public.photos p
+  join public.albums a on a.id = p.album_id
+  where p.album_id = p_album_id
+    and p.deleted_at is null
+    and (public.staff_role() is not null or (public.is_album_public(a.status, a.publish_at) and a.deleted_at is null))
+    and (
+      p_cursor is null
+      or (p.sort_order, p.created_at, p.id)
+       > (split_part(p_cursor, '|', 1)::integer, split_part(p_cursor, '|', 2)::timestamptz, split_part(p_cursor, '|', 3)::uuid)
+    )
+  order by p.sort_order, p.created_at, p.id
+  limit p_limit;
+$$;
@@ -0,0 +1,22 @@
+-- Contributors may update photos in their albums (captions, order), but moving a photo to
+-- the trash or back is for editors and admins, as lib/permissions.ts has it. A policy
+-- cannot compare the old row with the new one, so a trigger guards deleted_at. Only API
+-- callers are checked; the service role and the SQL editor are left alone.
+
+create or replace function public.guard_photo_trash()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if auth.role() in ('anon', 'authenticated')
+    and not coalesce(public.staff_role() in ('admin', 'editor'), false) then
+    raise exception 'Only editors and admins may move photos to or from the trash';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_photo_trash on public.photos;
+create trigger guard_photo_trash before update of deleted_at on public.photos
+  for each row when (old.deleted_at is distinct from new.deleted_at) execute function public.guard_photo_trash();
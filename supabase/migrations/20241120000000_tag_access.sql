@@ -0,0 +1,10 @@
+-- Tags were still open to any signed-in account through the tags migration's
+-- "Signed-in users manage tags" policy. As with album tags, only editors and admins
+-- may change them; reading stays public.
+
+create policy "Editors create tags" on public.tags as restrictive
+  for insert to authenticated with check (public.staff_role() in ('admin', 'editor'));
+create policy "Editors update tags" on public.tags as restrictive
+  for update to authenticated using (public.staff_role() in ('admin', 'editor'));
+create policy "Editors delete tags" on public.tags as restrictive
+  for delete to authenticated using (public.staff_role() in ('admin', 'editor'));
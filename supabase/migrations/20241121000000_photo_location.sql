@@ -0,0 +1,11 @@
+-- GPS coordinates are no longer kept with photos: photos.metadata is readable by every
+-- visitor, and a school gallery must not say where its students were. Coordinates stored
+-- before this change are removed, and the constraint keeps any client from adding them.
+
+update public.photos
+set metadata = metadata - 'latitude' - 'longitude'
+where metadata ?| array['latitude', 'longitude'];
+
+alter table public.photos drop constraint if exists photos_metadata_no_location;
+alter table public.photos add constraint photos_metadata_no_location
+  check (metadata is null or not (metadata ?| array['latitude', 'longitude']));
@@ -1,13 +1,69 @@
 
 import { PostgrestError } from '@supabase/supabase-js';
 
+export interface Tag {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+export type Locale = 'id' | 'en';
+
+// An album's title and description in a language other than Indonesian; empty fields
+// fall back to the Indonesian ones.
+export interface AlbumTranslation {
+  title?: string | null;
+  description?: string | null;
+}
+
+export type AlbumTranslations = Partial<Record<Locale, AlbumTranslation>>;
+
+// Only published albums are public, and only once their publish_at (if any) has passed.
+export type AlbumStatus = 'draft' | 'published' | 'archived';
+
 export interface Album {
   id: string;
   title: string;
   description: string | null;
   cover_image_url: string | null;
   created_at: string;
+  // Day the activity took place, "YYYY-MM-DD"; null when unknown.
+  event_date: string | null;
+  location: string | null;
+  status: AlbumStatus;
+  // When a published album goes live; null means immediately.
+  publish_at: string | null;
+  // Whether visitors get the "Unduh Semua" button. Only single-album fetches fill it
+  // in; a missing value means allowed.
+  allow_download?: boolean;
+  // When the album was moved to the trash. Listings never include trashed albums,
+  // so only single fetches and the trash list fill it in.
+  deleted_at?: string | null;
   photo_count?: number;
+  // Renditions of the cover photo, when the album list provides them.
+  cover_variants?: PhotoVariants | null;
+  // Filled in by the album list and single-album fetch.
+  tags?: Tag[];
+  translations?: AlbumTranslations | null;
+}
+
+export type PhotoVariantName = 'small' | 'medium' | 'large';
+
+export interface PhotoVariant {
+  url: string;
+  width: number;
+  height: number;
+}
+
+export type PhotoVariants = Partial<Record<PhotoVariantName, PhotoVariant>>;
+
+// Read from the original file's EXIF on upload; any field may be missing. GPS
+// coordinates are never kept: the gallery is public and shows students.
+export interface PhotoMetadata {
+  camera?: string;
+  // Of the original, upright.
+  width?: number;
+  height?: number;
 }
 
 export interface Photo {
@@ -15,7 +71,32 @@ export interface Photo {
   album_id: string;
   image_url: string;
   caption: string | null;
+  // Screen-reader description; the caption stands in when it is empty.
+  alt_text: string | null;
+  // Null for photos uploaded before renditions existed.
+  variants: PhotoVariants | null;
+  // When the photo was taken according to the camera.
+  taken_at: string | null;
+  metadata: PhotoMetadata | null;
+  // Fingerprints for spotting duplicate uploads; see lib/duplicates. Missing on search
+  // results and null for photos uploaded before they existed.
+  content_hash?: string | null;
+  perceptual_hash?: string | null;
+  sort_order: number;
   created_at: string;
+  // When the photo was moved to the trash.
+  deleted_at?: string | null;
+}
+
+// A photo found by search, with the title of the album it belongs to.
+export interface PhotoSearchResult extends Photo {
+  album_title: string;
+}
+
+// A trashed photo, with the title of the album it belongs to.
+export interface TrashedPhoto extends Photo {
+  album_title: string;
+  deleted_at: string;
 }
 
 export interface ToastMessage {
@@ -23,3 +104,51 @@ export interface ToastMessage {
   message: string;
   type: 'success' | 'error' | 'info';
 }
+
+export type UserRole = 'admin' | 'editor' | 'contributor';
+
+// A person allowed into the admin panel, matched to their account by email.
+export interface StaffMember {
+  email: string;
+  role: UserRole;
+  // Albums a contributor may upload to; unused for other roles.
+  album_ids: string[];
+  created_at: string;
+}
+
+export type AuditAction =
+  | 'album.create'
+  | 'album.update'
+  | 'album.delete'
+  | 'album.cover'
+  | 'album.trash'
+  | 'album.restore'
+  | 'photo.upload'
+  | 'photo.delete'
+  | 'photo.caption'
+  | 'photo.trash'
+  | 'photo.restore'
+  | 'photo.move';
+
+// One admin action. Titles are copied in so the entry stays readable after deletion.
+export interface AuditEntry {
+  id: string;
+  created_at: string;
+  actor_email: string | null;
+  action: AuditAction;
+  album_id: string | null;
+  album_title: string | null;
+  photo_id: string | null;
+  // Only the fields that changed.
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+export interface AuthUser {
+  id: string;
+  email: string | null;
+}
+
+export interface AuthSession {
+  user: AuthUser;
+}
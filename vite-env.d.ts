@@ -0,0 +1,17 @@
+/// <reference types="vite/client" />
+
+// See .env.example for what each variable does; lib/config.ts validates them at startup.
+interface ImportMetaEnv {
+  readonly VITE_DATA_SOURCE?: string;
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  readonly VITE_STORAGE_BUCKET?: string;
+  readonly VITE_SITE_NAME?: string;
+  readonly VITE_SITE_URL?: string;
+  readonly VITE_MAX_UPLOAD_MB?: string;
+  readonly VITE_IMAGE_MAX_DIMENSION?: string;
+  readonly VITE_IMAGE_QUALITY?: string;
+  readonly VITE_IMAGE_FORMAT?: string;
+  readonly VITE_UPLOAD_CONCURRENCY?: string;
+  readonly VITE_TRASH_RETENTION_DAYS?: string;
+}